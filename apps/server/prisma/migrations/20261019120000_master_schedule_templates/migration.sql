@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "master_schedules" ADD COLUMN "is_override" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "master_schedule_templates" (
+    "id" TEXT NOT NULL,
+    "master_id" TEXT NOT NULL,
+    "days" JSONB NOT NULL,
+    "effective_from" DATE NOT NULL,
+    "effective_until" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "master_schedule_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "master_schedule_templates_master_id_effective_from_idx" ON "master_schedule_templates"("master_id", "effective_from");
+
+-- AddForeignKey
+ALTER TABLE "master_schedule_templates" ADD CONSTRAINT "master_schedule_templates_master_id_fkey" FOREIGN KEY ("master_id") REFERENCES "masters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
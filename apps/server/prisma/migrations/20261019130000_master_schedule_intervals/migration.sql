@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "master_schedules" ADD COLUMN "intervals" JSONB;
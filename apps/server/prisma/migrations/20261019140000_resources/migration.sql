@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "resources" (
+    "id" TEXT NOT NULL,
+    "name" JSONB NOT NULL,
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "service_resources" (
+    "id" TEXT NOT NULL,
+    "service_id" TEXT NOT NULL,
+    "resource_id" TEXT NOT NULL,
+
+    CONSTRAINT "service_resources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "booking_resources" (
+    "id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "resource_id" TEXT NOT NULL,
+
+    CONSTRAINT "booking_resources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "service_resources_service_id_resource_id_key" ON "service_resources"("service_id", "resource_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "booking_resources_booking_id_resource_id_key" ON "booking_resources"("booking_id", "resource_id");
+
+-- CreateIndex
+CREATE INDEX "booking_resources_resource_id_idx" ON "booking_resources"("resource_id");
+
+-- AddForeignKey
+ALTER TABLE "service_resources" ADD CONSTRAINT "service_resources_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "service_resources" ADD CONSTRAINT "service_resources_resource_id_fkey" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resources" ADD CONSTRAINT "booking_resources_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_resources" ADD CONSTRAINT "booking_resources_resource_id_fkey" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "series_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "master_id" TEXT NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "interval_weeks" INTEGER NOT NULL,
+    "occurrences" INTEGER,
+    "until_date" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_series_id_idx" ON "bookings"("series_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "booking_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_master_id_fkey" FOREIGN KEY ("master_id") REFERENCES "masters"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "group_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "booking_groups" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "total_price" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_group_id_idx" ON "bookings"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "booking_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_groups" ADD CONSTRAINT "booking_groups_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
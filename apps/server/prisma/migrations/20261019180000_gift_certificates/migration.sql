@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "GiftCertificateStatus" AS ENUM ('pending', 'active', 'used', 'voided');
+
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'certificate_purchase';
+ALTER TYPE "PaymentType" ADD VALUE 'certificate_redemption';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'gift_certificate_purchased';
+
+-- DropForeignKey
+ALTER TABLE "payments" DROP CONSTRAINT "payments_booking_id_fkey";
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "booking_id" DROP NOT NULL,
+ADD COLUMN "gift_certificate_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "gift_certificates" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "balance" DECIMAL(10,2) NOT NULL,
+    "status" "GiftCertificateStatus" NOT NULL DEFAULT 'pending',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "purchaser_id" TEXT NOT NULL,
+    "recipient_name" TEXT,
+    "message" TEXT,
+    "void_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_certificates_code_key" ON "gift_certificates"("code");
+
+-- CreateIndex
+CREATE INDEX "gift_certificates_purchaser_id_idx" ON "gift_certificates"("purchaser_id");
+
+-- CreateIndex
+CREATE INDEX "payments_gift_certificate_id_idx" ON "payments"("gift_certificate_id");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_gift_certificate_id_fkey" FOREIGN KEY ("gift_certificate_id") REFERENCES "gift_certificates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gift_certificates" ADD CONSTRAINT "gift_certificates_purchaser_id_fkey" FOREIGN KEY ("purchaser_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
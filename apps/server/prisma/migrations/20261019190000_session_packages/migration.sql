@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "PackageLogType" AS ENUM ('issued', 'consumed', 'restored', 'adjusted');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "user_package_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "session_packages" (
+    "id" TEXT NOT NULL,
+    "name" JSONB NOT NULL,
+    "service_id" TEXT NOT NULL,
+    "duration_id" TEXT NOT NULL,
+    "sessions_count" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "valid_days" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_packages" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "package_id" TEXT NOT NULL,
+    "sessions_total" INTEGER NOT NULL,
+    "sessions_remaining" INTEGER NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_package_logs" (
+    "id" TEXT NOT NULL,
+    "user_package_id" TEXT NOT NULL,
+    "type" "PackageLogType" NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "booking_id" TEXT,
+    "actor_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_package_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_packages_user_id_expires_at_idx" ON "user_packages"("user_id", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "user_package_logs_user_package_id_created_at_idx" ON "user_package_logs"("user_package_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "user_package_logs_booking_id_idx" ON "user_package_logs"("booking_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_user_package_id_fkey" FOREIGN KEY ("user_package_id") REFERENCES "user_packages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_packages" ADD CONSTRAINT "session_packages_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "services"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_packages" ADD CONSTRAINT "session_packages_duration_id_fkey" FOREIGN KEY ("duration_id") REFERENCES "service_durations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_packages" ADD CONSTRAINT "user_packages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_packages" ADD CONSTRAINT "user_packages_package_id_fkey" FOREIGN KEY ("package_id") REFERENCES "session_packages"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_package_logs" ADD CONSTRAINT "user_package_logs_user_package_id_fkey" FOREIGN KEY ("user_package_id") REFERENCES "user_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_package_logs" ADD CONSTRAINT "user_package_logs_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_package_logs" ADD CONSTRAINT "user_package_logs_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
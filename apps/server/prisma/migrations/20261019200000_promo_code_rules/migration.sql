@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "promo_codes" ADD COLUMN "max_uses_per_user" INTEGER,
+ADD COLUMN "service_ids" JSONB,
+ADD COLUMN "category_ids" JSONB,
+ADD COLUMN "first_visit_only" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "master_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_master_id_fkey" FOREIGN KEY ("master_id") REFERENCES "masters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "promo_code_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "booking_id" TEXT NOT NULL,
+    "discount_amount" DECIMAL(10,2) NOT NULL,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_booking_id_key" ON "promo_redemptions"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promo_code_id_released_at_idx" ON "promo_redemptions"("promo_code_id", "released_at");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_user_id_promo_code_id_idx" ON "promo_redemptions"("user_id", "promo_code_id");
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing bookings with a promo code become redemptions (the booking discount is the closest known amount);
+-- cancelled ones are already released
+INSERT INTO "promo_redemptions" ("id", "promo_code_id", "user_id", "booking_id", "discount_amount", "released_at", "created_at")
+SELECT gen_random_uuid()::text, "promo_code_id", "user_id", "id", "discount_amount",
+       CASE WHEN "status" IN ('cancelled_by_client', 'cancelled_by_admin') THEN "updated_at" END,
+       "created_at"
+FROM "bookings"
+WHERE "promo_code_id" IS NOT NULL;
+
+-- Counter is derived from the ledger from now on
+UPDATE "promo_codes" SET "current_uses" = (
+    SELECT COUNT(*) FROM "promo_redemptions"
+    WHERE "promo_redemptions"."promo_code_id" = "promo_codes"."id" AND "promo_redemptions"."released_at" IS NULL
+);
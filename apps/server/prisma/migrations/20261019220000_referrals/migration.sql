@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'referral_reward';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "referral_code" TEXT;
+
+-- AlterTable
+ALTER TABLE "promo_codes" ADD COLUMN "owner_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "referrals" (
+    "id" TEXT NOT NULL,
+    "referrer_id" TEXT NOT NULL,
+    "referee_id" TEXT NOT NULL,
+    "rewarded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "referrals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_referral_code_key" ON "users"("referral_code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "referrals_referee_id_key" ON "referrals"("referee_id");
+
+-- CreateIndex
+CREATE INDEX "referrals_referrer_id_idx" ON "referrals"("referrer_id");
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referrer_id_fkey" FOREIGN KEY ("referrer_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_referee_id_fkey" FOREIGN KEY ("referee_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "masters" ADD COLUMN "daily_digest_time" TEXT DEFAULT '20:00';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'booking_request';
+ALTER TYPE "NotificationType" ADD VALUE 'booking_time_proposed';
+ALTER TYPE "NotificationType" ADD VALUE 'booking_proposal_accepted';
+ALTER TYPE "NotificationType" ADD VALUE 'booking_proposal_declined';
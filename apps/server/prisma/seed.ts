@@ -16,6 +16,17 @@ async function main() {
         { key: 'buffer_minutes', value: 15 },
         { key: 'cancel_hours_before', value: 2 },
         { key: 'booking_days_ahead', value: 14 },
+        { key: 'deposit_hold_minutes', value: 30 },
+        {
+            key: 'cancellation_policy', value: {
+                rules: [
+                    { minHoursBefore: 24, refundPercent: 100 },
+                    { minHoursBefore: 0, refundPercent: 50 },
+                ],
+                adminRefundPercent: 100,
+                noShowRefundPercent: 0,
+            }
+        },
         {
             key: 'about_text', value: {
                 uk: 'Ми — команда професійних масажистів, які допоможуть вам відновити сили та знайти гармонію тіла і душі. Наш салон працює з 2020 року і за цей час ми допомогли тисячам клієнтів.',
@@ -0,0 +1,153 @@
+/**
+ * Локальний фейковий шлюз Portmone для тестування оплат
+ *
+ * 1. PORTMONE_GATEWAY_URL="http://localhost:4010/gateway/" у .env сервера
+ * 2. pnpm --filter @massage-bot/server payments:fake-gateway
+ * 3. Відкрити paymentUrl з /api/payments/checkout — шлюз надішле підписаний callback
+ *    (?result=1 у посиланні імітує відмову), а на запит статусу (method: result) відповість PAYED
+ */
+import http from 'node:http';
+import { format } from 'date-fns';
+import { env } from '../src/config/env.js';
+import { signPortmone } from '../src/services/payment.service.js';
+
+const PORT = Number(process.env.FAKE_GATEWAY_PORT ?? 4010);
+const CALLBACK_URL = process.env.FAKE_GATEWAY_CALLBACK_URL ?? `http://localhost:${env.PORT}/api/payments/callback`;
+
+interface PendingOrder {
+    shopOrderNumber: string;
+    billAmount: string;
+    successUrl: string;
+    failureUrl: string;
+    // Заповнюється після успішної "оплати"
+    shopBillId?: string;
+}
+
+const orders = new Map<string, PendingOrder>();
+let transactionCounter = 1000;
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', (chunk) => (data += chunk));
+        req.on('end', () => resolve(data));
+        req.on('error', reject);
+    });
+}
+
+async function sendCallback(order: PendingOrder, result: string) {
+    if (result === '0') {
+        order.shopBillId = String(++transactionCounter);
+    }
+
+    const dt = format(new Date(), 'yyyyMMddHHmmss');
+    const signature = signPortmone({
+        payeeId: env.PORTMONE_PAYEE_ID ?? '',
+        dt,
+        shopOrderNumber: order.shopOrderNumber,
+        billAmount: order.billAmount,
+        login: env.PORTMONE_LOGIN ?? '',
+        key: env.PORTMONE_KEY ?? '',
+    });
+
+    const response = await fetch(CALLBACK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            shopOrderNumber: order.shopOrderNumber,
+            billAmount: order.billAmount,
+            result,
+            transactionId: order.shopBillId ?? String(++transactionCounter),
+            dt,
+            signature,
+        }),
+    });
+
+    console.log(`↩️  Callback for ${order.shopOrderNumber}: ${response.status} ${await response.text()}`);
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+
+    try {
+        if (req.method === 'POST' && url.pathname.startsWith('/gateway')) {
+            const body = JSON.parse(await readBody(req));
+
+            // return (повернення коштів)
+            if (body.method === 'return') {
+                const { params } = body;
+                console.log(`💸 Refund: ${params.shopOrderNumber} (${params.returnAmount} UAH)`);
+
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({
+                    status: 'RETURN',
+                    shopBillId: String(++transactionCounter),
+                    errorCode: '0',
+                }));
+                return;
+            }
+
+            // result (статус замовлення)
+            if (body.method === 'result') {
+                const order = orders.get(body.params.shopOrderNumber);
+
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(order ? [{
+                    shopBillId: order.shopBillId ?? null,
+                    status: order.shopBillId ? 'PAYED' : 'CREATED',
+                    billAmount: order.billAmount,
+                }] : []));
+                return;
+            }
+
+            // createLinkPayment
+            const { order } = body;
+
+            orders.set(order.shopOrderNumber, {
+                shopOrderNumber: order.shopOrderNumber,
+                billAmount: order.billAmount,
+                successUrl: order.successUrl,
+                failureUrl: order.failureUrl,
+            });
+
+            console.log(`💳 Checkout created: ${order.shopOrderNumber} (${order.billAmount} UAH)`);
+
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+                linkPayment: `http://localhost:${PORT}/pay/${order.shopOrderNumber}`,
+                errorCode: '0',
+            }));
+            return;
+        }
+
+        // "Сторінка оплати": одразу відправляє callback і редіректить назад
+        if (req.method === 'GET' && url.pathname.startsWith('/pay/')) {
+            const orderNumber = url.pathname.replace('/pay/', '');
+            const order = orders.get(orderNumber);
+
+            if (!order) {
+                res.writeHead(404);
+                res.end('Order not found');
+                return;
+            }
+
+            const result = url.searchParams.get('result') ?? '0';
+            await sendCallback(order, result);
+
+            res.writeHead(302, { Location: result === '0' ? order.successUrl : order.failureUrl });
+            res.end();
+            return;
+        }
+
+        res.writeHead(404);
+        res.end();
+    } catch (error) {
+        console.error('Fake gateway error:', error);
+        res.writeHead(500);
+        res.end();
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`🧪 Fake Portmone gateway on http://localhost:${PORT}/gateway/ → callbacks to ${CALLBACK_URL}`);
+});
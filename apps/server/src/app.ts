@@ -8,6 +8,7 @@ import { prismaPlugin } from './config/database.js';
 import { authRoutes } from './modules/auth/auth.controller.js';
 import { usersRoutes } from './modules/users/users.controller.js';
 import { servicesRoutes } from './modules/services/services.controller.js';
+import { combosRoutes } from './modules/combos/combos.controller.js';
 import { mastersRoutes } from './modules/masters/masters.controller.js';
 import { bookingsRoutes } from './modules/bookings/bookings.controller.js';
 import { reviewsRoutes } from './modules/reviews/reviews.controller.js';
@@ -24,7 +25,13 @@ import { adminPromoCodesRoutes } from './modules/admin/promo-codes.controller.js
 import { adminLoyaltyRoutes } from './modules/admin/loyalty.controller.js';
 import { adminReviewsRoutes } from './modules/admin/reviews.controller.js';
 import { adminAnalyticsRoutes } from './modules/admin/analytics.controller.js';
+import { adminSettingsRoutes } from './modules/admin/settings.controller.js';
+import { adminResourcesRoutes } from './modules/admin/resources.controller.js';
+import { adminGiftCertificatesRoutes } from './modules/admin/gift-certificates.controller.js';
+import { adminPackagesRoutes } from './modules/admin/packages.controller.js';
 import { waitlistRoutes } from './modules/waitlist/waitlist.controller.js';
+import { paymentsRoutes } from './modules/payments/payments.controller.js';
+import { giftCertificatesRoutes } from './modules/gift-certificates/gift-certificates.controller.js';
 import { errorHandler } from './shared/middleware/error.middleware.js';
 import { bot } from './bot/bot.js';
 
@@ -80,6 +87,7 @@ export async function buildApp() {
     await app.register(authRoutes, { prefix: '/api/auth' });
     await app.register(usersRoutes, { prefix: '/api/users' });
     await app.register(servicesRoutes, { prefix: '/api/services' });
+    await app.register(combosRoutes, { prefix: '/api/combos' });
     await app.register(mastersRoutes, { prefix: '/api/masters' });
     await app.register(bookingsRoutes, { prefix: '/api/bookings' });
     await app.register(reviewsRoutes, { prefix: '/api/reviews' });
@@ -87,6 +95,8 @@ export async function buildApp() {
     await app.register(promotionsRoutes, { prefix: '/api/promotions' });
     await app.register(notificationsRoutes, { prefix: '/api/notifications' });
     await app.register(cronRoutes, { prefix: '/api/cron' });
+    await app.register(paymentsRoutes, { prefix: '/api/payments' });
+    await app.register(giftCertificatesRoutes, { prefix: '/api/gift-certificates' });
 
     // Master routes
     await app.register(masterDashboardRoutes, { prefix: '/api/master' });
@@ -101,6 +111,10 @@ export async function buildApp() {
     await app.register(adminLoyaltyRoutes, { prefix: '/api/admin/loyalty' });
     await app.register(adminReviewsRoutes, { prefix: '/api/admin/reviews' });
     await app.register(adminAnalyticsRoutes, { prefix: '/api/admin/analytics' });
+    await app.register(adminSettingsRoutes, { prefix: '/api/admin/settings' });
+    await app.register(adminResourcesRoutes, { prefix: '/api/admin/resources' });
+    await app.register(adminGiftCertificatesRoutes, { prefix: '/api/admin/gift-certificates' });
+    await app.register(adminPackagesRoutes, { prefix: '/api/admin/packages' });
 
     // Waitlist routes
     await app.register(waitlistRoutes, { prefix: '/api/waitlist' });
@@ -0,0 +1,413 @@
+import { InlineKeyboard, type Bot, type Context } from 'grammy';
+import { env } from '../config/env.js';
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { createBooking } from '../services/booking-create.service.js';
+import { BookingConflictError, BookingError, getAvailableSlots, priceBookingItems } from '../services/booking.service.js';
+import { GiftCertificateError } from '../services/gift-certificate.service.js';
+import { findCoveringPackage, PackageError } from '../services/package.service.js';
+import { PromoCodeError } from '../services/promo.service.js';
+import { getSetting } from '../services/settings.service.js';
+import { escapeHtml, formatMessage, Language, localizedName } from '../shared/utils/message-templates.js';
+import { formatDbDate, toDbDate, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+import { buildDateKeyboard, buildOptionsKeyboard, findBotUser, telegramLanguage } from './helpers.js';
+
+// Незавершений запис забувається через 30 хвилин бездіяльності
+const FLOW_TTL_SECONDS = 30 * 60;
+
+/**
+ * Вибір клієнта на попередніх кроках /book (masterId null — "будь-який майстер")
+ */
+interface BookingFlowState {
+    serviceId?: string;
+    durationId?: string;
+    masterId?: string | null;
+    date?: string; // "YYYY-MM-DD"
+    time?: string; // "HH:mm"
+}
+
+function flowKey(telegramId: number): string {
+    return `bot:book:${telegramId}`;
+}
+
+async function loadState(telegramId: number): Promise<BookingFlowState | null> {
+    const raw = await redis.get(flowKey(telegramId));
+    return raw ? JSON.parse(raw) : null;
+}
+
+async function saveState(telegramId: number, state: BookingFlowState): Promise<void> {
+    await redis.set(flowKey(telegramId), JSON.stringify(state), 'EX', FLOW_TTL_SECONDS);
+}
+
+function cancelRow(keyboard: InlineKeyboard, language: Language): InlineKeyboard {
+    return keyboard.row().text(formatMessage('bot_book_cancel_button', language, {}), 'bk:cancel');
+}
+
+/**
+ * Користувач і стан розпочатого запису для кроку з кнопки; null — запис не розпочато або він застарів
+ */
+async function loadFlow(
+    ctx: Context,
+    telegramId: number
+): Promise<{ userId: string; language: Language; state: BookingFlowState } | null> {
+    const user = await findBotUser(telegramId);
+    const language = user?.language ?? 'uk';
+    const state = user ? await loadState(telegramId) : null;
+
+    await ctx.answerCallbackQuery();
+
+    if (!user || !state) {
+        await ctx.editMessageText(formatMessage('bot_book_expired', language, {}));
+        return null;
+    }
+
+    return { userId: user.id, language, state };
+}
+
+/**
+ * Відредагувати повідомлення кроку (натиснута кнопка) або надіслати нове (команда)
+ */
+async function showStep(ctx: Context, text: string, keyboard: InlineKeyboard) {
+    if (ctx.callbackQuery) {
+        await ctx.editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    } else {
+        await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+}
+
+async function showCategories(ctx: Context, language: Language) {
+    const categories = await prisma.serviceCategory.findMany({
+        where: {
+            isActive: true,
+            parentId: null,
+            OR: [
+                { services: { some: { isActive: true } } },
+                { children: { some: { isActive: true, services: { some: { isActive: true } } } } },
+            ],
+        },
+        orderBy: { sortOrder: 'asc' },
+    });
+
+    if (categories.length === 0) {
+        await showStep(ctx, formatMessage('bot_book_empty', language, {}), new InlineKeyboard());
+        return;
+    }
+
+    const keyboard = buildOptionsKeyboard(
+        categories.map((category: any) => ({ label: localizedName(category.name, language), data: `bk:cat:${category.id}` })),
+        2
+    );
+
+    await showStep(ctx, formatMessage('bot_book_choose_category', language, {}), cancelRow(keyboard, language));
+}
+
+async function showDates(ctx: Context, language: Language, text: string) {
+    const keyboard = await buildDateKeyboard(language, (date) => `bk:day:${date}`);
+    await showStep(ctx, text, cancelRow(keyboard, language));
+}
+
+/**
+ * Вільний час на обрану дату (в минулому не показується); false — вільного часу немає
+ */
+async function showTimes(ctx: Context, language: Language, state: BookingFlowState): Promise<boolean> {
+    const duration = await prisma.serviceDuration.findUniqueOrThrow({ where: { id: state.durationId! } });
+    const timeZone = await getSetting('salon_timezone');
+    const now = new Date();
+
+    const slots = (await getAvailableSlots(
+        state.masterId ?? undefined,
+        [state.serviceId!],
+        toDbDate(state.date!),
+        duration.durationMinutes
+    )).filter((time) => zonedDateTimeToUtc(state.date!, time, timeZone) > now);
+
+    if (slots.length === 0) {
+        return false;
+    }
+
+    const keyboard = buildOptionsKeyboard(slots.map((time) => ({ label: time, data: `bk:slot:${time}` })), 4);
+
+    await showStep(
+        ctx,
+        formatMessage('bot_book_choose_time', language, { date: formatDbDate(toDbDate(state.date!)) }),
+        cancelRow(keyboard, language)
+    );
+    return true;
+}
+
+/**
+ * Повідомлення про помилку створення бронювання за кодом помилки
+ */
+function bookingErrorMessage(error: unknown, language: Language): string | null {
+    if (error instanceof BookingConflictError) {
+        // SLOT_BUSY — слот лише заблоковано паралельним записом, варто спробувати ще раз
+        return formatMessage(error.code === 'SLOT_BUSY' ? 'bot_book_failed' : 'bot_book_slot_taken', language, {});
+    }
+    if (error instanceof BookingError && error.code === 'SLOT_NOT_AVAILABLE') {
+        return formatMessage('bot_book_slot_taken', language, {});
+    }
+    if (
+        error instanceof BookingError
+        || error instanceof PromoCodeError
+        || error instanceof PackageError
+        || error instanceof GiftCertificateError
+    ) {
+        return formatMessage('bot_book_failed', language, {});
+    }
+    return null;
+}
+
+/**
+ * Покроковий запис у чаті бота (/book): категорія → послуга → тривалість → майстер → дата → час → підтвердження.
+ * Стан кроків зберігається в Redis; доступність і створення бронювання — ті самі, що й у POST /api/bookings.
+ */
+export function registerBookingFlow(bot: Bot) {
+    bot.command('book', async (ctx) => {
+        if (!ctx.from) return;
+
+        const user = await findBotUser(ctx.from.id);
+
+        if (!user) {
+            // Мова ще не збережена — беремо мову клієнта Telegram
+            const language = telegramLanguage(ctx.from.language_code);
+            const keyboard = new InlineKeyboard().webApp(formatMessage('bot_book_open_app_button', language, {}), env.WEBAPP_URL);
+            await ctx.reply(formatMessage('bot_book_not_registered', language, {}), { reply_markup: keyboard });
+            return;
+        }
+
+        await saveState(ctx.from.id, {});
+        await showCategories(ctx, user.language);
+    });
+
+    bot.callbackQuery('bk:cancel', async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+
+        await redis.del(flowKey(ctx.from.id));
+        await ctx.editMessageText(formatMessage('bot_book_cancelled', flow.language, {}));
+    });
+
+    // Категорія → послуги категорії та її підкатегорій
+    bot.callbackQuery(/^bk:cat:([0-9a-f-]{36})$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { language } = flow;
+        const categoryId = ctx.match[1];
+
+        const services = await prisma.service.findMany({
+            where: {
+                isActive: true,
+                OR: [{ categoryId }, { category: { parentId: categoryId } }],
+                durations: { some: { isActive: true } },
+                masterServices: { some: { master: { isActive: true } } },
+            },
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        await saveState(ctx.from.id, {});
+
+        if (services.length === 0) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        const keyboard = buildOptionsKeyboard(
+            services.map((service: any) => ({ label: localizedName(service.name, language), data: `bk:svc:${service.id}` })),
+            1
+        );
+
+        await showStep(ctx, formatMessage('bot_book_choose_service', language, {}), cancelRow(keyboard, language));
+    });
+
+    // Послуга → тривалості з базовою ціною
+    bot.callbackQuery(/^bk:svc:([0-9a-f-]{36})$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { language } = flow;
+        const serviceId = ctx.match[1];
+
+        const service = await prisma.service.findUnique({
+            where: { id: serviceId, isActive: true },
+            include: { durations: { where: { isActive: true }, orderBy: { durationMinutes: 'asc' } } },
+        });
+
+        if (!service || service.durations.length === 0) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        await saveState(ctx.from.id, { serviceId });
+
+        const keyboard = buildOptionsKeyboard(
+            service.durations.map((duration: any) => ({
+                label: formatMessage('bot_book_duration_option', language, {
+                    duration: String(duration.durationMinutes),
+                    price: String(Number(duration.basePrice)),
+                }),
+                data: `bk:dur:${duration.id}`,
+            })),
+            2
+        );
+
+        await showStep(
+            ctx,
+            formatMessage('bot_book_choose_duration', language, { service_name: escapeHtml(localizedName(service.name, language)) }),
+            cancelRow(keyboard, language)
+        );
+    });
+
+    // Тривалість → майстри, що надають послугу
+    bot.callbackQuery(/^bk:dur:([0-9a-f-]{36})$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { language, state } = flow;
+        const durationId = ctx.match[1];
+
+        const duration = await prisma.serviceDuration.findUnique({ where: { id: durationId, isActive: true } });
+
+        if (!duration || duration.serviceId !== state.serviceId) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        const masters = await prisma.master.findMany({
+            where: { isActive: true, masterServices: { some: { serviceId: state.serviceId } } },
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        await saveState(ctx.from.id, { serviceId: state.serviceId, durationId });
+
+        const keyboard = buildOptionsKeyboard([
+            { label: formatMessage('bot_book_any_master_button', language, {}), data: 'bk:mst:any' },
+            ...masters.map((master: any) => ({
+                label: localizedName(master.displayName, language),
+                data: `bk:mst:${master.id}`,
+            })),
+        ], 1);
+
+        await showStep(ctx, formatMessage('bot_book_choose_master', language, {}), cancelRow(keyboard, language));
+    });
+
+    // Майстер → дати
+    bot.callbackQuery(/^bk:mst:([0-9a-f-]{36}|any)$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { language, state } = flow;
+
+        if (!state.durationId) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        await saveState(ctx.from.id, {
+            serviceId: state.serviceId,
+            durationId: state.durationId,
+            masterId: ctx.match[1] === 'any' ? null : ctx.match[1],
+        });
+
+        await showDates(ctx, language, formatMessage('bot_book_choose_date', language, {}));
+    });
+
+    // Дата → вільний час
+    bot.callbackQuery(/^bk:day:(\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { language, state } = flow;
+
+        if (state.masterId === undefined) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        const next = { ...state, date: ctx.match[1], time: undefined };
+        await saveState(ctx.from.id, next);
+
+        if (!(await showTimes(ctx, language, next))) {
+            await showDates(ctx, language, formatMessage('bot_book_no_slots', language, {
+                date: formatDbDate(toDbDate(next.date)),
+            }));
+        }
+    });
+
+    // Час → підсумок і підтвердження
+    bot.callbackQuery(/^bk:slot:(\d{2}:\d{2})$/, async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { userId, language, state } = flow;
+
+        if (!state.date) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        const next = { ...state, time: ctx.match[1] };
+        await saveState(ctx.from.id, next);
+
+        const serviceDurations = [{ serviceId: next.serviceId!, durationId: next.durationId! }];
+        const [service, duration, master, coveringPackage] = await Promise.all([
+            prisma.service.findUniqueOrThrow({ where: { id: next.serviceId! } }),
+            prisma.serviceDuration.findUniqueOrThrow({ where: { id: next.durationId! } }),
+            next.masterId ? prisma.master.findUnique({ where: { id: next.masterId } }) : null,
+            findCoveringPackage(userId, serviceDurations, toDbDate(next.date!)),
+        ]);
+
+        // Ціна як у createBooking: ціна обраного майстра, а сеанс пакета замінює покриту послугу.
+        // Для "будь-якого майстра" — базова ціна тривалості (майстра призначать під час запису)
+        let price = coveringPackage ? 0 : Number(duration.basePrice);
+        if (master) {
+            const priced = await priceBookingItems(master.id, serviceDurations);
+            price = priced.totalPrice - (coveringPackage ? priced.items[coveringPackage.itemIndex].price : 0);
+        }
+
+        const keyboard = new InlineKeyboard()
+            .text(formatMessage('bot_book_confirm_button', language, {}), 'bk:ok')
+            .text(formatMessage('bot_book_cancel_button', language, {}), 'bk:cancel');
+
+        await showStep(ctx, formatMessage('bot_book_summary', language, {
+            service_name: escapeHtml(localizedName(service.name, language)),
+            duration: String(duration.durationMinutes),
+            master_name: master
+                ? escapeHtml(localizedName(master.displayName, language))
+                : formatMessage('bot_book_any_master_button', language, {}),
+            date: formatDbDate(toDbDate(next.date!)),
+            time: next.time,
+            price: String(price),
+        }), keyboard);
+    });
+
+    // Підтвердження → бронювання, як у POST /api/bookings
+    bot.callbackQuery('bk:ok', async (ctx) => {
+        const flow = await loadFlow(ctx, ctx.from.id);
+        if (!flow) return;
+        const { userId, language, state } = flow;
+
+        if (!state.time) {
+            await showCategories(ctx, language);
+            return;
+        }
+
+        try {
+            await createBooking(userId, {
+                masterId: state.masterId ?? undefined,
+                bookingDate: state.date!,
+                startTime: state.time,
+                serviceDurations: [{ serviceId: state.serviceId!, durationId: state.durationId! }],
+            });
+        } catch (error) {
+            const message = bookingErrorMessage(error, language);
+            if (!message) throw error;
+
+            await saveState(ctx.from.id, { ...state, time: undefined });
+            if (!(await showTimes(ctx, language, state))) {
+                await ctx.editMessageText(message);
+                return;
+            }
+            await ctx.reply(message);
+            return;
+        }
+
+        await redis.del(flowKey(ctx.from.id));
+        await ctx.editMessageText(formatMessage('bot_book_done', language, {}));
+    });
+}
+
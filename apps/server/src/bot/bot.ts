@@ -1,5 +1,35 @@
-import { Bot, InlineKeyboard } from 'grammy';
+import { Bot, InlineKeyboard, type Context } from 'grammy';
 import { env } from '../config/env.js';
+import { prisma } from '../config/database.js';
+import { createReview, ReviewError } from '../services/review.service.js';
+import { registerBookingFlow } from './booking-flow.js';
+import { registerBookingManagement } from './manage-bookings.js';
+import { BookingConflictError, BookingError } from '../services/booking.service.js';
+import {
+    acceptProposedTime,
+    declineProposedTime,
+    getProposalSlots,
+    proposeBookingTime,
+    type ProposedSlot,
+} from '../services/booking-request.service.js';
+import {
+    applyStaffAction,
+    BookingStatusError,
+    changeBookingStatus,
+    getBookingMessageParams,
+    getStaffActions,
+    type StaffAction,
+} from '../services/booking-status.service.js';
+import {
+    formatCertificateExpiry,
+    getRedeemableCertificate,
+    GIFT_START_PREFIX,
+    GiftCertificateError,
+} from '../services/gift-certificate.service.js';
+import { rememberPendingReferral, REFERRAL_START_PREFIX } from '../services/referral.service.js';
+import { getSetting } from '../services/settings.service.js';
+import { escapeHtml, formatMessage, Language } from '../shared/utils/message-templates.js';
+import { formatDbDate, toDbDate } from '../shared/utils/timezone.js';
 
 export const bot = new Bot(env.BOT_TOKEN);
 
@@ -20,8 +50,17 @@ export async function initBot() {
     await bot.init();
     console.log(`✅ Bot initialized: @${bot.botInfo.username}`);
 
-    // /start command
+    // /start command (payload gift_<code> — посилання подарункового сертифіката, ref_<code> — реферальне посилання)
     bot.command('start', async (ctx) => {
+        if (ctx.match.startsWith(GIFT_START_PREFIX)) {
+            await replyWithGiftCertificate(ctx, ctx.match.slice(GIFT_START_PREFIX.length));
+            return;
+        }
+
+        if (ctx.match.startsWith(REFERRAL_START_PREFIX) && ctx.from) {
+            await rememberPendingReferral(ctx.from.id, ctx.match.slice(REFERRAL_START_PREFIX.length));
+        }
+
         const firstName = ctx.from?.first_name ?? 'друже';
 
         const keyboard = new InlineKeyboard().webApp(
@@ -42,6 +81,214 @@ export async function initBot() {
         );
     });
 
+    // Покроковий запис у чаті (/book)
+    registerBookingFlow(bot);
+
+    // Керування записами в чаті (/mybookings, /cancel, /reschedule)
+    registerBookingManagement(bot);
+
+    // Оцінка візиту з повідомлення review_request (callback: review:<bookingId>:<rating>)
+    bot.callbackQuery(/^review:([0-9a-f-]{36}):([1-5])$/, async (ctx) => {
+        const [, bookingId, rating] = ctx.match;
+
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(ctx.from.id) },
+            select: { id: true, language: true },
+        });
+        const language = (user?.language ?? 'uk') as Language;
+
+        if (!user) {
+            await ctx.answerCallbackQuery({ text: formatMessage('review_not_allowed', language, {}) });
+            return;
+        }
+
+        try {
+            await createReview({ userId: user.id, bookingId, rating: Number(rating) });
+        } catch (error) {
+            if (error instanceof ReviewError) {
+                const type = error.code === 'ALREADY_REVIEWED' ? 'review_already_exists' : 'review_not_allowed';
+                await ctx.answerCallbackQuery({ text: formatMessage(type, language, {}) });
+                return;
+            }
+            throw error;
+        }
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageReplyMarkup();
+        await ctx.reply(formatMessage('review_thanks', language, { rating: '⭐'.repeat(Number(rating)) }));
+    });
+
+    // Запит на підтвердження бронювання майстру (callback: req:confirm|decline|propose:<bookingId>)
+    bot.callbackQuery(/^req:(confirm|decline|propose):([0-9a-f-]{36})$/, async (ctx) => {
+        const [, action, bookingId] = ctx.match;
+
+        const actor = await findRequestActor(ctx.from.id, bookingId);
+        if (!actor) {
+            await ctx.answerCallbackQuery({ text: formatMessage('booking_request_unavailable', 'uk', {}) });
+            return;
+        }
+        const { language, masterId } = actor;
+
+        try {
+            if (action === 'propose') {
+                const slots = await getProposalSlots(bookingId);
+                await ctx.answerCallbackQuery();
+
+                if (slots.length === 0) {
+                    await ctx.reply(formatMessage('booking_request_no_slots', language, {}));
+                    return;
+                }
+
+                await ctx.reply(formatMessage('booking_request_choose_time', language, {}), {
+                    reply_markup: buildProposalSlotsKeyboard(bookingId, slots),
+                });
+                return;
+            }
+
+            const { booking } = await changeBookingStatus(
+                bookingId,
+                action === 'confirm' ? 'confirmed' : 'cancelled_by_admin',
+                { actor: 'master', masterId }
+            );
+
+            await ctx.answerCallbackQuery();
+            await ctx.editMessageReplyMarkup();
+            await ctx.reply(formatMessage(
+                action === 'confirm' ? 'booking_request_confirmed' : 'booking_request_declined',
+                language,
+                { ...getBookingMessageParams(booking), client_name: escapeHtml(booking.user.firstName || '') }
+            ), { parse_mode: 'HTML' });
+        } catch (error) {
+            if (error instanceof BookingStatusError) {
+                await ctx.answerCallbackQuery({ text: formatMessage('booking_request_unavailable', language, {}) });
+                await ctx.editMessageReplyMarkup();
+                return;
+            }
+            throw error;
+        }
+    });
+
+    // Майстер обрав час, який запропонувати клієнту (callback: req:time:<bookingId>:<YYYY-MM-DD>:<HH:mm>)
+    bot.callbackQuery(/^req:time:([0-9a-f-]{36}):(\d{4}-\d{2}-\d{2}):(\d{2}:\d{2})$/, async (ctx) => {
+        const [, bookingId, date, time] = ctx.match;
+
+        const actor = await findRequestActor(ctx.from.id, bookingId);
+        if (!actor) {
+            await ctx.answerCallbackQuery({ text: formatMessage('booking_request_unavailable', 'uk', {}) });
+            return;
+        }
+
+        try {
+            await proposeBookingTime(bookingId, { date, time });
+        } catch (error) {
+            if (error instanceof BookingStatusError) {
+                await ctx.answerCallbackQuery({ text: formatMessage('booking_request_unavailable', actor.language, {}) });
+                await ctx.editMessageReplyMarkup();
+                return;
+            }
+            throw error;
+        }
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageReplyMarkup();
+        await ctx.reply(formatMessage('booking_request_proposed', actor.language, {
+            date: formatDbDate(toDbDate(date)),
+            time,
+        }));
+    });
+
+    // Відповідь клієнта на запропонований майстром час (callback: prop:yes:<bookingId>:<date>:<time> | prop:no:<bookingId>)
+    bot.callbackQuery(/^prop:(yes|no):([0-9a-f-]{36})(?::(\d{4}-\d{2}-\d{2}):(\d{2}:\d{2}))?$/, async (ctx) => {
+        const [, answer, bookingId, date, time] = ctx.match;
+
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(ctx.from.id) },
+            select: { id: true, language: true },
+        });
+        const language = (user?.language ?? 'uk') as Language;
+
+        if (!user || (answer === 'yes' && !date)) {
+            await ctx.answerCallbackQuery({ text: formatMessage('booking_proposal_unavailable', language, {}) });
+            return;
+        }
+
+        try {
+            if (answer === 'yes') {
+                await acceptProposedTime(bookingId, user.id, { date, time });
+                await ctx.answerCallbackQuery();
+                await ctx.editMessageReplyMarkup();
+                return;
+            }
+
+            await declineProposedTime(bookingId, user.id);
+        } catch (error) {
+            // Слот лише тимчасово заблоковано — кнопки лишаються, клієнт може натиснути ще раз
+            if (error instanceof BookingConflictError && error.code === 'SLOT_BUSY') {
+                await ctx.answerCallbackQuery({ text: formatMessage('bot_my_action_failed', language, {}) });
+                return;
+            }
+            if (error instanceof BookingConflictError || error instanceof BookingError) {
+                await ctx.answerCallbackQuery();
+                await ctx.editMessageReplyMarkup();
+                await ctx.reply(formatMessage('booking_proposal_slot_taken', language, {}));
+                return;
+            }
+            if (error instanceof BookingStatusError) {
+                await ctx.answerCallbackQuery({ text: formatMessage('booking_proposal_unavailable', language, {}) });
+                await ctx.editMessageReplyMarkup();
+                return;
+            }
+            throw error;
+        }
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageReplyMarkup();
+        await ctx.reply(formatMessage('booking_proposal_declined_reply', language, {}));
+    });
+
+    // Швидкі дії з групи персоналу (callback: staff:confirm|noshow:<bookingId>) — лише для адміністраторів
+    bot.callbackQuery(/^staff:(confirm|noshow):([0-9a-f-]{36})$/, async (ctx) => {
+        const [, action, bookingId] = ctx.match;
+
+        const user = await prisma.user.findUnique({
+            where: { telegramId: BigInt(ctx.from.id) },
+            select: { role: true, firstName: true, lastName: true },
+        });
+
+        if (!user || (user.role !== 'admin' && user.role !== 'owner')) {
+            await ctx.answerCallbackQuery({ text: formatMessage('staff_action_forbidden', 'uk', {}), show_alert: true });
+            return;
+        }
+
+        let booking;
+        try {
+            ({ booking } = await applyStaffAction(bookingId, action as StaffAction));
+        } catch (error) {
+            if (!(error instanceof BookingStatusError)) throw error;
+
+            const type = error.code === 'VISIT_NOT_STARTED' ? 'staff_action_too_early' : 'staff_action_unavailable';
+            await ctx.answerCallbackQuery({ text: formatMessage(type, 'uk', {}), show_alert: true });
+
+            // Статус уже змінили в іншому місці — прибрати неактуальні кнопки
+            const current = await prisma.booking.findUnique({ where: { id: bookingId }, select: { status: true } });
+            if (current && error.code !== 'VISIT_NOT_STARTED') {
+                await ctx.editMessageReplyMarkup({
+                    reply_markup: buildStaffBookingKeyboard(bookingId, getStaffActions(current.status)),
+                });
+            }
+            return;
+        }
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageReplyMarkup({
+            reply_markup: buildStaffBookingKeyboard(bookingId, getStaffActions(booking.status)),
+        });
+        await ctx.reply(formatMessage(`staff_action_done_${action}`, 'uk', {
+            ...getBookingMessageParams(booking),
+            actor_name: [user.firstName, user.lastName].filter(Boolean).join(' '),
+        }), ctx.msgId ? { reply_parameters: { message_id: ctx.msgId } } : {});
+    });
+
     // Handle errors with more detail
     bot.catch((err) => {
         console.error('Bot error:', err);
@@ -60,6 +307,76 @@ export async function initBot() {
     }
 }
 
+/**
+ * Показати отримувачу сертифікат з deep link і кнопку запису з уже підставленим кодом
+ */
+async function replyWithGiftCertificate(ctx: Context, code: string) {
+    const user = ctx.from
+        ? await prisma.user.findUnique({ where: { telegramId: BigInt(ctx.from.id) }, select: { language: true } })
+        : null;
+    const language = (user?.language ?? 'uk') as Language;
+
+    let certificate;
+    try {
+        certificate = await getRedeemableCertificate(code);
+    } catch (error) {
+        if (error instanceof GiftCertificateError) {
+            await ctx.reply(formatMessage('gift_certificate_invalid', language, {}));
+            return;
+        }
+        throw error;
+    }
+
+    const timeZone = await getSetting('salon_timezone');
+    const webAppUrl = env.WEBAPP_URL.replace(/\/$/, '');
+    const keyboard = new InlineKeyboard().webApp(
+        '🧖 Записатися',
+        `${webAppUrl}/booking?gift=${encodeURIComponent(certificate.code)}`
+    );
+
+    await ctx.reply(formatMessage('gift_certificate_received', language, {
+        amount: String(Number(certificate.balance)),
+        certificate_code: certificate.code,
+        date: formatCertificateExpiry(certificate.expiresAt, timeZone),
+    }), { parse_mode: 'HTML', reply_markup: keyboard });
+}
+
+/**
+ * Хто відповідає на запит бронювання: майстер цього бронювання або адміністратор.
+ * masterId задається лише для майстра; null — користувач не має права на дію.
+ */
+async function findRequestActor(
+    telegramId: number,
+    bookingId: string
+): Promise<{ language: Language; masterId?: string } | null> {
+    const [user, booking] = await Promise.all([
+        prisma.user.findUnique({
+            where: { telegramId: BigInt(telegramId) },
+            select: { role: true, language: true, master: { select: { id: true } } },
+        }),
+        prisma.booking.findUnique({ where: { id: bookingId }, select: { masterId: true } }),
+    ]);
+
+    if (!user || !booking) {
+        return null;
+    }
+
+    const language = (user.language ?? 'uk') as Language;
+
+    if (user.master && user.master.id === booking.masterId) {
+        return { language, masterId: user.master.id };
+    }
+
+    return user.role === 'admin' || user.role === 'owner' ? { language } : null;
+}
+
+/**
+ * Посилання на бота з payload для /start (t.me/<bot>?start=<payload>)
+ */
+export function buildStartLink(payload: string): string {
+    return `https://t.me/${bot.botInfo.username}?start=${encodeURIComponent(payload)}`;
+}
+
 /**
  * Відправити повідомлення користувачу через бота
  */
@@ -80,3 +397,68 @@ export async function sendBotMessage(
         console.error(`Failed to send message to ${chatId}:`, error);
     }
 }
+
+/**
+ * Клавіатура оцінки візиту 1–5 зірок
+ */
+export function buildReviewKeyboard(bookingId: string): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+
+    for (let rating = 1; rating <= 5; rating++) {
+        keyboard.text('⭐'.repeat(rating), `review:${bookingId}:${rating}`);
+        if (rating === 3) keyboard.row();
+    }
+
+    return keyboard;
+}
+
+/**
+ * Кнопки запиту на підтвердження бронювання для майстра
+ */
+export function buildBookingRequestKeyboard(bookingId: string): InlineKeyboard {
+    return new InlineKeyboard()
+        .text('✅ Підтвердити', `req:confirm:${bookingId}`)
+        .text('❌ Відхилити', `req:decline:${bookingId}`)
+        .row()
+        .text('🕐 Запропонувати інший час', `req:propose:${bookingId}`);
+}
+
+/**
+ * Варіанти часу, які майстер може запропонувати клієнту (по два в рядку)
+ */
+export function buildProposalSlotsKeyboard(bookingId: string, slots: ProposedSlot[]): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+
+    slots.forEach((slot, index) => {
+        keyboard.text(`${formatDbDate(toDbDate(slot.date)).slice(0, 5)} ${slot.time}`, `req:time:${bookingId}:${slot.date}:${slot.time}`);
+        if (index % 2 === 1) keyboard.row();
+    });
+
+    return keyboard;
+}
+
+/**
+ * Відповідь клієнта на запропонований майстром час
+ */
+export function buildTimeProposalKeyboard(bookingId: string, slot: ProposedSlot): InlineKeyboard {
+    return new InlineKeyboard()
+        .text('✅ Підходить', `prop:yes:${bookingId}:${slot.date}:${slot.time}`)
+        .text('❌ Не підходить', `prop:no:${bookingId}`);
+}
+
+/**
+ * Кнопки поста в групі персоналу: доступні дії зі статусом і посилання на бронювання в адмінці
+ */
+export function buildStaffBookingKeyboard(bookingId: string, actions: StaffAction[]): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+
+    if (actions.includes('confirm')) {
+        keyboard.text('✅ Підтвердити', `staff:confirm:${bookingId}`);
+    }
+    if (actions.includes('noshow')) {
+        keyboard.text('🚫 Не прийшов', `staff:noshow:${bookingId}`);
+    }
+
+    const webAppUrl = env.WEBAPP_URL.replace(/\/$/, '');
+    return keyboard.row().url('🛡 Відкрити в адмінці', `${webAppUrl}/admin/bookings?booking=${bookingId}`);
+}
@@ -0,0 +1,68 @@
+import { InlineKeyboard } from 'grammy';
+import { prisma } from '../config/database.js';
+import { getSetting } from '../services/settings.service.js';
+import { Language } from '../shared/utils/message-templates.js';
+import { addDaysToKey, getZonedParts, toDbDate } from '../shared/utils/timezone.js';
+
+// Скільки днів уперед пропонується для вибору дати
+const DATE_KEYBOARD_DAYS = 14;
+
+const LOCALES: Record<Language, string> = { uk: 'uk-UA', en: 'en-US', ru: 'ru-RU' };
+
+/**
+ * Мова з language_code клієнта Telegram (для ще не зареєстрованих користувачів)
+ */
+export function telegramLanguage(code: string | undefined): Language {
+    return (code && code in LOCALES ? code : 'uk') as Language;
+}
+
+/**
+ * Зареєстрований користувач бота (реєстрація відбувається під час першого входу в міні-додаток)
+ */
+export async function findBotUser(telegramId: number) {
+    const user = await prisma.user.findUnique({
+        where: { telegramId: BigInt(telegramId) },
+        select: { id: true, language: true },
+    });
+
+    return user ? { id: user.id, language: (user.language || 'uk') as Language } : null;
+}
+
+/**
+ * Кнопки по columns в рядку
+ */
+export function buildOptionsKeyboard(options: { label: string; data: string }[], columns: number): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+
+    options.forEach((option, index) => {
+        keyboard.text(option.label, option.data);
+        if ((index + 1) % columns === 0 && index < options.length - 1) keyboard.row();
+    });
+
+    return keyboard;
+}
+
+/**
+ * Дні від сьогодні (за часом салону) з днем тижня мовою користувача; callbackData(date) — дані кнопки для "YYYY-MM-DD"
+ */
+export async function buildDateKeyboard(
+    language: Language,
+    callbackData: (date: string) => string
+): Promise<InlineKeyboard> {
+    const timeZone = await getSetting('salon_timezone');
+    const today = getZonedParts(new Date(), timeZone).date;
+    const formatter = new Intl.DateTimeFormat(LOCALES[language], {
+        weekday: 'short',
+        day: '2-digit',
+        month: '2-digit',
+        timeZone: 'UTC',
+    });
+
+    return buildOptionsKeyboard(
+        Array.from({ length: DATE_KEYBOARD_DAYS }, (_, day) => addDaysToKey(today, day)).map((date) => ({
+            label: formatter.format(toDbDate(date)),
+            data: callbackData(date),
+        })),
+        3
+    );
+}
@@ -0,0 +1,310 @@
+import { InlineKeyboard, type Bot, type Context } from 'grammy';
+import { prisma } from '../config/database.js';
+import { BookingConflictError, BookingError, getAvailableSlots, calculateDurationMinutes } from '../services/booking.service.js';
+import { getReschedulableBooking, rescheduleClientBooking } from '../services/booking-reschedule.service.js';
+import { BookingStatusError, cancelClientBooking } from '../services/booking-status.service.js';
+import {
+    addRefundAmounts,
+    CLIENT_CANCELLABLE_STATUSES,
+    getBookingStartDateTime,
+    getGroupPartnerBookings,
+    previewCancellationRefund,
+} from '../services/cancellation.service.js';
+import { getSetting } from '../services/settings.service.js';
+import { escapeHtml, formatMessage, Language, localizedName } from '../shared/utils/message-templates.js';
+import { formatDbDate, getZonedToday, toDbDate, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+import { buildDateKeyboard, buildOptionsKeyboard, findBotUser, telegramLanguage } from './helpers.js';
+
+// Скільки найближчих бронювань показувати карточками
+const BOOKING_CARDS_LIMIT = 10;
+
+// Що показати на карточках: усі дії (/mybookings) чи лише скасування або перенесення
+type CardsMode = 'all' | 'cancel' | 'reschedule';
+
+const EMPTY_MESSAGE: Record<CardsMode, string> = {
+    all: 'bot_my_no_bookings',
+    cancel: 'bot_my_nothing_to_cancel',
+    reschedule: 'bot_my_nothing_to_reschedule',
+};
+
+/**
+ * Майбутні активні бронювання клієнта (найближчі спершу)
+ */
+async function getUpcomingBookings(userId: string, now: Date = new Date()) {
+    const timeZone = await getSetting('salon_timezone');
+    const today = getZonedToday(timeZone, now);
+
+    const bookings = await prisma.booking.findMany({
+        where: {
+            userId,
+            bookingDate: { gte: toDbDate(today) },
+            status: { in: CLIENT_CANCELLABLE_STATUSES as any },
+        },
+        include: {
+            master: { select: { displayName: true } },
+            items: {
+                include: { service: { select: { name: true } } },
+                orderBy: { sortOrder: 'asc' },
+            },
+        },
+        orderBy: [{ bookingDate: 'asc' }, { startTime: 'asc' }],
+    });
+
+    return bookings
+        .filter((booking: any) => getBookingStartDateTime(booking, timeZone) > now)
+        .slice(0, BOOKING_CARDS_LIMIT);
+}
+
+function bookingCardText(booking: any, language: Language): string {
+    return formatMessage('bot_my_booking_card', language, {
+        date: formatDbDate(booking.bookingDate),
+        time: booking.startTime,
+        master_name: escapeHtml(localizedName(booking.master?.displayName, language)),
+        service_name: escapeHtml(booking.items.map((item: any) => localizedName(item.service.name, language)).join(', ')),
+        status: formatMessage(`bot_my_status_${booking.status}`, language, {}),
+    });
+}
+
+/**
+ * Надіслати майбутні бронювання карточками з кнопками дій
+ */
+async function replyWithBookingCards(ctx: Context, mode: CardsMode) {
+    if (!ctx.from) return;
+
+    const user = await findBotUser(ctx.from.id);
+
+    if (!user) {
+        await ctx.reply(formatMessage('bot_my_not_registered', telegramLanguage(ctx.from.language_code), {}));
+        return;
+    }
+
+    const { language } = user;
+    const bookings = (await getUpcomingBookings(user.id))
+        // Групові бронювання переносяться лише разом, тож окремо їх не пропонуємо
+        .filter((booking: any) => mode !== 'reschedule' || !booking.groupId);
+
+    if (bookings.length === 0) {
+        await ctx.reply(formatMessage(EMPTY_MESSAGE[mode], language, {}));
+        return;
+    }
+
+    for (const booking of bookings) {
+        const keyboard = new InlineKeyboard();
+
+        if (mode !== 'reschedule') {
+            keyboard.text(formatMessage('bot_my_cancel_button', language, {}), `my:cancel:${booking.id}`);
+        }
+        if (mode !== 'cancel' && !booking.groupId) {
+            keyboard.text(formatMessage('bot_my_reschedule_button', language, {}), `my:move:${booking.id}`);
+        }
+
+        await ctx.reply(bookingCardText(booking, language), { parse_mode: 'HTML', reply_markup: keyboard });
+    }
+}
+
+/**
+ * Текст відмови для помилки скасування чи перенесення (null — помилка не з правил бронювання)
+ */
+function actionErrorMessage(error: unknown, language: Language): string | null {
+    if (error instanceof BookingConflictError) {
+        return formatMessage(error.code === 'SLOT_BUSY' ? 'bot_my_action_failed' : 'bot_book_slot_taken', language, {});
+    }
+    if (error instanceof BookingError && error.code === 'RESCHEDULE_CUTOFF_PASSED') {
+        return formatMessage('bot_my_reschedule_cutoff', language, {});
+    }
+    if (error instanceof BookingError && error.code === 'SLOT_NOT_AVAILABLE') {
+        return formatMessage('bot_book_slot_taken', language, {});
+    }
+    if (error instanceof BookingError || error instanceof BookingStatusError) {
+        return formatMessage('bot_my_action_unavailable', language, {});
+    }
+    return null;
+}
+
+/**
+ * Команди керування бронюваннями в чаті бота: /mybookings, /cancel, /reschedule.
+ * Скасування й перенесення виконуються за тими самими правилами, що й у міні-додатку.
+ */
+export function registerBookingManagement(bot: Bot) {
+    bot.command('mybookings', (ctx) => replyWithBookingCards(ctx, 'all'));
+    bot.command('cancel', (ctx) => replyWithBookingCards(ctx, 'cancel'));
+    bot.command('reschedule', (ctx) => replyWithBookingCards(ctx, 'reschedule'));
+
+    // Скасування: спершу показати суму повернення за політикою скасування
+    bot.callbackQuery(/^my:cancel:([0-9a-f-]{36})$/, async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        const language = user?.language ?? 'uk';
+        const booking = await prisma.booking.findUnique({ where: { id: ctx.match[1] } });
+
+        if (!user || !booking || booking.userId !== user.id || !CLIENT_CANCELLABLE_STATUSES.includes(booking.status)) {
+            await ctx.answerCallbackQuery({ text: formatMessage('bot_my_action_unavailable', language, {}) });
+            return;
+        }
+
+        // Для групи — сумарно за всіма учасниками, бо скасовуються вони разом
+        const preview = await previewCancellationRefund(booking, 'client');
+        for (const other of await getGroupPartnerBookings(booking, CLIENT_CANCELLABLE_STATUSES)) {
+            addRefundAmounts(preview, await previewCancellationRefund(other, 'client'));
+        }
+
+        const refundText = preview.paidAmount > 0
+            ? formatMessage('bot_my_refund_preview', language, {
+                amount: String(preview.refundAmount),
+                percent: String(preview.refundPercent),
+            })
+            : formatMessage('bot_my_refund_none', language, {});
+
+        const keyboard = new InlineKeyboard()
+            .text(formatMessage('bot_my_cancel_confirm_button', language, {}), `my:cxl:${booking.id}:single`);
+        if (booking.seriesId) {
+            keyboard.row().text(formatMessage('bot_my_cancel_series_button', language, {}), `my:cxl:${booking.id}:future`);
+        }
+        keyboard.row().text(formatMessage('bot_my_keep_button', language, {}), 'my:keep');
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(formatMessage('bot_my_cancel_confirm', language, {
+            date: formatDbDate(booking.bookingDate),
+            time: booking.startTime,
+            refund: refundText,
+        }), { parse_mode: 'HTML', reply_markup: keyboard });
+    });
+
+    bot.callbackQuery(/^my:cxl:([0-9a-f-]{36}):(single|future)$/, async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        const language = user?.language ?? 'uk';
+
+        if (!user) {
+            await ctx.answerCallbackQuery({ text: formatMessage('bot_my_action_unavailable', language, {}) });
+            return;
+        }
+
+        let result: Awaited<ReturnType<typeof cancelClientBooking>>;
+        try {
+            result = await cancelClientBooking(ctx.match[1], user.id, {
+                scope: ctx.match[2] as 'single' | 'future',
+            });
+        } catch (error) {
+            const message = actionErrorMessage(error, language);
+            if (!message) throw error;
+
+            await ctx.answerCallbackQuery({ text: message });
+            await ctx.editMessageReplyMarkup();
+            return;
+        }
+
+        const { refund, cancelledSeriesBookingIds } = result;
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(formatMessage('bot_my_cancelled', language, {
+            date: formatDbDate(result.booking.bookingDate),
+            time: result.booking.startTime,
+            refund: [
+                refund.refundAmount > 0
+                    ? formatMessage('bot_my_refund_done', language, { amount: String(refund.refundAmount) })
+                    : '',
+                cancelledSeriesBookingIds.length > 0
+                    ? formatMessage('bot_my_series_cancelled', language, { amount: String(cancelledSeriesBookingIds.length) })
+                    : '',
+            ].filter(Boolean).join('\n'),
+        }), { parse_mode: 'HTML' });
+    });
+
+    bot.callbackQuery('my:keep', async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(formatMessage('bot_my_kept', user?.language ?? 'uk', {}));
+    });
+
+    // Перенесення: дата → вільний час того ж майстра → перенесення
+    bot.callbackQuery(/^my:move:([0-9a-f-]{36})$/, async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        const language = user?.language ?? 'uk';
+        const bookingId = ctx.match[1];
+
+        try {
+            if (!user) throw new BookingError('Not authorized', 'FORBIDDEN', 403);
+            await getReschedulableBooking(bookingId, user.id);
+        } catch (error) {
+            const message = actionErrorMessage(error, language);
+            if (!message) throw error;
+
+            await ctx.answerCallbackQuery({ text: message, show_alert: true });
+            return;
+        }
+
+        const keyboard = await buildDateKeyboard(language, (date) => `my:mday:${bookingId}:${date}`);
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(formatMessage('bot_book_choose_date', language, {}), { reply_markup: keyboard });
+    });
+
+    bot.callbackQuery(/^my:mday:([0-9a-f-]{36}):(\d{4}-\d{2}-\d{2})$/, async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        const language = user?.language ?? 'uk';
+        const [, bookingId, date] = ctx.match;
+
+        let booking;
+        try {
+            if (!user) throw new BookingError('Not authorized', 'FORBIDDEN', 403);
+            booking = await getReschedulableBooking(bookingId, user.id);
+        } catch (error) {
+            const message = actionErrorMessage(error, language);
+            if (!message) throw error;
+
+            await ctx.answerCallbackQuery({ text: message, show_alert: true });
+            return;
+        }
+
+        const timeZone = await getSetting('salon_timezone');
+        const now = new Date();
+        const slots = (await getAvailableSlots(
+            booking.masterId,
+            booking.items.map((item: any) => item.serviceId),
+            toDbDate(date),
+            calculateDurationMinutes(booking.startTime, booking.endTime)
+        )).filter((time) => zonedDateTimeToUtc(date, time, timeZone) > now);
+
+        await ctx.answerCallbackQuery();
+
+        if (slots.length === 0) {
+            const keyboard = await buildDateKeyboard(language, (day) => `my:mday:${bookingId}:${day}`);
+            await ctx.editMessageText(formatMessage('bot_book_no_slots', language, {
+                date: formatDbDate(toDbDate(date)),
+            }), { reply_markup: keyboard });
+            return;
+        }
+
+        const keyboard = buildOptionsKeyboard(
+            slots.map((time) => ({ label: time, data: `my:mslot:${bookingId}:${date}:${time}` })),
+            4
+        ).row().text(formatMessage('bot_my_other_date_button', language, {}), `my:move:${bookingId}`);
+
+        await ctx.editMessageText(
+            formatMessage('bot_book_choose_time', language, { date: formatDbDate(toDbDate(date)) }),
+            { parse_mode: 'HTML', reply_markup: keyboard }
+        );
+    });
+
+    bot.callbackQuery(/^my:mslot:([0-9a-f-]{36}):(\d{4}-\d{2}-\d{2}):(\d{2}:\d{2})$/, async (ctx) => {
+        const user = await findBotUser(ctx.from.id);
+        const language = user?.language ?? 'uk';
+        const [, bookingId, date, time] = ctx.match;
+
+        try {
+            if (!user) throw new BookingError('Not authorized', 'FORBIDDEN', 403);
+            await rescheduleClientBooking(bookingId, user.id, date, time);
+        } catch (error) {
+            const message = actionErrorMessage(error, language);
+            if (!message) throw error;
+
+            await ctx.answerCallbackQuery({ text: message, show_alert: true });
+            return;
+        }
+
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(formatMessage('bot_my_rescheduled', language, {
+            date: formatDbDate(toDbDate(date)),
+            time,
+        }));
+    });
+}
@@ -22,6 +22,8 @@ const envSchema = z.object({
     PORTMONE_LOGIN: z.string().optional(),
     PORTMONE_PASSWORD: z.string().optional(),
     PORTMONE_GATEWAY_URL: z.string().optional(),
+    PORTMONE_KEY: z.string().optional(),
+    DEPOSIT_PERCENT: z.coerce.number().min(0).max(100).default(30),
 
     // Google Calendar
     GOOGLE_CLIENT_ID: z.string().optional(),
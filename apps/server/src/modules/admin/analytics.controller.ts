@@ -2,6 +2,8 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import { getSetting } from '../../services/settings.service.js';
+import { addDaysToKey, getZonedToday, toDbDate } from '../../shared/utils/timezone.js';
 
 // Local enum since Prisma client may not be generated
 const BookingStatus = {
@@ -34,12 +36,13 @@ export async function adminAnalyticsRoutes(app: FastifyInstance) {
      * Загальна статистика
      */
     app.get('/overview', async (_request: FastifyRequest, reply: FastifyReply) => {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        // Межі днів і місяців — за календарем салону
+        const todayKey = getZonedToday(await getSetting('salon_timezone'));
+        const today = toDbDate(todayKey);
 
-        const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-        const startOfLastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-        const endOfLastMonth = new Date(today.getFullYear(), today.getMonth(), 0);
+        const startOfMonth = toDbDate(`${todayKey.slice(0, 8)}01`);
+        const endOfLastMonth = toDbDate(addDaysToKey(`${todayKey.slice(0, 8)}01`, -1));
+        const startOfLastMonth = toDbDate(`${addDaysToKey(`${todayKey.slice(0, 8)}01`, -1).slice(0, 8)}01`);
 
         // Get counts
         const [
@@ -284,6 +287,61 @@ export async function adminAnalyticsRoutes(app: FastifyInstance) {
         });
     });
 
+    /**
+     * GET /api/admin/analytics/referrals
+     * Реферальна програма: запрошення, нагороди, використані промокоди-нагороди та найактивніші запрошувачі
+     */
+    app.get('/referrals', async (request: FastifyRequest<{ Querystring: { limit?: string } }>, reply: FastifyReply) => {
+        const limit = parseInt(request.query.limit || '10');
+
+        const [totalReferrals, rewardedReferrals, rewardCodesIssued, rewardCodesUsed, referrerCounts] = await Promise.all([
+            prisma.referral.count(),
+            prisma.referral.count({ where: { rewardedAt: { not: null } } }),
+            prisma.promoCode.count({ where: { ownerId: { not: null } } }),
+            prisma.promoCode.count({ where: { ownerId: { not: null }, currentUses: { gt: 0 } } }),
+            prisma.referral.groupBy({
+                by: ['referrerId'],
+                _count: true,
+            }),
+        ]);
+
+        const topCounts = referrerCounts
+            .sort((a, b) => b._count - a._count)
+            .slice(0, limit);
+
+        const [referrers, rewardedCounts] = await Promise.all([
+            prisma.user.findMany({
+                where: { id: { in: topCounts.map((r) => r.referrerId) } },
+                select: { id: true, firstName: true, lastName: true, telegramUsername: true },
+            }),
+            prisma.referral.groupBy({
+                by: ['referrerId'],
+                where: { referrerId: { in: topCounts.map((r) => r.referrerId) }, rewardedAt: { not: null } },
+                _count: true,
+            }),
+        ]);
+
+        const topReferrers = topCounts.map((r) => ({
+            user: referrers.find((user) => user.id === r.referrerId) || null,
+            invitedCount: r._count,
+            rewardedCount: rewardedCounts.find((rc) => rc.referrerId === r.referrerId)?._count ?? 0,
+        }));
+
+        return reply.send({
+            success: true,
+            data: {
+                totalReferrals,
+                rewardedReferrals,
+                conversionRate: totalReferrals > 0
+                    ? Math.round((rewardedReferrals / totalReferrals) * 1000) / 10
+                    : 0,
+                rewardCodesIssued,
+                rewardCodesUsed,
+                topReferrers,
+            },
+        });
+    });
+
     /**
      * GET /api/admin/analytics/masters
      * Статистика майстрів
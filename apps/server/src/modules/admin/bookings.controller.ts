@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { requireRole } from '../../shared/middleware/auth.middleware.js';
 import { checkWaitlistAndNotify } from '../waitlist/waitlist.controller.js';
+import { getGroupPartnerBookings, getLaterSeriesBookings } from '../../services/cancellation.service.js';
+import { BookingStatusError, changeBookingStatus } from '../../services/booking-status.service.js';
 
 // Local enum since Prisma client may not be generated
 const BookingStatus = {
@@ -201,53 +203,35 @@ export async function adminBookingsRoutes(app: FastifyInstance) {
 
         const { status, cancelReason, adminNotes } = parseResult.data;
 
-        const existing = await prisma.booking.findUnique({ where: { id } });
-        if (!existing) {
-            return reply.status(404).send({
-                success: false,
-                error: { message: 'Booking not found', code: 'NOT_FOUND' },
+        try {
+            const { booking, refund } = await changeBookingStatus(id, status, {
+                actor: 'admin',
+                cancelReason: cancelReason || undefined,
+                adminNotes: adminNotes || undefined,
             });
-        }
 
-        const updateData: any = { status };
-        if (cancelReason) updateData.cancelReason = cancelReason;
-        if (adminNotes) updateData.adminNotes = adminNotes;
-
-        const booking = await prisma.booking.update({
-            where: { id },
-            data: updateData,
-            include: {
-                user: {
-                    select: {
-                        id: true,
-                        telegramId: true,
-                        telegramUsername: true,
-                        firstName: true,
-                        lastName: true,
-                    },
-                },
-                master: {
-                    select: {
-                        id: true,
-                        displayName: true,
-                    },
-                },
-            },
-        });
-
-        return reply.send({
-            success: true,
-            data: { booking },
-        });
+            return reply.send({
+                success: true,
+                data: { booking, refund },
+            });
+        } catch (error) {
+            if (error instanceof BookingStatusError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
     });
 
     /**
      * DELETE /api/admin/bookings/:id
-     * Скасувати бронювання
+     * Скасувати бронювання (?scope=future — також усі наступні візити серії; групове — цілком)
      */
     app.delete('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
         const { id } = request.params;
-        const { reason } = request.query as { reason?: string };
+        const { reason, scope } = request.query as { reason?: string; scope?: 'single' | 'future' };
 
         const existing = await prisma.booking.findUnique({ where: { id } });
         if (!existing) {
@@ -257,38 +241,86 @@ export async function adminBookingsRoutes(app: FastifyInstance) {
             });
         }
 
-        const booking = await prisma.booking.update({
-            where: { id },
-            data: {
-                status: BookingStatus.cancelled_by_admin,
-                cancelReason: reason || 'Cancelled by admin',
-            },
-            include: {
-                items: {
-                    include: {
-                        service: true,
-                    },
-                },
-            },
-        });
+        // Завершені, пропущені й уже скасовані бронювання не перезаписуються
+        if (!ADMIN_CANCELLABLE_STATUSES.includes(existing.status)) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Cannot cancel this booking', code: 'INVALID_OPERATION' },
+            });
+        }
+
+        let cancelled;
+        try {
+            cancelled = await cancelByAdmin(existing, reason);
+        } catch (error) {
+            if (error instanceof BookingStatusError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
 
-        // Перевірити waitlist та відправити сповіщення
-        if (booking.masterId && booking.items.length > 0) {
-            const serviceId = booking.items[0]?.serviceId;
-            if (serviceId) {
-                checkWaitlistAndNotify(
-                    booking.masterId,
-                    serviceId,
-                    booking.bookingDate,
-                    booking.startTime,
-                    booking.endTime
-                ).catch(console.error);
+        const groupBookings = await getGroupPartnerBookings(existing, ADMIN_CANCELLABLE_STATUSES);
+        const laterBookings = scope === 'future'
+            ? await getLaterSeriesBookings(existing, ADMIN_CANCELLABLE_STATUSES)
+            : [];
+
+        // Учасника, якого тим часом скасували деінде, пропускаємо
+        const cancelledIds = new Set<string>();
+        for (const other of [...groupBookings, ...laterBookings]) {
+            try {
+                await cancelByAdmin(other, reason);
+                cancelledIds.add(other.id);
+            } catch (error) {
+                if (!(error instanceof BookingStatusError)) throw error;
             }
         }
 
         return reply.send({
             success: true,
-            data: { booking, message: 'Booking cancelled successfully' },
+            data: {
+                booking: cancelled.booking,
+                refund: cancelled.refund,
+                cancelledSeriesBookingIds: laterBookings.map((later: any) => later.id).filter((bookingId: string) => cancelledIds.has(bookingId)),
+                cancelledGroupBookingIds: groupBookings.map((other: any) => other.id).filter((bookingId: string) => cancelledIds.has(bookingId)),
+                message: 'Booking cancelled successfully',
+            },
         });
     });
 }
+
+// Статуси, з яких адміністратор скасовує бронювання (разом з наступними візитами серії чи учасниками групи);
+// на відміну від ACTIVE_STATUSES з booking-status.service, візит, що вже триває, не скасовується
+const ADMIN_CANCELLABLE_STATUSES: string[] = [
+    BookingStatus.pending_confirmation,
+    BookingStatus.confirmed,
+    BookingStatus.deposit_pending,
+    BookingStatus.deposit_paid,
+];
+
+/**
+ * Скасування адміністратором через changeBookingStatus (умовне оновлення, повернення передоплати,
+ * сповіщення клієнта, стрічка персоналу) і сповіщення листа очікування про звільнений час
+ */
+async function cancelByAdmin(existing: any, reason?: string) {
+    const { booking, refund } = await changeBookingStatus(existing.id, BookingStatus.cancelled_by_admin, {
+        actor: 'admin',
+        cancelReason: reason || 'Cancelled by admin',
+    });
+
+    // Перевірити waitlist та відправити сповіщення
+    const serviceId = booking.items[0]?.serviceId;
+    if (booking.masterId && serviceId) {
+        checkWaitlistAndNotify(
+            booking.masterId,
+            serviceId,
+            booking.bookingDate,
+            booking.startTime,
+            booking.endTime
+        ).catch(console.error);
+    }
+
+    return { booking, refund };
+}
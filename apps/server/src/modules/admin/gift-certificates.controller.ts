@@ -0,0 +1,129 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { requireRole } from '../../shared/middleware/auth.middleware.js';
+
+// Local enum since Prisma client may not be generated
+const GiftCertificateStatus = {
+    pending: 'pending',
+    active: 'active',
+    used: 'used',
+    voided: 'voided',
+} as const;
+
+// Validation schemas
+const certificateFiltersSchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    status: z.nativeEnum(GiftCertificateStatus).optional(),
+    search: z.string().optional(),
+});
+
+const voidSchema = z.object({
+    reason: z.string().max(500).optional(),
+});
+
+export async function adminGiftCertificatesRoutes(app: FastifyInstance) {
+    // Apply admin authentication to all routes
+    app.addHook('onRequest', async (request, reply) => {
+        await requireRole('admin', 'owner')(request, reply);
+    });
+
+    /**
+     * GET /api/admin/gift-certificates
+     * Список сертифікатів з покупцем і використаннями
+     */
+    app.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = certificateFiltersSchema.safeParse(request.query);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { page, limit, status, search } = parseResult.data;
+
+        const where: any = {};
+
+        if (status) where.status = status;
+        if (search) where.code = { contains: search.toUpperCase() };
+
+        const [certificates, total] = await Promise.all([
+            prisma.giftCertificate.findMany({
+                where,
+                include: {
+                    purchaser: {
+                        select: { id: true, firstName: true, lastName: true, telegramUsername: true },
+                    },
+                    payments: {
+                        where: { type: 'certificate_redemption', status: { in: ['success', 'refunded'] } },
+                        select: { id: true, bookingId: true, amount: true, status: true, createdAt: true },
+                        orderBy: { createdAt: 'desc' },
+                    },
+                },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.giftCertificate.count({ where }),
+        ]);
+
+        return reply.send({
+            success: true,
+            data: {
+                certificates,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                },
+            },
+        });
+    });
+
+    /**
+     * POST /api/admin/gift-certificates/:id/void
+     * Анулювати сертифікат (залишок більше не можна використати; вже оплачені візити не змінюються)
+     */
+    app.post('/:id/void', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const parseResult = voidSchema.safeParse(request.body ?? {});
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { id } = request.params;
+
+        const existing = await prisma.giftCertificate.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Gift certificate not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        if (existing.status === GiftCertificateStatus.voided) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Gift certificate is already voided', code: 'INVALID_OPERATION' },
+            });
+        }
+
+        const certificate = await prisma.giftCertificate.update({
+            where: { id },
+            data: {
+                status: GiftCertificateStatus.voided,
+                voidReason: parseResult.data.reason || null,
+            },
+        });
+
+        return reply.send({
+            success: true,
+            data: { certificate },
+        });
+    });
+}
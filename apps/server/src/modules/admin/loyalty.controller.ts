@@ -2,6 +2,7 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import { getSetting } from '../../services/settings.service.js';
 
 // Validation schemas
 const loyaltySettingsUpdateSchema = z.object({
@@ -27,7 +28,7 @@ export async function adminLoyaltyRoutes(app: FastifyInstance) {
             // Create default settings if not exists
             settings = await prisma.loyaltySettings.create({
                 data: {
-                    stampsForReward: 10,
+                    stampsForReward: await getSetting('loyalty_default_stamps_for_reward'),
                     isActive: true,
                 },
             });
@@ -2,6 +2,14 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import {
+    materializeMasterSchedule,
+    scheduleTemplateSchema,
+    timeSchema,
+    toScheduleIntervalsData,
+    toTemplateData,
+    workIntervalsSchema,
+} from '../../services/schedule.service.js';
 
 // Local enum since Prisma client may not be generated
 const UserRole = {
@@ -26,6 +34,7 @@ const masterCreateSchema = z.object({
     specialization: z.string().optional(),
     isActive: z.boolean().default(true),
     sortOrder: z.number().int().default(0),
+    dailyDigestTime: timeSchema.nullable().optional(),
     services: z.array(z.object({
         serviceId: z.string().uuid(),
         priceModifier: z.number().default(0),
@@ -39,17 +48,22 @@ const masterUpdateSchema = z.object({
     specialization: z.string().optional(),
     isActive: z.boolean().optional(),
     sortOrder: z.number().int().optional(),
+    dailyDigestTime: timeSchema.nullable().optional(),
     services: z.array(z.object({
         serviceId: z.string().uuid(),
         priceModifier: z.number().default(0),
     })).optional(),
 });
 
+// Один інтервал startTime–endTime або кілька intervals (з перервами між ними)
 const scheduleSchema = z.object({
     workDate: z.string(),
-    startTime: z.string(),
-    endTime: z.string(),
+    startTime: z.string().optional(),
+    endTime: z.string().optional(),
+    intervals: workIntervalsSchema.optional(),
     isDayOff: z.boolean().default(false),
+}).refine((s) => s.intervals || (s.startTime && s.endTime), {
+    message: 'Either startTime/endTime or intervals is required',
 });
 
 const paginationSchema = z.object({
@@ -251,6 +265,7 @@ export async function adminMastersRoutes(app: FastifyInstance) {
                 specialization: masterData.specialization,
                 isActive: masterData.isActive ?? true,
                 sortOrder: masterData.sortOrder ?? 0,
+                dailyDigestTime: masterData.dailyDigestTime,
                 masterServices: services
                     ? {
                         create: services.map((s) => ({
@@ -419,9 +434,9 @@ export async function adminMastersRoutes(app: FastifyInstance) {
                 data: schedules.map((s) => ({
                     masterId: id,
                     workDate: new Date(s.workDate),
-                    startTime: s.startTime,
-                    endTime: s.endTime,
+                    ...toScheduleIntervalsData(s.intervals ?? [{ startTime: s.startTime!, endTime: s.endTime! }]),
                     isDayOff: s.isDayOff,
+                    isOverride: true,
                 })),
             }),
         ]);
@@ -466,4 +481,144 @@ export async function adminMastersRoutes(app: FastifyInstance) {
             data: { schedules },
         });
     });
+
+    /**
+     * DELETE /api/admin/masters/:id/schedule/:workDate
+     * Скасувати ручне значення на дату (день знову береться з шаблону)
+     */
+    app.delete('/:id/schedule/:workDate', async (request: FastifyRequest<{ Params: { id: string; workDate: string } }>, reply: FastifyReply) => {
+        const { id, workDate } = request.params;
+
+        const { count } = await prisma.masterSchedule.deleteMany({
+            where: { masterId: id, workDate: new Date(workDate) },
+        });
+
+        if (count === 0) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Schedule not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await materializeMasterSchedule(id);
+
+        return reply.send({
+            success: true,
+            data: { message: 'Schedule override removed' },
+        });
+    });
+
+    /**
+     * GET /api/admin/masters/:id/schedule-templates
+     * Тижневі шаблони розкладу майстра
+     */
+    app.get('/:id/schedule-templates', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const templates = await prisma.masterScheduleTemplate.findMany({
+            where: { masterId: request.params.id },
+            orderBy: { effectiveFrom: 'asc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: { templates },
+        });
+    });
+
+    /**
+     * POST /api/admin/masters/:id/schedule-templates
+     * Створити тижневий шаблон і розгорнути його в розклад
+     */
+    app.post('/:id/schedule-templates', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const existing = await prisma.master.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const parseResult = scheduleTemplateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const template = await prisma.masterScheduleTemplate.create({
+            data: { masterId: id, ...toTemplateData(parseResult.data) },
+        });
+
+        await materializeMasterSchedule(id);
+
+        return reply.status(201).send({
+            success: true,
+            data: { template },
+        });
+    });
+
+    /**
+     * PUT /api/admin/masters/:id/schedule-templates/:templateId
+     * Оновити тижневий шаблон і перегенерувати розклад
+     */
+    app.put('/:id/schedule-templates/:templateId', async (request: FastifyRequest<{ Params: { id: string; templateId: string } }>, reply: FastifyReply) => {
+        const { id, templateId } = request.params;
+
+        const parseResult = scheduleTemplateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { count } = await prisma.masterScheduleTemplate.updateMany({
+            where: { id: templateId, masterId: id },
+            data: toTemplateData(parseResult.data),
+        });
+
+        if (count === 0) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Schedule template not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await materializeMasterSchedule(id);
+
+        const template = await prisma.masterScheduleTemplate.findUnique({ where: { id: templateId } });
+
+        return reply.send({
+            success: true,
+            data: { template },
+        });
+    });
+
+    /**
+     * DELETE /api/admin/masters/:id/schedule-templates/:templateId
+     * Видалити тижневий шаблон (згенеровані з нього дні прибираються)
+     */
+    app.delete('/:id/schedule-templates/:templateId', async (request: FastifyRequest<{ Params: { id: string; templateId: string } }>, reply: FastifyReply) => {
+        const { id, templateId } = request.params;
+
+        const { count } = await prisma.masterScheduleTemplate.deleteMany({
+            where: { id: templateId, masterId: id },
+        });
+
+        if (count === 0) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Schedule template not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await materializeMasterSchedule(id);
+
+        return reply.send({
+            success: true,
+            data: { message: 'Schedule template deleted' },
+        });
+    });
 }
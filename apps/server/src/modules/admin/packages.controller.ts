@@ -0,0 +1,358 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import {
+    issuePackage,
+    adjustPackageSessions,
+    PackageError,
+    USER_PACKAGE_INCLUDE,
+} from '../../services/package.service.js';
+
+// Validation schemas
+const packageCreateSchema = z.object({
+    name: z.record(z.string()), // { "uk": "...", "en": "...", "ru": "..." }
+    serviceId: z.string().uuid(),
+    durationId: z.string().uuid(),
+    sessionsCount: z.number().int().positive().max(100),
+    price: z.number().nonnegative(),
+    validDays: z.number().int().positive().max(3650),
+    isActive: z.boolean().default(true),
+    sortOrder: z.number().int().default(0),
+});
+
+const packageUpdateSchema = packageCreateSchema.partial();
+
+const userPackageFiltersSchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    userId: z.string().uuid().optional(),
+    activeOnly: z.enum(['true', 'false']).optional(),
+});
+
+const issueSchema = z.object({
+    userId: z.string().uuid(),
+    packageId: z.string().uuid(),
+    reason: z.string().max(500).optional(),
+});
+
+const adjustSchema = z.object({
+    delta: z.number().int().refine((value) => value !== 0, 'Delta must not be zero'),
+    reason: z.string().min(1, 'Reason is required').max(500),
+    expiresAt: z.string().datetime().optional(),
+});
+
+export async function adminPackagesRoutes(app: FastifyInstance) {
+    // Apply admin authentication to all routes
+    app.addHook('onRequest', async (request, reply) => {
+        await requireRole('admin', 'owner')(request, reply);
+    });
+
+    /**
+     * GET /api/admin/packages
+     * Список пакетів сеансів (продуктів)
+     */
+    app.get('/', async (_request: FastifyRequest, reply: FastifyReply) => {
+        const packages = await prisma.sessionPackage.findMany({
+            include: {
+                service: { select: { id: true, name: true } },
+                duration: { select: { id: true, durationMinutes: true } },
+                _count: { select: { userPackages: true } },
+            },
+            orderBy: [{ isActive: 'desc' }, { sortOrder: 'asc' }],
+        });
+
+        return reply.send({
+            success: true,
+            data: { packages },
+        });
+    });
+
+    /**
+     * POST /api/admin/packages
+     * Створити пакет сеансів
+     */
+    app.post('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = packageCreateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const data = parseResult.data;
+
+        const duration = await prisma.serviceDuration.findUnique({ where: { id: data.durationId } });
+        if (!duration || duration.serviceId !== data.serviceId) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Invalid service/duration combination', code: 'INVALID_SERVICE' },
+            });
+        }
+
+        const sessionPackage = await prisma.sessionPackage.create({ data });
+
+        return reply.status(201).send({
+            success: true,
+            data: { package: sessionPackage },
+        });
+    });
+
+    /**
+     * PUT /api/admin/packages/:id
+     * Оновити пакет. Видані пакети покривають послугу й тривалість цього продукту,
+     * тож після продажу їх не змінити — пакет знімається з продажу і створюється новий.
+     */
+    app.put('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const parseResult = packageUpdateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const existing = await prisma.sessionPackage.findUnique({
+            where: { id },
+            include: { _count: { select: { userPackages: true } } },
+        });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Package not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const data = parseResult.data;
+        const serviceId = data.serviceId ?? existing.serviceId;
+        const durationId = data.durationId ?? existing.durationId;
+        const coverageChanged = serviceId !== existing.serviceId || durationId !== existing.durationId;
+
+        if (coverageChanged && existing._count.userPackages > 0) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: 'Service and duration of a package issued to clients cannot be changed',
+                    code: 'INVALID_OPERATION',
+                },
+            });
+        }
+
+        if (coverageChanged) {
+            const duration = await prisma.serviceDuration.findUnique({ where: { id: durationId } });
+            if (!duration || duration.serviceId !== serviceId) {
+                return reply.status(400).send({
+                    success: false,
+                    error: { message: 'Invalid service/duration combination', code: 'INVALID_SERVICE' },
+                });
+            }
+        }
+
+        const sessionPackage = await prisma.sessionPackage.update({
+            where: { id },
+            data,
+        });
+
+        return reply.send({
+            success: true,
+            data: { package: sessionPackage },
+        });
+    });
+
+    /**
+     * DELETE /api/admin/packages/:id
+     * Зняти пакет з продажу (soft delete; видані пакети діють до кінця терміну)
+     */
+    app.delete('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const existing = await prisma.sessionPackage.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Package not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await prisma.sessionPackage.update({
+            where: { id },
+            data: { isActive: false },
+        });
+
+        return reply.send({
+            success: true,
+            data: { message: 'Package deleted successfully' },
+        });
+    });
+
+    /**
+     * GET /api/admin/packages/user-packages
+     * Пакети клієнтів із залишками
+     */
+    app.get('/user-packages', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = userPackageFiltersSchema.safeParse(request.query);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { page, limit, userId, activeOnly } = parseResult.data;
+
+        const where: any = {};
+
+        if (userId) where.userId = userId;
+        if (activeOnly === 'true') {
+            where.sessionsRemaining = { gt: 0 };
+            where.expiresAt = { gt: new Date() };
+        }
+
+        const [userPackages, total] = await Promise.all([
+            prisma.userPackage.findMany({
+                where,
+                include: {
+                    ...USER_PACKAGE_INCLUDE,
+                    user: {
+                        select: { id: true, firstName: true, lastName: true, telegramUsername: true },
+                    },
+                },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.userPackage.count({ where }),
+        ]);
+
+        return reply.send({
+            success: true,
+            data: {
+                userPackages,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    totalPages: Math.ceil(total / limit),
+                },
+            },
+        });
+    });
+
+    /**
+     * POST /api/admin/packages/user-packages
+     * Видати пакет клієнту (продаж у салоні)
+     */
+    app.post('/user-packages', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = issueSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { userId, packageId, reason } = parseResult.data;
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'User not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        try {
+            const userPackage = await issuePackage({
+                userId,
+                packageId,
+                actorId: request.user.userId,
+                reason,
+            });
+
+            return reply.status(201).send({
+                success: true,
+                data: { userPackage },
+            });
+        } catch (error) {
+            if (error instanceof PackageError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
+    });
+
+    /**
+     * POST /api/admin/packages/user-packages/:id/adjust
+     * Скоригувати залишок сеансів (і, за потреби, термін дії) з причиною в журналі
+     */
+    app.post('/user-packages/:id/adjust', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const parseResult = adjustSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { delta, reason, expiresAt } = parseResult.data;
+
+        try {
+            const userPackage = await adjustPackageSessions({
+                userPackageId: request.params.id,
+                delta,
+                reason,
+                actorId: request.user.userId,
+                expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+            });
+
+            return reply.send({
+                success: true,
+                data: { userPackage },
+            });
+        } catch (error) {
+            if (error instanceof PackageError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
+    });
+
+    /**
+     * GET /api/admin/packages/user-packages/:id/logs
+     * Журнал змін балансу пакета клієнта
+     */
+    app.get('/user-packages/:id/logs', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const userPackage = await prisma.userPackage.findUnique({ where: { id } });
+        if (!userPackage) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Package not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const logs = await prisma.userPackageLog.findMany({
+            where: { userPackageId: id },
+            include: {
+                actor: { select: { id: true, firstName: true, lastName: true, telegramUsername: true } },
+                booking: { select: { id: true, bookingDate: true, startTime: true, status: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: { logs },
+        });
+    });
+}
@@ -18,6 +18,11 @@ const promoCodeCreateSchema = z.object({
     discountValue: z.number().positive(),
     minOrderAmount: z.number().nonnegative().optional(),
     maxUses: z.number().int().positive().optional(),
+    maxUsesPerUser: z.number().int().positive().nullable().optional(),
+    serviceIds: z.array(z.string().uuid()).optional(), // Empty — all services
+    categoryIds: z.array(z.string().uuid()).optional(),
+    firstVisitOnly: z.boolean().default(false),
+    masterId: z.string().uuid().nullable().optional(),
     validFrom: z.string(),
     validUntil: z.string(),
     isActive: z.boolean().default(true),
@@ -61,6 +66,7 @@ export async function adminPromoCodesRoutes(app: FastifyInstance) {
             prisma.promoCode.findMany({
                 where,
                 include: {
+                    master: { select: { id: true, displayName: true } },
                     _count: {
                         select: { bookings: true },
                     },
@@ -88,7 +94,7 @@ export async function adminPromoCodesRoutes(app: FastifyInstance) {
 
     /**
      * GET /api/admin/promo-codes/:id
-     * Деталі промокоду
+     * Деталі промокоду з журналом використань (released — використання, звільнені скасуванням)
      */
     app.get('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
         const { id } = request.params;
@@ -110,8 +116,24 @@ export async function adminPromoCodesRoutes(app: FastifyInstance) {
                         },
                     },
                 },
+                redemptions: {
+                    orderBy: { createdAt: 'desc' },
+                    include: {
+                        user: {
+                            select: {
+                                id: true,
+                                telegramUsername: true,
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                        booking: {
+                            select: { id: true, bookingDate: true, startTime: true, status: true },
+                        },
+                    },
+                },
                 _count: {
-                    select: { bookings: true },
+                    select: { bookings: true, redemptions: true },
                 },
             },
         });
@@ -0,0 +1,214 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../../config/database.js';
+import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import { CANCELLED_STATUSES } from '../../services/cancellation.service.js';
+
+// Validation schemas
+const resourceCreateSchema = z.object({
+    name: z.record(z.string()), // { "uk": "...", "en": "...", "ru": "..." }
+    capacity: z.number().int().positive().default(1),
+    isActive: z.boolean().default(true),
+    sortOrder: z.number().int().default(0),
+    serviceIds: z.array(z.string().uuid()).optional(),
+});
+
+const resourceUpdateSchema = resourceCreateSchema.partial();
+
+const occupancyQuerySchema = z.object({
+    date: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+});
+
+const resourceInclude = {
+    services: {
+        include: {
+            service: { select: { id: true, name: true } },
+        },
+    },
+};
+
+export async function adminResourcesRoutes(app: FastifyInstance) {
+    // Apply admin authentication to all routes
+    app.addHook('onRequest', async (request, reply) => {
+        await requireRole('admin', 'owner')(request, reply);
+    });
+
+    /**
+     * GET /api/admin/resources
+     * Список кімнат і обладнання з прив'язаними послугами
+     */
+    app.get('/', async (_request: FastifyRequest, reply: FastifyReply) => {
+        const resources = await prisma.resource.findMany({
+            include: resourceInclude,
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: { resources },
+        });
+    });
+
+    /**
+     * GET /api/admin/resources/occupancy?date=YYYY-MM-DD
+     * Зайнятість ресурсів на день
+     */
+    app.get('/occupancy', async (request: FastifyRequest<{ Querystring: { date: string } }>, reply: FastifyReply) => {
+        const parseResult = occupancyQuerySchema.safeParse(request.query);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const resources = await prisma.resource.findMany({
+            where: { isActive: true },
+            include: {
+                bookings: {
+                    where: {
+                        booking: {
+                            bookingDate: new Date(parseResult.data.date),
+                            status: { notIn: CANCELLED_STATUSES as any },
+                        },
+                    },
+                    include: {
+                        booking: {
+                            include: {
+                                master: { select: { displayName: true } },
+                                user: { select: { firstName: true, lastName: true } },
+                                items: { include: { service: { select: { name: true } } } },
+                            },
+                        },
+                    },
+                },
+            },
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: {
+                resources: resources.map((resource: any) => ({
+                    id: resource.id,
+                    name: resource.name,
+                    capacity: resource.capacity,
+                    bookings: resource.bookings
+                        .map((br: any) => ({
+                            id: br.booking.id,
+                            startTime: br.booking.startTime,
+                            endTime: br.booking.endTime,
+                            status: br.booking.status,
+                            masterName: br.booking.master?.displayName ?? null,
+                            clientName: [br.booking.user.firstName, br.booking.user.lastName].filter(Boolean).join(' '),
+                            services: br.booking.items.map((item: any) => item.service.name),
+                        }))
+                        .sort((a: any, b: any) => a.startTime.localeCompare(b.startTime)),
+                })),
+            },
+        });
+    });
+
+    /**
+     * POST /api/admin/resources
+     * Створити ресурс
+     */
+    app.post('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = resourceCreateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { serviceIds, ...resourceData } = parseResult.data;
+
+        const resource = await prisma.resource.create({
+            data: {
+                ...resourceData,
+                services: serviceIds
+                    ? { create: serviceIds.map((serviceId) => ({ serviceId })) }
+                    : undefined,
+            },
+            include: resourceInclude,
+        });
+
+        return reply.status(201).send({
+            success: true,
+            data: { resource },
+        });
+    });
+
+    /**
+     * PUT /api/admin/resources/:id
+     * Оновити ресурс (serviceIds замінюють список послуг)
+     */
+    app.put('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const parseResult = resourceUpdateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const { serviceIds, ...resourceData } = parseResult.data;
+
+        const existing = await prisma.resource.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Resource not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        if (serviceIds) {
+            await prisma.$transaction([
+                prisma.serviceResource.deleteMany({ where: { resourceId: id } }),
+                prisma.serviceResource.createMany({
+                    data: serviceIds.map((serviceId) => ({ resourceId: id, serviceId })),
+                }),
+            ]);
+        }
+
+        const resource = await prisma.resource.update({
+            where: { id },
+            data: resourceData,
+            include: resourceInclude,
+        });
+
+        return reply.send({
+            success: true,
+            data: { resource },
+        });
+    });
+
+    /**
+     * DELETE /api/admin/resources/:id
+     * Видалити ресурс (soft delete, історія бронювань зберігається)
+     */
+    app.delete('/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+        const { id } = request.params;
+
+        const existing = await prisma.resource.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Resource not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await prisma.resource.update({
+            where: { id },
+            data: { isActive: false },
+        });
+
+        return reply.send({
+            success: true,
+            data: { message: 'Resource deleted successfully' },
+        });
+    });
+}
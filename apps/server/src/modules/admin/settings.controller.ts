@@ -0,0 +1,81 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requireRole } from '../../shared/middleware/auth.middleware.js';
+import {
+    getAllSettings,
+    isSettingKey,
+    validateSetting,
+    updateSettings,
+    type SettingKey,
+} from '../../services/settings.service.js';
+
+// Validation schemas
+const settingsUpdateSchema = z.object({
+    settings: z.record(z.unknown()),
+});
+
+export async function adminSettingsRoutes(app: FastifyInstance) {
+    // Apply admin authentication to all routes
+    app.addHook('onRequest', async (request, reply) => {
+        await requireRole('admin', 'owner')(request, reply);
+    });
+
+    /**
+     * GET /api/admin/settings
+     * Всі налаштування салону з поточними значеннями та значеннями за замовчуванням
+     */
+    app.get('/', async (_request: FastifyRequest, reply: FastifyReply) => {
+        const settings = await getAllSettings();
+
+        return reply.send({
+            success: true,
+            data: { settings },
+        });
+    });
+
+    /**
+     * PUT /api/admin/settings
+     * Оновити одне або кілька налаштувань ({ settings: { key: value } })
+     */
+    app.put('/', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = settingsUpdateSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const values: Partial<Record<SettingKey, unknown>> = {};
+
+        for (const [key, value] of Object.entries(parseResult.data.settings)) {
+            if (!isSettingKey(key)) {
+                return reply.status(400).send({
+                    success: false,
+                    error: { message: `Unknown setting: ${key}`, code: 'UNKNOWN_SETTING' },
+                });
+            }
+
+            const result = validateSetting(key, value);
+            if (!result.success) {
+                const issue = result.error.errors[0];
+                return reply.status(400).send({
+                    success: false,
+                    error: {
+                        message: `${key}${issue?.path.length ? '.' + issue.path.join('.') : ''}: ${issue?.message}`,
+                        code: 'VALIDATION_ERROR',
+                    },
+                });
+            }
+
+            values[key] = result.data;
+        }
+
+        await updateSettings(values as any);
+
+        return reply.send({
+            success: true,
+            data: { settings: await getAllSettings() },
+        });
+    });
+}
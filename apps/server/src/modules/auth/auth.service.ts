@@ -1,13 +1,19 @@
 import { prisma } from '../../config/database.js';
 import { validateInitData } from '../../shared/utils/telegram.js';
+import { registerReferral } from '../../services/referral.service.js';
 
 export class AuthService {
     /**
      * Автентифікація через Telegram initData
-     * Створює користувача якщо не існує, або повертає існуючого
+     * Створює користувача якщо не існує (і записує, хто його запросив), або повертає існуючого
      */
     async authenticateWithTelegram(initData: string) {
-        const { user: tgUser } = validateInitData(initData);
+        const { user: tgUser, startParam } = validateInitData(initData);
+
+        const existingUser = await prisma.user.findUnique({
+            where: { telegramId: BigInt(tgUser.id) },
+            select: { id: true },
+        });
 
         // Find or create user
         const user = await prisma.user.upsert({
@@ -29,6 +35,12 @@ export class AuthService {
             },
         });
 
+        if (!existingUser) {
+            await registerReferral(user.id, tgUser.id, startParam).catch((err) => {
+                console.error('Failed to register referral:', err);
+            });
+        }
+
         return {
             userId: user.id,
             telegramId: Number(user.telegramId),
@@ -2,32 +2,144 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { requireAuth } from '../../shared/middleware/auth.middleware.js';
 import { prisma } from '../../config/database.js';
-import { sendNotification, scheduleNotification } from '../../services/notification.service.js';
-import { format, addHours } from 'date-fns';
+import { sendNotification } from '../../services/notification.service.js';
+import {
+    previewCancellationRefund,
+    addRefundAmounts,
+    getGroupPartnerBookings,
+    CLIENT_CANCELLABLE_STATUSES,
+} from '../../services/cancellation.service.js';
+import { BookingStatusError, cancelClientBooking, getBookingMessageParams } from '../../services/booking-status.service.js';
+import { getSetting } from '../../services/settings.service.js';
+import { getRequiredResourceIds, getResourceLoads } from '../../services/resource.service.js';
+import {
+    assertGroupSlotAvailable,
+    assertSlotAvailable,
+    BookingConflictError,
+    BookingError,
+    calculateEndTime,
+    getAvailableSlots,
+    getMasterSlots,
+    insertBooking,
+    insertBookingGroup,
+    isMasterWorking,
+    priceBookingItems,
+    scheduleBookingReminders,
+    withSlotLock,
+} from '../../services/booking.service.js';
+import { GiftCertificateError } from '../../services/gift-certificate.service.js';
+import { PackageError } from '../../services/package.service.js';
+import { applyPromoCode, PromoCodeError } from '../../services/promo.service.js';
+import { sendMasterBookingRequest } from '../../services/booking-request.service.js';
+import { postStaffBookingEvent } from '../../services/staff-feed.service.js';
+import { createBooking } from '../../services/booking-create.service.js';
+import { rescheduleClientBooking } from '../../services/booking-reschedule.service.js';
+import { escapeHtml, localizedName } from '../../shared/utils/message-templates.js';
+import { addDaysToKey, formatDbDate, toDbDate, zonedDateTimeToUtc } from '../../shared/utils/timezone.js';
 
 // Валідація параметрів запиту слотів
 const slotsQuerySchema = z.object({
-    masterId: z.string().uuid('Invalid master ID'),
+    // Без masterId — об'єднані слоти всіх майстрів, що надають послуги serviceIds
+    masterId: z.string().uuid('Invalid master ID').optional(),
+    date: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+    durationMinutes: z.coerce.number().min(1, 'Duration must be at least 1 minute'),
+    // Послуги через кому: слоти враховують зайнятість потрібних їм ресурсів (кімнат, обладнання)
+    serviceIds: z.string().optional()
+        .transform((val) => (val ? val.split(',').filter(Boolean) : []))
+        .pipe(z.array(z.string().uuid('Invalid service ID'))),
+}).refine((data) => data.masterId || data.serviceIds.length > 0, {
+    message: 'serviceIds are required when masterId is omitted',
+});
+
+// Валідація параметрів запиту спільних слотів групи майстрів
+const groupSlotsQuerySchema = z.object({
+    masterIds: z.string()
+        .transform((val) => val.split(',').filter(Boolean))
+        .pipe(z.array(z.string().uuid('Invalid master ID')).min(2, 'At least two masters are required')),
     date: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
     durationMinutes: z.coerce.number().min(1, 'Duration must be at least 1 minute'),
+    serviceIds: z.string().optional()
+        .transform((val) => (val ? val.split(',').filter(Boolean) : []))
+        .pipe(z.array(z.string().uuid('Invalid service ID'))),
 });
 
 // Валідація тіла запиту створення бронювання
 const createBookingSchema = z.object({
-    masterId: z.string().uuid('Invalid master ID'),
+    // Без masterId майстра призначає сервер (режим "будь-який майстер")
+    masterId: z.string().uuid('Invalid master ID').optional(),
     bookingDate: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
     startTime: z.string().regex(/^([01]?\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
     serviceDurations: z.array(z.object({
         serviceId: z.string().uuid('Invalid service ID'),
         durationId: z.string().uuid('Invalid duration ID'),
-    })).min(1, 'At least one service is required'),
+    })).min(1, 'At least one service is required').optional(),
+    // Комбо розгортається в послуги з комбо та дає знижку discountPercent
+    comboId: z.string().uuid('Invalid combo ID').optional(),
     promoCode: z.string().optional(),
+    // Подарунковий сертифікат як спосіб оплати: списується до min(баланс, ціна), залишок лишається на ньому
+    giftCertificateCode: z.string().min(1).optional(),
+    // Послуга, що входить в активний пакет клієнта, оплачується сеансом пакета (false — платити грошима)
+    usePackage: z.boolean().default(true),
+}).refine((data) => data.comboId || data.serviceDurations, {
+    message: 'At least one service is required',
+});
+
+// Найбільше входжень в одній серії (пів року щотижневих візитів)
+const SERIES_MAX_OCCURRENCES = 26;
+
+// Валідація тіла запиту створення серії регулярних бронювань
+const createSeriesSchema = z.object({
+    masterId: z.string().uuid('Invalid master ID'),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
+    serviceDurations: z.array(z.object({
+        serviceId: z.string().uuid('Invalid service ID'),
+        durationId: z.string().uuid('Invalid duration ID'),
+    })).min(1, 'At least one service is required'),
+    // 1 — щотижня, 2 — раз на два тижні
+    intervalWeeks: z.union([z.literal(1), z.literal(2)]),
+    occurrences: z.number().int().min(2).max(SERIES_MAX_OCCURRENCES).optional(),
+    untilDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+}).refine((data) => data.occurrences || data.untilDate, {
+    message: 'Either occurrences or untilDate is required',
+}).refine((data) => !data.untilDate || data.untilDate > data.startDate, {
+    message: 'untilDate must be after startDate',
+});
+
+// Найбільше учасників одного групового бронювання
+const GROUP_MAX_PARTICIPANTS = 4;
+
+// Валідація тіла запиту групового бронювання: кожен учасник — свій майстер і свої послуги, час спільний
+const createGroupBookingSchema = z.object({
+    bookingDate: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+    startTime: z.string().regex(/^([01]?\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
+    participants: z.array(z.object({
+        masterId: z.string().uuid('Invalid master ID'),
+        serviceDurations: z.array(z.object({
+            serviceId: z.string().uuid('Invalid service ID'),
+            durationId: z.string().uuid('Invalid duration ID'),
+        })).min(1, 'At least one service is required'),
+    })).min(2, 'At least two participants are required').max(GROUP_MAX_PARTICIPANTS),
+}).refine((data) => new Set(data.participants.map((p) => p.masterId)).size === data.participants.length, {
+    message: 'Each participant needs a different master',
+});
+
+// Валідація тіла запиту перенесення бронювання (майстер, послуги й оплати лишаються тими самими)
+const rescheduleBookingSchema = z.object({
+    bookingDate: z.string().refine((val) => !isNaN(Date.parse(val)), { message: 'Invalid date format' }),
+    startTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, 'Invalid time format (HH:MM)'),
 });
 
 // Валідація промокоду
 const validatePromoSchema = z.object({
     code: z.string().min(1, 'Promo code is required'),
     totalAmount: z.number().min(0, 'Total amount must be positive'),
+    // Деталі візиту для правил промокоду (майстер, послуги); без них обмежені коди не проходять
+    masterId: z.string().uuid('Invalid master ID').optional(),
+    serviceDurations: z.array(z.object({
+        serviceId: z.string().uuid('Invalid service ID'),
+        durationId: z.string().uuid('Invalid duration ID'),
+    })).optional(),
 });
 
 export async function bookingsRoutes(app: FastifyInstance) {
@@ -35,7 +147,7 @@ export async function bookingsRoutes(app: FastifyInstance) {
      * GET /api/bookings/slots
      * Отримати вільні слоти для бронювання
      */
-    app.get<{ Querystring: { masterId: string; date: string; durationMinutes: string } }>(
+    app.get<{ Querystring: { masterId?: string; date: string; durationMinutes: string; serviceIds?: string } }>(
         '/slots',
         { preHandler: [requireAuth] },
         async (request, reply) => {
@@ -51,45 +163,49 @@ export async function bookingsRoutes(app: FastifyInstance) {
                 });
             }
 
-            const { masterId, date, durationMinutes } = parseResult.data;
+            const { masterId, date, durationMinutes, serviceIds } = parseResult.data;
+            const workDate = toDbDate(date);
 
-            // Get master schedule for the date
-            const schedule = await prisma.masterSchedule.findUnique({
-                where: {
-                    masterId_workDate: {
-                        masterId,
-                        workDate: new Date(date),
-                    },
-                },
+            const slots = await getAvailableSlots(masterId, serviceIds, workDate, durationMinutes);
+
+            return reply.send({
+                success: true,
+                data: { slots },
             });
+        });
+
+    /**
+     * GET /api/bookings/group-slots
+     * Слоти, вільні одночасно в усіх майстрів групи (ресурси група займає один раз)
+     */
+    app.get<{ Querystring: { masterIds: string; date: string; durationMinutes: string; serviceIds?: string } }>(
+        '/group-slots',
+        { preHandler: [requireAuth] },
+        async (request, reply) => {
+            const parseResult = groupSlotsQuerySchema.safeParse(request.query);
 
-            if (!schedule || schedule.isDayOff) {
-                return reply.send({
-                    success: true,
-                    data: { slots: [] },
+            if (!parseResult.success) {
+                return reply.status(400).send({
+                    success: false,
+                    error: {
+                        message: parseResult.error.errors[0]?.message || 'Invalid query parameters',
+                        code: 'VALIDATION_ERROR',
+                    },
                 });
             }
 
-            // Get existing bookings for the master on this date
-            const existingBookings = await prisma.booking.findMany({
-                where: {
-                    masterId,
-                    bookingDate: new Date(date),
-                    status: {
-                        notIn: ['cancelled_by_client', 'cancelled_by_admin'],
-                    },
-                },
-                select: { startTime: true, endTime: true },
-            });
+            const { masterIds, date, durationMinutes, serviceIds } = parseResult.data;
+            const workDate = toDbDate(date);
+
+            const [resourceLoads, bufferMinutes] = await Promise.all([
+                getRequiredResourceIds(serviceIds).then((resourceIds) => getResourceLoads(resourceIds, workDate)),
+                getSetting('buffer_minutes'),
+            ]);
 
-            // Generate available slots
-            const slots = generateTimeSlots(
-                schedule.startTime,
-                schedule.endTime,
-                durationMinutes,
-                15, // buffer minutes - TODO: get from settings
-                existingBookings
-            );
+            const masterSlots = await Promise.all(masterIds.map((id, index) =>
+                getMasterSlots(id, workDate, durationMinutes, bufferMinutes, index === 0 ? resourceLoads : [])
+            ));
+            const slots = masterSlots[0].filter((slot) => masterSlots.every((list) => list.includes(slot)));
 
             return reply.send({
                 success: true,
@@ -114,283 +230,224 @@ export async function bookingsRoutes(app: FastifyInstance) {
             });
         }
 
-        const { masterId, bookingDate, startTime, serviceDurations, promoCode } = parseResult.data;
         const { userId } = request.user;
 
-        // Parse date
-        const parsedDate = new Date(bookingDate);
-        parsedDate.setHours(0, 0, 0, 0);
-
-        // Validate master exists and is active
-        const master = await prisma.master.findUnique({
-            where: { id: masterId, isActive: true },
-        });
-
-        if (!master) {
-            return reply.status(404).send({
-                success: false,
-                error: { message: 'Master not found', code: 'NOT_FOUND' },
-            });
-        }
-
-        // Validate services and durations, calculate total duration and price
-        let totalDuration = 0;
-        let totalPrice = 0;
-        const bookingItems: { serviceId: string; durationId: string; price: number }[] = [];
-
-        for (const sd of serviceDurations) {
-            const duration = await prisma.serviceDuration.findUnique({
-                where: { id: sd.durationId, isActive: true },
-                include: { service: true },
-            });
-
-            if (!duration || duration.serviceId !== sd.serviceId) {
-                return reply.status(400).send({
+        let created: Awaited<ReturnType<typeof createBooking>>;
+        try {
+            created = await createBooking(userId, parseResult.data);
+        } catch (error) {
+            if (error instanceof BookingConflictError) {
+                return reply.status(error.statusCode).send({
                     success: false,
-                    error: { message: `Invalid service/duration combination`, code: 'INVALID_SERVICE' },
+                    error: { message: error.message, code: error.code },
                 });
             }
-
-            // Check if master provides this service
-            const masterService = await prisma.masterService.findUnique({
-                where: {
-                    masterId_serviceId: { masterId, serviceId: sd.serviceId },
-                },
-            });
-
-            if (!masterService) {
-                return reply.status(400).send({
+            if (
+                error instanceof BookingError
+                || error instanceof GiftCertificateError
+                || error instanceof PackageError
+                || error instanceof PromoCodeError
+            ) {
+                return reply.status(error.statusCode).send({
                     success: false,
-                    error: { message: `Master does not provide this service`, code: 'MASTER_SERVICE_NOT_AVAILABLE' },
+                    error: { message: error.message, code: error.code },
                 });
             }
-
-            // Calculate price with master's modifier
-            const basePrice = Number(duration.basePrice);
-            const modifier = Number(masterService.priceModifier);
-            const itemPrice = basePrice + modifier;
-
-            totalDuration += duration.durationMinutes;
-            totalPrice += itemPrice;
-
-            bookingItems.push({
-                serviceId: sd.serviceId,
-                durationId: sd.durationId,
-                price: itemPrice,
-            });
+            throw error;
         }
 
-        // Calculate end time
-        const endTime = calculateEndTime(startTime, totalDuration);
+        const { booking, paidByCertificate } = created;
 
-        // Check slot availability
-        const existingBookings = await prisma.booking.findMany({
-            where: {
-                masterId,
-                bookingDate: parsedDate,
-                status: { notIn: ['cancelled_by_client', 'cancelled_by_admin'] },
+        return reply.status(201).send({
+            success: true,
+            data: {
+                booking: {
+                    id: booking.id,
+                    bookingDate: booking.bookingDate,
+                    startTime: booking.startTime,
+                    endTime: booking.endTime,
+                    status: booking.status,
+                    totalPrice: booking.totalPrice,
+                    discountAmount: booking.discountAmount,
+                    paidByCertificate,
+                    userPackageId: booking.userPackageId,
+                    master: booking.master,
+                    items: booking.items,
+                },
             },
-            select: { startTime: true, endTime: true },
         });
+    });
 
-        const hasConflict = existingBookings.some((booking: any) => {
-            const bookingStart = timeToMinutes(booking.startTime);
-            const bookingEnd = timeToMinutes(booking.endTime);
-            const newStart = timeToMinutes(startTime);
-            const newEnd = timeToMinutes(endTime);
-
-            return newStart < bookingEnd && newEnd > bookingStart;
-        });
+    /**
+     * POST /api/bookings/series
+     * Серія регулярних візитів до одного майстра (щотижня або раз на два тижні).
+     * Кожне входження — окреме бронювання; зайняті дати пропускаються і повертаються як конфлікти.
+     */
+    app.post('/series', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = createSeriesSchema.safeParse(request.body);
 
-        if (hasConflict) {
-            return reply.status(409).send({
+        if (!parseResult.success) {
+            return reply.status(400).send({
                 success: false,
-                error: { message: 'Time slot is already booked', code: 'SLOT_NOT_AVAILABLE' },
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                    code: 'VALIDATION_ERROR',
+                },
             });
         }
 
-        // Validate promo code if provided
-        let promoCodeId: string | null = null;
-        let discountAmount = 0;
+        const { masterId, startDate, startTime, serviceDurations, intervalWeeks, occurrences, untilDate } = parseResult.data;
+        const { userId } = request.user;
 
-        if (promoCode) {
-            const promo = await prisma.promoCode.findUnique({
-                where: { code: promoCode },
+        const master = await prisma.master.findUnique({
+            where: { id: masterId, isActive: true },
+        });
+
+        if (!master) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master not found', code: 'NOT_FOUND' },
             });
+        }
 
-            if (promo && promo.isActive) {
-                const now = new Date();
-                const isValid = now >= promo.validFrom && now <= promo.validUntil;
-                const hasUsesLeft = promo.maxUses === null || promo.currentUses < promo.maxUses;
-                const meetsMinAmount = promo.minOrderAmount === null || totalPrice >= Number(promo.minOrderAmount);
+        const timeZone = await getSetting('salon_timezone');
 
-                if (isValid && hasUsesLeft && meetsMinAmount) {
-                    promoCodeId = promo.id;
+        if (zonedDateTimeToUtc(startDate, startTime, timeZone) <= new Date()) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'First visit must be in the future', code: 'VALIDATION_ERROR' },
+            });
+        }
 
-                    if (promo.discountType === 'percent') {
-                        discountAmount = (totalPrice * Number(promo.discountValue)) / 100;
-                    } else {
-                        discountAmount = Math.min(Number(promo.discountValue), totalPrice);
-                    }
-                }
+        let priced: Awaited<ReturnType<typeof priceBookingItems>>;
+        try {
+            priced = await priceBookingItems(masterId, serviceDurations);
+        } catch (error) {
+            if (error instanceof BookingError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
             }
+            throw error;
         }
 
-        const finalPrice = totalPrice - discountAmount;
+        const endTime = calculateEndTime(startTime, priced.totalDuration);
+        const resourceIds = await getRequiredResourceIds(priced.items.map((item) => item.serviceId));
+
+        // Дати входжень: кожні intervalWeeks тижнів, до occurrences штук або до untilDate включно
+        const dates: string[] = [];
+        for (
+            let dateKey = startDate;
+            dates.length < (occurrences ?? SERIES_MAX_OCCURRENCES) && (!untilDate || dateKey <= untilDate);
+            dateKey = addDaysToKey(dateKey, intervalWeeks * 7)
+        ) {
+            dates.push(dateKey);
+        }
 
-        // Get loyalty settings
-        const loyaltySettings = await prisma.loyaltySettings.findFirst({
-            where: { isActive: true },
+        const series = await prisma.bookingSeries.create({
+            data: {
+                userId,
+                masterId,
+                startTime,
+                intervalWeeks,
+                occurrences: occurrences ?? null,
+                untilDate: untilDate ? toDbDate(untilDate) : null,
+            },
         });
 
-        // Count user's stamps
-        const userStamps = await prisma.loyaltyStamp.count({
-            where: { userId, isReward: false },
-        });
+        const results: {
+            date: string;
+            booking?: any;
+            conflict?: { message: string; code: string };
+        }[] = [];
 
-        // Determine booking status (pending_confirmation for now)
-        const bookingStatus: 'pending_confirmation' = 'pending_confirmation';
+        for (const date of dates) {
+            const bookingDate = toDbDate(date);
 
-        // Create booking with items in transaction
-        const booking = await prisma.$transaction(async (tx: any) => {
-            // Create booking
-            const newBooking = await tx.booking.create({
-                data: {
-                    userId,
-                    masterId,
-                    bookingDate: parsedDate,
-                    startTime,
-                    endTime,
-                    status: bookingStatus,
-                    totalPrice: finalPrice,
-                    discountAmount,
-                    promoCodeId,
-                    items: {
-                        create: bookingItems.map((item, index) => ({
-                            serviceId: item.serviceId,
-                            durationId: item.durationId,
-                            price: item.price,
-                            sortOrder: index,
-                        })),
-                    },
-                },
-                include: {
-                    master: { select: { displayName: true, photoUrl: true } },
-                    items: {
-                        include: {
-                            service: { select: { name: true } },
-                            duration: { select: { durationMinutes: true } },
-                        },
-                    },
-                },
-            });
+            if (!(await isMasterWorking(masterId, bookingDate, startTime, endTime))) {
+                results.push({
+                    date,
+                    conflict: { message: 'Master is not working at this time', code: 'SLOT_NOT_AVAILABLE' },
+                });
+                continue;
+            }
 
-            // Create loyalty stamp
-            if (loyaltySettings) {
-                const nextStampNumber = userStamps + 1;
-                const isReward = loyaltySettings.stampsForReward > 0 &&
-                    nextStampNumber % loyaltySettings.stampsForReward === 0;
+            const slot = { masterId, bookingDate, startTime, endTime, resourceIds };
 
-                await tx.loyaltyStamp.create({
-                    data: {
+            try {
+                const booking = await withSlotLock(slot, async () => {
+                    await assertSlotAvailable(slot);
+                    return insertBooking({
+                        ...slot,
                         userId,
-                        bookingId: newBooking.id,
-                        stampNumber: nextStampNumber,
-                        isReward,
-                    },
-                });
-
-                // Increment promo code usage
-                if (promoCodeId) {
-                    await tx.promoCode.update({
-                        where: { id: promoCodeId },
-                        data: { currentUses: { increment: 1 } },
+                        totalPrice: priced.totalPrice,
+                        discountAmount: 0,
+                        promoCodeId: null,
+                        items: priced.items,
+                        seriesId: series.id,
                     });
+                });
+                results.push({ date, booking });
+            } catch (error) {
+                if (error instanceof BookingConflictError) {
+                    results.push({ date, conflict: { message: error.message, code: error.code } });
+                    continue;
                 }
+                throw error;
             }
+        }
 
-            return newBooking;
-        });
+        const booked = results.filter((result) => result.booking).map((result) => result.booking);
 
-        // Відправити сповіщення про створення бронювання
-        const services = booking.items.map((item: any) => (item.service.name as any)?.uk || String(item.service.name)).join(', ');
-        const masterName = (booking.master?.displayName as any)?.uk || '';
+        if (booked.length === 0) {
+            await prisma.bookingSeries.delete({ where: { id: series.id } });
+            return reply.status(409).send({
+                success: false,
+                error: { message: 'None of the series dates are available', code: 'SLOT_NOT_AVAILABLE' },
+            });
+        }
 
+        // Сповіщення про перший візит серії та нагадування для кожного
         sendNotification({
             type: 'booking_created',
-            userId: userId,
-            bookingId: booking.id,
-            params: {
-                master_name: masterName,
-                service_name: services,
-                date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                time: booking.startTime,
-            },
+            userId,
+            bookingId: booked[0].id,
+            params: getBookingMessageParams(booked[0]),
         }).catch(err => console.error('Failed to send notification:', err));
 
-        // Запланувати нагадування
-        const bookingDateTime = new Date(booking.bookingDate);
-        const [hours, minutes] = booking.startTime.split(':').map(Number);
-        bookingDateTime.setHours(hours, minutes, 0, 0);
+        for (const booking of booked) {
+            scheduleBookingReminders(booking, getBookingMessageParams(booking))
+                .catch(err => console.error('Failed to schedule reminders:', err));
 
-        // Нагадування за 24 години
-        const reminder24h = addHours(bookingDateTime, -24);
-        if (reminder24h > new Date()) {
-            scheduleNotification(
-                userId,
-                'reminder_24h',
-                reminder24h,
-                booking.id,
-                {
-                    master_name: masterName,
-                    service_name: services,
-                    date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                    time: booking.startTime,
-                }
-            ).catch(err => console.error('Failed to schedule 24h reminder:', err));
-        }
+            sendMasterBookingRequest(booking.id)
+                .catch(err => console.error('Failed to send booking request to master:', err));
 
-        // Нагадування за 2 години
-        const reminder2h = addHours(bookingDateTime, -2);
-        if (reminder2h > new Date()) {
-            scheduleNotification(
-                userId,
-                'reminder_2h',
-                reminder2h,
-                booking.id,
-                {
-                    master_name: masterName,
-                    service_name: services,
-                    date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                    time: booking.startTime,
-                }
-            ).catch(err => console.error('Failed to schedule 2h reminder:', err));
+            postStaffBookingEvent(booking.id, 'created')
+                .catch(err => console.error('Failed to post to staff chat:', err));
         }
 
         return reply.status(201).send({
             success: true,
             data: {
-                booking: {
-                    id: booking.id,
-                    bookingDate: booking.bookingDate,
-                    startTime: booking.startTime,
-                    endTime: booking.endTime,
-                    status: booking.status,
-                    totalPrice: booking.totalPrice,
-                    discountAmount: booking.discountAmount,
-                    master: booking.master,
-                    items: booking.items,
-                },
+                series,
+                occurrences: results.map((result) => ({
+                    date: result.date,
+                    status: result.booking ? 'booked' : 'conflict',
+                    booking: result.booking ?? null,
+                    conflict: result.conflict ?? null,
+                })),
             },
         });
     });
 
     /**
-     * POST /api/bookings/validate-promo
-     * Валідація промокоду
+     * POST /api/bookings/group
+     * Групове бронювання (масаж для пари): кілька майстрів паралельно на той самий проміжок.
+     * Бронюються всі учасники або жоден; ціна й передоплата спільні для групи.
      */
-    app.post('/validate-promo', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
-        const parseResult = validatePromoSchema.safeParse(request.body);
+    app.post('/group', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = createGroupBookingSchema.safeParse(request.body);
 
         if (!parseResult.success) {
             return reply.status(400).send({
@@ -402,56 +459,193 @@ export async function bookingsRoutes(app: FastifyInstance) {
             });
         }
 
-        const { code, totalAmount } = parseResult.data;
+        const { bookingDate, startTime, participants } = parseResult.data;
+        const { userId } = request.user;
+        const masterIds = participants.map((participant) => participant.masterId);
 
-        const promo = await prisma.promoCode.findUnique({
-            where: { code },
+        const activeMasters = await prisma.master.count({
+            where: { id: { in: masterIds }, isActive: true },
         });
 
-        if (!promo || !promo.isActive) {
+        if (activeMasters !== masterIds.length) {
             return reply.status(404).send({
                 success: false,
-                error: { message: 'Promo code not found or inactive', code: 'PROMO_NOT_FOUND' },
+                error: { message: 'Master not found', code: 'NOT_FOUND' },
             });
         }
 
-        const now = new Date();
-        const isValid = now >= promo.validFrom && now <= promo.validUntil;
+        let priced: Awaited<ReturnType<typeof priceBookingItems>>[];
+        try {
+            priced = [];
+            for (const participant of participants) {
+                priced.push(await priceBookingItems(participant.masterId, participant.serviceDurations));
+            }
+        } catch (error) {
+            if (error instanceof BookingError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
 
-        if (!isValid) {
-            return reply.status(400).send({
-                success: false,
-                error: { message: 'Promo code has expired', code: 'PROMO_EXPIRED' },
+        // Учасники приходять і йдуть разом: проміжок групи — за найдовшою програмою
+        const parsedDate = toDbDate(bookingDate);
+        const endTime = calculateEndTime(startTime, Math.max(...priced.map((p) => p.totalDuration)));
+
+        for (const masterId of masterIds) {
+            if (!(await isMasterWorking(masterId, parsedDate, startTime, endTime))) {
+                return reply.status(409).send({
+                    success: false,
+                    error: { message: 'Not all masters are working at this time', code: 'SLOT_NOT_AVAILABLE' },
+                });
+            }
+        }
+
+        // Спільна кімната та обладнання резервуються для групи один раз
+        const resourceIds = await getRequiredResourceIds(
+            priced.flatMap((p) => p.items.map((item) => item.serviceId))
+        );
+        const slot = { bookingDate: parsedDate, startTime, endTime, resourceIds };
+
+        let created: Awaited<ReturnType<typeof insertBookingGroup>>;
+        try {
+            created = await withSlotLock({ ...slot, masterId: masterIds }, async () => {
+                await assertGroupSlotAvailable({ ...slot, masterIds });
+                return insertBookingGroup({
+                    ...slot,
+                    userId,
+                    participants: participants.map((participant, index) => ({
+                        masterId: participant.masterId,
+                        items: priced[index].items,
+                        totalPrice: priced[index].totalPrice,
+                    })),
+                });
             });
+        } catch (error) {
+            if (error instanceof BookingConflictError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
         }
 
-        const hasUsesLeft = promo.maxUses === null || promo.currentUses < promo.maxUses;
+        const { group, bookings } = created;
+
+        // Клієнт отримує одне сповіщення й одні нагадування на всю групу
+        const services = [...new Set(bookings.flatMap((booking: any) =>
+            booking.items.map((item: any) => localizedName(item.service.name, 'uk'))
+        ))].join(', ');
+        const masterNames = bookings
+            .map((booking: any) => localizedName(booking.master?.displayName, 'uk'))
+            .filter(Boolean)
+            .join(', ');
+        const params = {
+            master_name: escapeHtml(masterNames),
+            service_name: escapeHtml(services),
+            date: formatDbDate(parsedDate),
+            time: startTime,
+        };
 
-        if (!hasUsesLeft) {
-            return reply.status(400).send({
-                success: false,
-                error: { message: 'Promo code usage limit reached', code: 'PROMO_LIMIT_REACHED' },
-            });
+        sendNotification({
+            type: 'booking_created',
+            userId,
+            bookingId: bookings[0].id,
+            params,
+        }).catch(err => console.error('Failed to send notification:', err));
+
+        scheduleBookingReminders(bookings[0], params)
+            .catch(err => console.error('Failed to schedule reminders:', err));
+
+        for (const booking of bookings) {
+            postStaffBookingEvent(booking.id, 'created')
+                .catch(err => console.error('Failed to post to staff chat:', err));
         }
 
-        const meetsMinAmount = promo.minOrderAmount === null || totalAmount >= Number(promo.minOrderAmount);
+        return reply.status(201).send({
+            success: true,
+            data: {
+                group: {
+                    id: group.id,
+                    totalPrice: group.totalPrice,
+                    bookingDate: parsedDate,
+                    startTime,
+                    endTime,
+                },
+                bookings,
+            },
+        });
+    });
+
+    /**
+     * POST /api/bookings/validate-promo
+     * Валідація промокоду за всіма його правилами (ліміти, послуги, перший візит, майстер)
+     */
+    app.post('/validate-promo', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = validatePromoSchema.safeParse(request.body);
 
-        if (!meetsMinAmount) {
+        if (!parseResult.success) {
             return reply.status(400).send({
                 success: false,
                 error: {
-                    message: `Minimum order amount for this promo code is ${promo.minOrderAmount}`,
-                    code: 'PROMO_MIN_AMOUNT',
+                    message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                    code: 'VALIDATION_ERROR',
                 },
             });
         }
 
-        // Calculate discount
+        const { code, totalAmount, masterId, serviceDurations } = parseResult.data;
+        const { userId } = request.user;
+
+        // Ціни послуг: з модифікатором майстра, якщо його обрано, інакше базові
+        let items: { serviceId: string; price: number }[] = [];
+
+        if (serviceDurations && serviceDurations.length > 0) {
+            if (masterId) {
+                try {
+                    items = (await priceBookingItems(masterId, serviceDurations)).items;
+                } catch (error) {
+                    if (error instanceof BookingError) {
+                        return reply.status(error.statusCode).send({
+                            success: false,
+                            error: { message: error.message, code: error.code },
+                        });
+                    }
+                    throw error;
+                }
+            } else {
+                const durations = await prisma.serviceDuration.findMany({
+                    where: { id: { in: serviceDurations.map((sd) => sd.durationId) } },
+                    select: { id: true, basePrice: true },
+                });
+                items = serviceDurations.map((sd) => ({
+                    serviceId: sd.serviceId,
+                    price: Number(durations.find((d: any) => d.id === sd.durationId)?.basePrice ?? 0),
+                }));
+            }
+        }
+
+        let promo: any;
         let discountAmount: number;
-        if (promo.discountType === 'percent') {
-            discountAmount = (totalAmount * Number(promo.discountValue)) / 100;
-        } else {
-            discountAmount = Math.min(Number(promo.discountValue), totalAmount);
+
+        try {
+            ({ promo, discountAmount } = await applyPromoCode(code, {
+                userId,
+                masterId: masterId ?? null,
+                items,
+                amount: totalAmount,
+            }));
+        } catch (error) {
+            if (error instanceof PromoCodeError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
         }
 
         return reply.send({
@@ -495,17 +689,67 @@ export async function bookingsRoutes(app: FastifyInstance) {
         });
     });
 
+    /**
+     * GET /api/bookings/:id/cancellation-preview
+     * Сума повернення, яку клієнт отримає при скасуванні зараз
+     */
+    app.get<{ Params: { id: string } }>(
+        '/:id/cancellation-preview',
+        { preHandler: [requireAuth] },
+        async (request, reply) => {
+            const { userId } = request.user;
+            const { id } = request.params;
+
+            const booking = await prisma.booking.findUnique({
+                where: { id },
+            });
+
+            if (!booking) {
+                return reply.status(404).send({
+                    success: false,
+                    error: { message: 'Booking not found', code: 'NOT_FOUND' },
+                });
+            }
+
+            if (booking.userId !== userId) {
+                return reply.status(403).send({
+                    success: false,
+                    error: { message: 'Not authorized', code: 'FORBIDDEN' },
+                });
+            }
+
+            if (!CLIENT_CANCELLABLE_STATUSES.includes(booking.status)) {
+                return reply.status(400).send({
+                    success: false,
+                    error: { message: 'Cannot cancel this booking', code: 'INVALID_OPERATION' },
+                });
+            }
+
+            const preview = await previewCancellationRefund(booking, 'client');
+
+            // Для групи — сумарно за всіма учасниками, бо скасовуються вони разом
+            for (const other of await getGroupPartnerBookings(booking, CLIENT_CANCELLABLE_STATUSES)) {
+                addRefundAmounts(preview, await previewCancellationRefund(other, 'client'));
+            }
+
+            return reply.send({
+                success: true,
+                data: preview,
+            });
+        }
+    );
+
     /**
      * PATCH /api/bookings/:id/status
      * Оновити статус бронювання (наприклад, скасування клієнтом)
      */
-    app.patch<{ Params: { id: string }; Body: { status: string; cancelReason?: string } }>(
+    app.patch<{ Params: { id: string }; Body: { status: string; cancelReason?: string; scope?: 'single' | 'future' } }>(
         '/:id/status',
         { preHandler: [requireAuth] },
         async (request, reply) => {
             const { userId } = request.user;
             const { id } = request.params;
-            const { status, cancelReason } = request.body;
+            const { status, cancelReason, scope = 'single' } = request.body;
 
             // Validate status
             const validStatuses = ['cancelled_by_client', 'pending_confirmation', 'confirmed'];
@@ -516,6 +760,25 @@ export async function bookingsRoutes(app: FastifyInstance) {
                 });
             }
 
+            if (status === 'cancelled_by_client') {
+                try {
+                    const result = await cancelClientBooking(id, userId, { cancelReason, scope });
+
+                    return reply.send({
+                        success: true,
+                        data: result,
+                    });
+                } catch (error) {
+                    if (error instanceof BookingStatusError) {
+                        return reply.status(error.statusCode).send({
+                            success: false,
+                            error: { message: error.message, code: error.code },
+                        });
+                    }
+                    throw error;
+                }
+            }
+
             // Find booking and verify ownership
             const booking = await prisma.booking.findUnique({
                 where: { id },
@@ -535,15 +798,6 @@ export async function bookingsRoutes(app: FastifyInstance) {
                 });
             }
 
-            // Only allow cancellation for certain statuses
-            const cancellableStatuses = ['pending_confirmation', 'confirmed', 'deposit_pending'];
-            if (status === 'cancelled_by_client' && !cancellableStatuses.includes(booking.status)) {
-                return reply.status(400).send({
-                    success: false,
-                    error: { message: 'Cannot cancel this booking', code: 'INVALID_OPERATION' },
-                });
-            }
-
             // Update booking
             const updatedBooking = await prisma.booking.update({
                 where: { id },
@@ -564,66 +818,58 @@ export async function bookingsRoutes(app: FastifyInstance) {
 
             return reply.send({
                 success: true,
-                data: { booking: updatedBooking },
+                data: { booking: updatedBooking, refund: null },
             });
         }
     );
-}
-
-/**
- * Генерація вільних часових слотів
- */
-function generateTimeSlots(
-    startTime: string,
-    endTime: string,
-    durationMinutes: number,
-    bufferMinutes: number,
-    existingBookings: { startTime: string; endTime: string }[]
-): string[] {
-    const slots: string[] = [];
-    const [startH, startM] = startTime.split(':').map(Number);
-    const [endH, endM] = endTime.split(':').map(Number);
-
-    let currentMinutes = startH * 60 + startM;
-    const endMinutes = endH * 60 + endM;
-
-    while (currentMinutes + durationMinutes <= endMinutes) {
-        const slotStart = minutesToTime(currentMinutes);
-        const slotEnd = minutesToTime(currentMinutes + durationMinutes);
-
-        // Check if slot conflicts with existing bookings
-        const hasConflict = existingBookings.some((booking) => {
-            const bookingStart = timeToMinutes(booking.startTime);
-            const bookingEnd = timeToMinutes(booking.endTime);
-            const slotStartMin = currentMinutes;
-            const slotEndMin = currentMinutes + durationMinutes;
-
-            return slotStartMin < bookingEnd + bufferMinutes && slotEndMin > bookingStart - bufferMinutes;
-        });
-
-        if (!hasConflict) {
-            slots.push(slotStart);
-        }
-
-        currentMinutes += 15; // Step: 15 minutes
-    }
 
-    return slots;
-}
+    /**
+     * POST /api/bookings/:id/reschedule
+     * Перенести бронювання на інший час того ж майстра (передоплата, промокод і штамп лояльності зберігаються)
+     */
+    app.post<{ Params: { id: string }; Body: { bookingDate: string; startTime: string } }>(
+        '/:id/reschedule',
+        { preHandler: [requireAuth] },
+        async (request, reply) => {
+            const parseResult = rescheduleBookingSchema.safeParse(request.body);
 
-function minutesToTime(minutes: number): string {
-    const h = Math.floor(minutes / 60);
-    const m = minutes % 60;
-    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-}
+            if (!parseResult.success) {
+                return reply.status(400).send({
+                    success: false,
+                    error: {
+                        message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                        code: 'VALIDATION_ERROR',
+                    },
+                });
+            }
 
-function timeToMinutes(time: string): number {
-    const [h, m] = time.split(':').map(Number);
-    return h * 60 + m;
-}
+            const { userId } = request.user;
+            const { id } = request.params;
+            const { bookingDate, startTime } = parseResult.data;
+
+            let updatedBooking: any;
+            try {
+                updatedBooking = await rescheduleClientBooking(id, userId, bookingDate, startTime);
+            } catch (error) {
+                if (error instanceof BookingConflictError) {
+                    return reply.status(error.statusCode).send({
+                        success: false,
+                        error: { message: error.message, code: error.code },
+                    });
+                }
+                if (error instanceof BookingError) {
+                    return reply.status(error.statusCode).send({
+                        success: false,
+                        error: { message: error.message, code: error.code },
+                    });
+                }
+                throw error;
+            }
 
-function calculateEndTime(startTime: string, durationMinutes: number): string {
-    const startMinutes = timeToMinutes(startTime);
-    const endMinutes = startMinutes + durationMinutes;
-    return minutesToTime(endMinutes);
+            return reply.send({
+                success: true,
+                data: { booking: updatedBooking },
+            });
+        }
+    );
 }
@@ -0,0 +1,48 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../../config/database.js';
+
+export async function combosRoutes(app: FastifyInstance) {
+    /**
+     * GET /api/combos
+     * Список активних комбо з послугами, тривалістю та ціною зі знижкою
+     */
+    app.get('/', async (_request: FastifyRequest, reply: FastifyReply) => {
+        const combos = await prisma.combo.findMany({
+            where: { isActive: true },
+            include: {
+                items: {
+                    include: {
+                        service: true,
+                        duration: true,
+                    },
+                    orderBy: { sortOrder: 'asc' },
+                },
+            },
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        // Комбо з неактивною послугою чи тривалістю забронювати неможливо
+        const available = combos.filter((combo: any) =>
+            combo.items.length > 0 &&
+            combo.items.every((item: any) => item.service.isActive && item.duration.isActive)
+        );
+
+        return reply.send({
+            success: true,
+            data: {
+                combos: available.map((combo: any) => {
+                    const basePrice = combo.items.reduce((sum: number, item: any) => sum + Number(item.duration.basePrice), 0);
+                    const discountPercent = Number(combo.discountPercent);
+
+                    return {
+                        ...combo,
+                        discountPercent,
+                        totalDuration: combo.items.reduce((sum: number, item: any) => sum + item.duration.durationMinutes, 0),
+                        basePrice,
+                        comboPrice: Math.round(basePrice * (100 - discountPercent)) / 100,
+                    };
+                }),
+            },
+        });
+    });
+}
@@ -0,0 +1,177 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requireAuth } from '../../shared/middleware/auth.middleware.js';
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import { getPaymentProvider, PaymentProviderError } from '../../services/payment.service.js';
+import {
+    createGiftCertificate,
+    getCertificateShareLink,
+    getRedeemableCertificate,
+    GiftCertificateError,
+} from '../../services/gift-certificate.service.js';
+
+// Валідація запиту на купівлю сертифіката (межі суми — у налаштуваннях салону)
+const purchaseSchema = z.object({
+    amount: z.number().positive('Amount must be positive'),
+    recipientName: z.string().max(100).optional(),
+    message: z.string().max(500).optional(),
+});
+
+export async function giftCertificatesRoutes(app: FastifyInstance) {
+    /**
+     * POST /api/gift-certificates
+     * Купити подарунковий сертифікат: створює сертифікат і платіж, повертає посилання на оплату
+     */
+    app.post('/', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = purchaseSchema.safeParse(request.body);
+
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                    code: 'VALIDATION_ERROR',
+                },
+            });
+        }
+
+        const { userId } = request.user;
+
+        let certificate;
+        try {
+            certificate = await createGiftCertificate(userId, parseResult.data);
+        } catch (error) {
+            if (error instanceof GiftCertificateError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { language: true },
+        });
+
+        const payment = await prisma.payment.create({
+            data: {
+                giftCertificateId: certificate.id,
+                userId,
+                amount: certificate.amount,
+                type: 'certificate_purchase',
+                status: 'pending',
+            },
+        });
+
+        const webAppUrl = env.WEBAPP_URL.replace(/\/$/, '');
+
+        try {
+            const checkout = await getPaymentProvider().createCheckout({
+                orderId: payment.id,
+                amount: Number(certificate.amount),
+                description: `Подарунковий сертифікат ${certificate.code}`,
+                successUrl: `${webAppUrl}/gift-certificates?payment=success`,
+                failureUrl: `${webAppUrl}/gift-certificates?payment=failed`,
+                language: user?.language ?? 'uk',
+            });
+
+            await prisma.payment.update({
+                where: { id: payment.id },
+                data: { providerResponse: checkout.providerResponse as any },
+            });
+
+            return reply.status(201).send({
+                success: true,
+                data: {
+                    certificate: {
+                        id: certificate.id,
+                        amount: certificate.amount,
+                        expiresAt: certificate.expiresAt,
+                        status: certificate.status,
+                    },
+                    paymentId: payment.id,
+                    paymentUrl: checkout.paymentUrl,
+                },
+            });
+        } catch (error) {
+            console.error('Failed to create certificate checkout:', error);
+
+            await prisma.$transaction([
+                prisma.payment.update({ where: { id: payment.id }, data: { status: 'failed' } }),
+                prisma.giftCertificate.delete({ where: { id: certificate.id } }),
+            ]);
+
+            const message = error instanceof PaymentProviderError ? error.message : 'Payment provider is unavailable';
+            return reply.status(502).send({
+                success: false,
+                error: { message, code: 'PAYMENT_PROVIDER_ERROR' },
+            });
+        }
+    });
+
+    /**
+     * GET /api/gift-certificates/my
+     * Куплені мною сертифікати (код і посилання — лише для оплачених)
+     */
+    app.get('/my', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const { userId } = request.user;
+
+        const certificates = await prisma.giftCertificate.findMany({
+            where: { purchaserId: userId, status: { not: 'pending' } },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: {
+                certificates: certificates.map((certificate: any) => ({
+                    id: certificate.id,
+                    code: certificate.code,
+                    amount: certificate.amount,
+                    balance: certificate.balance,
+                    status: certificate.status,
+                    expiresAt: certificate.expiresAt,
+                    recipientName: certificate.recipientName,
+                    createdAt: certificate.createdAt,
+                    shareLink: certificate.status === 'active' ? getCertificateShareLink(certificate.code) : null,
+                })),
+            },
+        });
+    });
+
+    /**
+     * GET /api/gift-certificates/:code
+     * Перевірити сертифікат перед оплатою ним візиту
+     */
+    app.get<{ Params: { code: string } }>(
+        '/:code',
+        { preHandler: [requireAuth] },
+        async (request, reply) => {
+            try {
+                const certificate = await getRedeemableCertificate(request.params.code);
+
+                return reply.send({
+                    success: true,
+                    data: {
+                        certificate: {
+                            code: certificate.code,
+                            balance: certificate.balance,
+                            expiresAt: certificate.expiresAt,
+                        },
+                    },
+                });
+            } catch (error) {
+                if (error instanceof GiftCertificateError) {
+                    return reply.status(error.statusCode).send({
+                        success: false,
+                        error: { message: error.message, code: error.code },
+                    });
+                }
+                throw error;
+            }
+        }
+    );
+}
@@ -2,6 +2,19 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../../config/database.js';
 import { requireAuth } from '../../shared/middleware/auth.middleware.js';
+import { BookingStatusError, changeBookingStatus, MASTER_STATUSES } from '../../services/booking-status.service.js';
+import {
+    getWorkIntervals,
+    materializeMasterSchedule,
+    scheduleTemplateSchema,
+    toScheduleIntervalsData,
+    timeSchema,
+    toTemplateData,
+    workIntervalsSchema,
+    type WorkInterval,
+} from '../../services/schedule.service.js';
+import { getSetting } from '../../services/settings.service.js';
+import { addDaysToKey, getZonedParts, toDateKey, toDbDate } from '../../shared/utils/timezone.js';
 
 // Types for dashboard
 interface DashboardStats {
@@ -21,6 +34,7 @@ interface ScheduleDay {
     isDayOff: boolean;
     startTime: string | null;
     endTime: string | null;
+    intervals: WorkInterval[];
     bookings: {
         id: string;
         startTime: string;
@@ -48,12 +62,19 @@ const updateScheduleSchema = z.object({
     workDate: z.string(),
     startTime: z.string().optional(),
     endTime: z.string().optional(),
+    // Кілька робочих інтервалів (з перервами); якщо задано, startTime/endTime ігноруються
+    intervals: workIntervalsSchema.optional(),
     isDayOff: z.boolean().optional(),
 });
 
+// Час щоденного дайджесту (за часом салону); null — вимкнути
+const digestSettingsSchema = z.object({
+    dailyDigestTime: timeSchema.nullable(),
+});
+
 // Schema for updating booking status
 const updateBookingStatusSchema = z.object({
-    status: z.enum(['completed', 'no_show']),
+    status: z.enum(MASTER_STATUSES),
     notes: z.string().optional(),
 });
 
@@ -109,13 +130,11 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
             });
         }
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const weekStart = new Date(today);
-        weekStart.setDate(today.getDate() - today.getDay());
-
-        const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+        // "Сьогодні", тиждень і місяць — за календарем салону
+        const salonNow = getZonedParts(new Date(), await getSetting('salon_timezone'));
+        const today = toDbDate(salonNow.date);
+        const weekStart = toDbDate(addDaysToKey(salonNow.date, -salonNow.weekday));
+        const monthStart = toDbDate(`${salonNow.date.slice(0, 8)}01`);
 
         // Get booking counts
         const [todayBookings, weekBookings, monthBookings, totalClients, reviews] = await Promise.all([
@@ -147,9 +166,9 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
 
         // Calculate income
         const [todayIncome, weekIncome, monthIncome] = await Promise.all([
-            calculateIncome(masterId, today, new Date(today.getTime() + 24 * 60 * 60 * 1000)),
-            calculateIncome(masterId, weekStart, new Date(today.getTime() + 24 * 60 * 60 * 1000)),
-            calculateIncome(masterId, monthStart, new Date(today.getTime() + 24 * 60 * 60 * 1000)),
+            calculateIncome(masterId, today, today),
+            calculateIncome(masterId, weekStart, today),
+            calculateIncome(masterId, monthStart, today),
         ]);
 
         // Calculate average rating
@@ -208,8 +227,8 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
             });
         }
 
-        const start = new Date(startDate);
-        const end = endDate ? new Date(endDate) : new Date(start.getTime() + 24 * 60 * 60 * 1000);
+        const start = toDbDate(startDate);
+        const end = toDbDate(endDate ?? addDaysToKey(startDate, 1));
 
         // Get schedules for the period
         const schedules = await prisma.masterSchedule.findMany({
@@ -265,10 +284,9 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
 
         // Build schedule for each day in range
         const result: ScheduleDay[] = [];
-        const currentDate = new Date(start);
+        const endKey = toDateKey(end);
 
-        while (currentDate <= end) {
-            const dateKey = currentDate.toISOString().split('T')[0];
+        for (let dateKey = toDateKey(start); dateKey <= endKey; dateKey = addDaysToKey(dateKey, 1)) {
             const schedule = schedules.find((s: any) =>
                 s.workDate.toISOString().split('T')[0] === dateKey
             );
@@ -279,6 +297,7 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
                 isDayOff: schedule?.isDayOff || false,
                 startTime: schedule?.startTime || null,
                 endTime: schedule?.endTime || null,
+                intervals: schedule ? getWorkIntervals(schedule) : [],
                 bookings: dayBookings.map((b: any) => ({
                     id: b.id,
                     startTime: b.startTime,
@@ -292,8 +311,6 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
                     price: Number(b.totalPrice),
                 })),
             });
-
-            currentDate.setDate(currentDate.getDate() + 1);
         }
 
         return reply.send({
@@ -336,26 +353,28 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
             });
         }
 
-        const { workDate, startTime, endTime, isDayOff } = parseResult.data;
+        const { workDate, startTime, endTime, intervals, isDayOff } = parseResult.data;
+        const intervalsData = toScheduleIntervalsData(
+            intervals ?? [{ startTime: startTime || '09:00', endTime: endTime || '18:00' }]
+        );
 
         const schedule = await prisma.masterSchedule.upsert({
             where: {
                 masterId_workDate: {
                     masterId,
-                    workDate: new Date(workDate),
+                    workDate: toDbDate(workDate),
                 },
             },
             create: {
                 masterId,
-                workDate: new Date(workDate),
-                startTime: startTime || '09:00',
-                endTime: endTime || '18:00',
+                workDate: toDbDate(workDate),
+                ...intervalsData,
                 isDayOff: isDayOff || false,
             },
             update: {
-                startTime: startTime || '09:00',
-                endTime: endTime || '18:00',
+                ...intervalsData,
                 isDayOff: isDayOff || false,
+                isOverride: true,
             },
         });
 
@@ -366,14 +385,13 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
     });
 
     /**
-     * PATCH /api/master/bookings/:id/status
-     * Змінити статус бронювання
+     * DELETE /api/master/schedule/:workDate
+     * Скасувати ручне значення на день (день знову береться з шаблону)
      */
-    app.patch('/bookings/:id/status', async (request: FastifyRequest<{
-        Params: { id: string };
+    app.delete('/schedule/:workDate', async (request: FastifyRequest<{
+        Params: { workDate: string };
     }>, reply: FastifyReply) => {
         const user = request.user;
-        const { id: bookingId } = request.params;
 
         if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
             return reply.status(403).send({
@@ -390,19 +408,81 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
             });
         }
 
-        // Verify booking belongs to this master
-        const existingBooking = await prisma.booking.findFirst({
-            where: { id: bookingId, masterId },
+        const { count } = await prisma.masterSchedule.deleteMany({
+            where: { masterId, workDate: toDbDate(request.params.workDate) },
         });
 
-        if (!existingBooking) {
+        if (count === 0) {
             return reply.status(404).send({
                 success: false,
-                error: { message: 'Booking not found', code: 'NOT_FOUND' },
+                error: { message: 'Schedule not found', code: 'NOT_FOUND' },
             });
         }
 
-        const parseResult = updateBookingStatusSchema.safeParse(request.body);
+        await materializeMasterSchedule(masterId);
+
+        return reply.send({
+            success: true,
+            data: { message: 'Schedule override removed' },
+        });
+    });
+
+    /**
+     * GET /api/master/schedule-templates
+     * Тижневі шаблони розкладу
+     */
+    app.get('/schedule-templates', async (request: FastifyRequest, reply: FastifyReply) => {
+        const user = request.user;
+
+        if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Access denied. Master role required.', code: 'FORBIDDEN' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const templates = await prisma.masterScheduleTemplate.findMany({
+            where: { masterId },
+            orderBy: { effectiveFrom: 'asc' },
+        });
+
+        return reply.send({
+            success: true,
+            data: { templates },
+        });
+    });
+
+    /**
+     * POST /api/master/schedule-templates
+     * Створити тижневий шаблон розкладу
+     */
+    app.post('/schedule-templates', async (request: FastifyRequest, reply: FastifyReply) => {
+        const user = request.user;
+
+        if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Access denied. Master role required.', code: 'FORBIDDEN' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const parseResult = scheduleTemplateSchema.safeParse(request.body);
 
         if (!parseResult.success) {
             return reply.status(400).send({
@@ -414,29 +494,250 @@ export async function masterDashboardRoutes(app: FastifyInstance) {
             });
         }
 
-        const { status, notes } = parseResult.data;
+        const template = await prisma.masterScheduleTemplate.create({
+            data: { masterId, ...toTemplateData(parseResult.data) },
+        });
 
-        const booking = await prisma.booking.update({
-            where: { id: bookingId },
-            data: {
-                status,
-                adminNotes: notes ? `${existingBooking.adminNotes || ''}\n${notes}` : existingBooking.adminNotes,
-            },
-            include: {
-                user: { select: { firstName: true, lastName: true, telegramId: true } },
-                master: { select: { displayName: true } },
-                items: { include: { service: true } },
-            },
+        await materializeMasterSchedule(masterId);
+
+        return reply.status(201).send({
+            success: true,
+            data: { template },
+        });
+    });
+
+    /**
+     * PUT /api/master/schedule-templates/:id
+     * Оновити тижневий шаблон розкладу
+     */
+    app.put('/schedule-templates/:id', async (request: FastifyRequest<{
+        Params: { id: string };
+    }>, reply: FastifyReply) => {
+        const user = request.user;
+
+        if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Access denied. Master role required.', code: 'FORBIDDEN' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const parseResult = scheduleTemplateSchema.safeParse(request.body);
+
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid data',
+                    code: 'VALIDATION_ERROR',
+                },
+            });
+        }
+
+        const { count } = await prisma.masterScheduleTemplate.updateMany({
+            where: { id: request.params.id, masterId },
+            data: toTemplateData(parseResult.data),
         });
 
-        // TODO: Send notification to client about status change
+        if (count === 0) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Schedule template not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await materializeMasterSchedule(masterId);
+
+        const template = await prisma.masterScheduleTemplate.findUnique({ where: { id: request.params.id } });
 
         return reply.send({
             success: true,
-            data: { booking },
+            data: { template },
         });
     });
 
+    /**
+     * DELETE /api/master/schedule-templates/:id
+     * Видалити тижневий шаблон розкладу
+     */
+    app.delete('/schedule-templates/:id', async (request: FastifyRequest<{
+        Params: { id: string };
+    }>, reply: FastifyReply) => {
+        const user = request.user;
+
+        if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Access denied. Master role required.', code: 'FORBIDDEN' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const { count } = await prisma.masterScheduleTemplate.deleteMany({
+            where: { id: request.params.id, masterId },
+        });
+
+        if (count === 0) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Schedule template not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        await materializeMasterSchedule(masterId);
+
+        return reply.send({
+            success: true,
+            data: { message: 'Schedule template deleted' },
+        });
+    });
+
+    /**
+     * GET /api/master/digest-settings
+     * Налаштування щоденного дайджесту розкладу в Telegram
+     */
+    app.get('/digest-settings', async (request: FastifyRequest, reply: FastifyReply) => {
+        const master = await prisma.master.findUnique({
+            where: { userId: request.user.userId },
+            select: { dailyDigestTime: true },
+        });
+
+        if (!master) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        return reply.send({
+            success: true,
+            data: { dailyDigestTime: master.dailyDigestTime },
+        });
+    });
+
+    /**
+     * PUT /api/master/digest-settings
+     * Змінити час дайджесту розкладу на завтра (або вимкнути його)
+     */
+    app.put('/digest-settings', async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = digestSettingsSchema.safeParse(request.body);
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: parseResult.error.errors[0]?.message, code: 'VALIDATION_ERROR' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(request.user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const master = await prisma.master.update({
+            where: { id: masterId },
+            data: { dailyDigestTime: parseResult.data.dailyDigestTime },
+            select: { dailyDigestTime: true },
+        });
+
+        return reply.send({
+            success: true,
+            data: { dailyDigestTime: master.dailyDigestTime },
+        });
+    });
+
+    /**
+     * PATCH /api/master/bookings/:id/status
+     * Змінити статус бронювання
+     */
+    app.patch('/bookings/:id/status', async (request: FastifyRequest<{
+        Params: { id: string };
+    }>, reply: FastifyReply) => {
+        const user = request.user;
+        const { id: bookingId } = request.params;
+
+        if (user.role !== 'master' && user.role !== 'admin' && user.role !== 'owner') {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Access denied. Master role required.', code: 'FORBIDDEN' },
+            });
+        }
+
+        const masterId = await getMasterIdFromUser(user.userId);
+        if (!masterId) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Master profile not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        const parseResult = updateBookingStatusSchema.safeParse(request.body);
+
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid data',
+                    code: 'VALIDATION_ERROR',
+                },
+            });
+        }
+
+        const { status, notes } = parseResult.data;
+
+        // Verify booking belongs to this master
+        const existingBooking = await prisma.booking.findFirst({
+            where: { id: bookingId, masterId },
+        });
+
+        if (!existingBooking) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Booking not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        try {
+            // Клієнт отримує сповіщення про підтвердження чи відхилення запиту
+            const { booking, refund } = await changeBookingStatus(bookingId, status, {
+                actor: 'master',
+                masterId,
+                cancelReason: status === 'cancelled_by_admin' ? notes : undefined,
+                adminNotes: notes ? `${existingBooking.adminNotes || ''}\n${notes}` : undefined,
+            });
+
+            return reply.send({
+                success: true,
+                data: { booking, refund },
+            });
+        } catch (error) {
+            if (error instanceof BookingStatusError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
+    });
+
     /**
      * GET /api/master/clients
      * Список клієнтів майстра
@@ -2,6 +2,8 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { requireAuth } from '../../shared/middleware/auth.middleware.js';
 import { getUserNotifications, sendTestNotification } from '../../services/notification.service.js';
 import { process24HourReminders, process2HourReminders, processReviewRequests } from '../../queues/workers.js';
+import { materializeAllSchedules } from '../../services/schedule.service.js';
+import { processMasterDigests } from '../../services/master-digest.service.js';
 
 /**
  * Роут для cron задач (захищений API ключем)
@@ -57,6 +59,52 @@ export async function cronRoutes(app: FastifyInstance) {
             });
         }
     });
+
+    /**
+     * POST /api/cron/schedules
+     * Розгорнути шаблони розкладу майстрів на наступні тижні (раз на добу)
+     */
+    app.post('/schedules', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const count = await materializeAllSchedules();
+
+            return reply.send({
+                success: true,
+                data: {
+                    schedule_days_created: count,
+                },
+            });
+        } catch (error) {
+            console.error('Error materializing schedules:', error);
+            return reply.status(500).send({
+                success: false,
+                error: { message: 'Failed to materialize schedules', code: 'INTERNAL_ERROR' },
+            });
+        }
+    });
+
+    /**
+     * POST /api/cron/digests
+     * Надіслати дайджести розкладу на завтра майстрам, у яких настав час (зазвичай — повторюване завдання черги)
+     */
+    app.post('/digests', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const count = await processMasterDigests();
+
+            return reply.send({
+                success: true,
+                data: {
+                    digests_sent: count,
+                },
+            });
+        } catch (error) {
+            console.error('Error sending schedule digests:', error);
+            return reply.status(500).send({
+                success: false,
+                error: { message: 'Failed to send schedule digests', code: 'INTERNAL_ERROR' },
+            });
+        }
+    });
 }
 
 /**
@@ -0,0 +1,315 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requireAuth } from '../../shared/middleware/auth.middleware.js';
+import { prisma } from '../../config/database.js';
+import { env } from '../../config/env.js';
+import {
+    getPaymentProvider,
+    calculateDepositAmount,
+    PaymentSignatureError,
+    PaymentProviderError,
+} from '../../services/payment.service.js';
+import { refundPayment } from '../../services/cancellation.service.js';
+import { sendGiftCertificate } from '../../services/gift-certificate.service.js';
+import { getSetting } from '../../services/settings.service.js';
+import { addDepositHoldExpiryJob } from '../../queues/notification.queue.js';
+
+// Валідація запиту на оплату передоплати
+const checkoutSchema = z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+});
+
+// Статуси, з яких можна перейти до оплати передоплати
+const PAYABLE_STATUSES = ['pending_confirmation', 'confirmed', 'deposit_pending'];
+
+export async function paymentsRoutes(app: FastifyInstance) {
+    /**
+     * POST /api/payments/checkout
+     * Створити платіж передоплати та отримати посилання на сторінку Portmone
+     */
+    app.post('/checkout', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = checkoutSchema.safeParse(request.body);
+
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                    code: 'VALIDATION_ERROR',
+                },
+            });
+        }
+
+        const { bookingId } = parseResult.data;
+        const { userId } = request.user;
+
+        const booking = await prisma.booking.findUnique({
+            where: { id: bookingId },
+            include: {
+                user: { select: { language: true } },
+                payments: { where: { type: { in: ['deposit', 'certificate_redemption'] }, status: 'success' } },
+                group: { select: { totalPrice: true } },
+            },
+        });
+
+        if (!booking) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Booking not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        if (booking.userId !== userId) {
+            return reply.status(403).send({
+                success: false,
+                error: { message: 'Not authorized', code: 'FORBIDDEN' },
+            });
+        }
+
+        // Групове бронювання оплачується одним платежем за спільною ціною групи
+        const partnerBookings = booking.groupId
+            ? await prisma.booking.findMany({
+                where: { groupId: booking.groupId, id: { not: bookingId } },
+                include: { payments: { where: { type: 'deposit', status: 'success' } } },
+            })
+            : [];
+
+        const isDepositPaid = [booking, ...partnerBookings].some((b: any) =>
+            b.payments.some((p: any) => p.type === 'deposit')
+        );
+
+        if (isDepositPaid) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Deposit is already paid', code: 'ALREADY_PAID' },
+            });
+        }
+
+        if (!PAYABLE_STATUSES.includes(booking.status)) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Booking cannot be paid in its current status', code: 'INVALID_OPERATION' },
+            });
+        }
+
+        const depositPercent = booking.depositPercent !== null
+            ? Number(booking.depositPercent)
+            : await getSetting('deposit_percent');
+        // Частину, оплачену подарунковим сертифікатом, передоплатою не покриваємо
+        const certificatePaid = booking.payments
+            .filter((p: any) => p.type === 'certificate_redemption')
+            .reduce((sum: number, p: any) => sum + Number(p.amount), 0);
+        const amountDue = Math.max(Number(booking.group?.totalPrice ?? booking.totalPrice) - certificatePaid, 0);
+        const depositAmount = booking.depositAmount !== null
+            ? Number(booking.depositAmount)
+            : calculateDepositAmount(amountDue, depositPercent);
+
+        if (depositAmount <= 0) {
+            return reply.status(400).send({
+                success: false,
+                error: { message: 'Nothing to pay for this booking', code: 'INVALID_OPERATION' },
+            });
+        }
+
+        // Платіж створюється одразу, його id передається провайдеру як номер замовлення
+        const payment = await prisma.payment.create({
+            data: {
+                bookingId,
+                userId,
+                amount: depositAmount,
+                type: 'deposit',
+                status: 'pending',
+            },
+        });
+
+        const webAppUrl = env.WEBAPP_URL.replace(/\/$/, '');
+
+        try {
+            const checkout = await getPaymentProvider().createCheckout({
+                orderId: payment.id,
+                amount: depositAmount,
+                description: `Передоплата за запис ${booking.bookingDate.toISOString().split('T')[0]} ${booking.startTime}`,
+                successUrl: `${webAppUrl}/profile?payment=success`,
+                failureUrl: `${webAppUrl}/profile?payment=failed`,
+                language: booking.user.language,
+            });
+
+            await prisma.$transaction([
+                prisma.payment.update({
+                    where: { id: payment.id },
+                    data: { providerResponse: checkout.providerResponse as any },
+                }),
+                prisma.booking.update({
+                    where: { id: bookingId },
+                    data: {
+                        status: 'deposit_pending',
+                        depositAmount,
+                        depositPercent,
+                    },
+                }),
+                prisma.booking.updateMany({
+                    where: {
+                        id: { in: partnerBookings.map((b: any) => b.id) },
+                        status: { in: PAYABLE_STATUSES as any },
+                    },
+                    data: { status: 'deposit_pending' },
+                }),
+            ]);
+
+            // Якщо передоплату не внесуть вчасно — слот звільниться автоматично
+            const holdMinutes = await getSetting('deposit_hold_minutes');
+            addDepositHoldExpiryJob(bookingId, { delay: holdMinutes * 60 * 1000 })
+                .catch(err => console.error('Failed to schedule deposit hold expiry:', err));
+
+            return reply.status(201).send({
+                success: true,
+                data: {
+                    paymentId: payment.id,
+                    amount: depositAmount,
+                    paymentUrl: checkout.paymentUrl,
+                },
+            });
+        } catch (error) {
+            console.error('Failed to create checkout:', error);
+
+            await prisma.payment.update({
+                where: { id: payment.id },
+                data: { status: 'failed' },
+            });
+
+            const message = error instanceof PaymentProviderError ? error.message : 'Payment provider is unavailable';
+            return reply.status(502).send({
+                success: false,
+                error: { message, code: 'PAYMENT_PROVIDER_ERROR' },
+            });
+        }
+    });
+
+    /**
+     * POST /api/payments/callback
+     * Callback від платіжного шлюзу (публічний, захищений підписом)
+     */
+    app.post('/callback', async (request: FastifyRequest, reply: FastifyReply) => {
+        let result;
+
+        try {
+            result = await getPaymentProvider().parseCallback(request.body);
+        } catch (error) {
+            if (error instanceof PaymentSignatureError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: { message: error.message, code: 'INVALID_SIGNATURE' },
+                });
+            }
+            // Шлюз повторить callback, коли статус можна буде перевірити
+            if (error instanceof PaymentProviderError) {
+                return reply.status(502).send({
+                    success: false,
+                    error: { message: error.message, code: 'PAYMENT_PROVIDER_ERROR' },
+                });
+            }
+            throw error;
+        }
+
+        const payment = await prisma.payment.findUnique({
+            where: { id: result.orderId },
+            include: {
+                booking: { select: { groupId: true } },
+                giftCertificate: true,
+            },
+        });
+
+        if (!payment) {
+            return reply.status(404).send({
+                success: false,
+                error: { message: 'Payment not found', code: 'NOT_FOUND' },
+            });
+        }
+
+        // Повторний callback для вже обробленого платежу
+        if (payment.status !== 'pending') {
+            return reply.send({
+                success: true,
+                data: { paymentId: payment.id, status: payment.status },
+            });
+        }
+
+        const amountMatches = Math.abs(Number(payment.amount) - result.amount) < 0.01;
+        const isPaid = result.isSuccess && amountMatches;
+
+        if (result.isSuccess && !amountMatches) {
+            console.error(`Payment ${payment.id} amount mismatch: expected ${payment.amount}, got ${result.amount}`);
+        }
+
+        const outcome = await prisma.$transaction(async (tx: any) => {
+            // Умовне оновлення: з двох одночасних callback (повтори шлюзу) платіж застосовує лише один
+            const { count: claimed } = await tx.payment.updateMany({
+                where: { id: payment.id, status: 'pending' },
+                data: {
+                    status: isPaid ? 'success' : 'failed',
+                    providerTxId: result.providerTxId,
+                    providerResponse: result.raw,
+                },
+            });
+
+            if (claimed === 0) {
+                return null;
+            }
+
+            const updated = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+
+            if (isPaid && payment.type === 'deposit') {
+                // Передоплата групи підтверджує всіх її учасників
+                const groupId = payment.booking?.groupId;
+                const { count } = await tx.booking.updateMany({
+                    where: {
+                        ...(groupId ? { groupId } : { id: payment.bookingId }),
+                        status: { in: PAYABLE_STATUSES },
+                    },
+                    data: { status: 'deposit_paid' },
+                });
+
+                return { updatedPayment: updated, isApplied: count > 0 };
+            }
+
+            if (isPaid && payment.type === 'certificate_purchase') {
+                // Сертифікат могли анулювати, поки клієнт платив
+                const { count } = await tx.giftCertificate.updateMany({
+                    where: { id: payment.giftCertificateId, status: 'pending' },
+                    data: { status: 'active' },
+                });
+
+                return { updatedPayment: updated, isApplied: count > 0 };
+            }
+
+            return { updatedPayment: updated, isApplied: true };
+        });
+
+        // Паралельний callback уже обробив цей платіж
+        if (!outcome) {
+            const current = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+            return reply.send({
+                success: true,
+                data: { paymentId: current.id, status: current.status },
+            });
+        }
+
+        const { updatedPayment, isApplied } = outcome;
+
+        // Оплата прийшла після скасування (наприклад, утримання слоту вже минуло) — повертаємо кошти
+        if (isPaid && !isApplied) {
+            console.warn(`Payment ${payment.id} arrived for a booking or certificate that is no longer payable, refunding`);
+            refundPayment(updatedPayment).catch(err => console.error('Failed to refund late payment:', err));
+        }
+
+        if (isPaid && isApplied && payment.giftCertificate && payment.type === 'certificate_purchase') {
+            sendGiftCertificate(payment.giftCertificate)
+                .catch(err => console.error('Failed to send gift certificate:', err));
+        }
+
+        return reply.send({
+            success: true,
+            data: { paymentId: updatedPayment.id, status: updatedPayment.status },
+        });
+    });
+}
@@ -1,6 +1,9 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { requireAuth } from '../../shared/middleware/auth.middleware.js';
 import { prisma } from '../../config/database.js';
+import { getSetting } from '../../services/settings.service.js';
+import { getActivePackages } from '../../services/package.service.js';
+import { getReferralStats } from '../../services/referral.service.js';
 import { z } from 'zod';
 
 const updateProfileSchema = z.object({
@@ -13,7 +16,7 @@ const updateProfileSchema = z.object({
 export async function profileRoutes(app: FastifyInstance) {
     /**
      * GET /api/profile
-     * Отримати профіль поточного користувача
+     * Отримати профіль поточного користувача з балансами пакетів сеансів і реферальною статистикою
      */
     app.get('/', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { userId } = request.user;
@@ -41,6 +44,11 @@ export async function profileRoutes(app: FastifyInstance) {
             });
         }
 
+        const [packages, referral] = await Promise.all([
+            getActivePackages(userId),
+            getReferralStats(userId),
+        ]);
+
         return reply.send({
             success: true,
             data: {
@@ -48,6 +56,17 @@ export async function profileRoutes(app: FastifyInstance) {
                     ...user,
                     telegramId: Number(user.telegramId),
                 },
+                packages: packages.map((userPackage: any) => ({
+                    id: userPackage.id,
+                    name: userPackage.package.name,
+                    service: userPackage.package.service,
+                    durationId: userPackage.package.duration.id,
+                    durationMinutes: userPackage.package.duration.durationMinutes,
+                    sessionsTotal: userPackage.sessionsTotal,
+                    sessionsRemaining: userPackage.sessionsRemaining,
+                    expiresAt: userPackage.expiresAt,
+                })),
+                referral,
             },
         });
     });
@@ -94,7 +113,7 @@ export async function profileRoutes(app: FastifyInstance) {
     app.get('/loyalty', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
         const { userId } = request.user;
 
-        const [stamps, settings] = await Promise.all([
+        const [stamps, settings, defaultStampsForReward] = await Promise.all([
             prisma.loyaltyStamp.findMany({
                 where: { userId },
                 orderBy: { createdAt: 'desc' },
@@ -102,9 +121,10 @@ export async function profileRoutes(app: FastifyInstance) {
             prisma.loyaltySettings.findFirst({
                 where: { isActive: true },
             }),
+            getSetting('loyalty_default_stamps_for_reward'),
         ]);
 
-        const stampsForReward = settings?.stampsForReward ?? 10;
+        const stampsForReward = settings?.stampsForReward ?? defaultStampsForReward;
         const currentStamps = stampsForReward > 0
             ? stamps.filter((s: any) => !s.isReward).length % stampsForReward
             : stamps.filter((s: any) => !s.isReward).length;
@@ -114,7 +134,7 @@ export async function profileRoutes(app: FastifyInstance) {
             success: true,
             data: {
                 currentStamps,
-                stampsForReward: settings?.stampsForReward ?? 10,
+                stampsForReward,
                 totalRewards,
                 stamps,
             },
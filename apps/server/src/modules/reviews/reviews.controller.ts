@@ -1,5 +1,15 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requireAuth } from '../../shared/middleware/auth.middleware.js';
 import { prisma } from '../../config/database.js';
+import { createReview, ReviewError } from '../../services/review.service.js';
+
+// Валідація тіла запиту створення відгуку
+const createReviewSchema = z.object({
+    bookingId: z.string().uuid('Invalid booking ID'),
+    rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+    comment: z.string().max(2000, 'Comment is too long').optional(),
+});
 
 export async function reviewsRoutes(app: FastifyInstance) {
     /**
@@ -26,4 +36,42 @@ export async function reviewsRoutes(app: FastifyInstance) {
             data: { reviews },
         });
     });
+
+    /**
+     * POST /api/reviews
+     * Залишити відгук за завершеним візитом (публікується після модерації)
+     */
+    app.post('/', { preHandler: [requireAuth] }, async (request: FastifyRequest, reply: FastifyReply) => {
+        const parseResult = createReviewSchema.safeParse(request.body);
+
+        if (!parseResult.success) {
+            return reply.status(400).send({
+                success: false,
+                error: {
+                    message: parseResult.error.errors[0]?.message || 'Invalid request body',
+                    code: 'VALIDATION_ERROR',
+                },
+            });
+        }
+
+        try {
+            const review = await createReview({
+                userId: request.user.userId,
+                ...parseResult.data,
+            });
+
+            return reply.status(201).send({
+                success: true,
+                data: { review },
+            });
+        } catch (error) {
+            if (error instanceof ReviewError) {
+                return reply.status(error.statusCode).send({
+                    success: false,
+                    error: { message: error.message, code: error.code },
+                });
+            }
+            throw error;
+        }
+    });
 }
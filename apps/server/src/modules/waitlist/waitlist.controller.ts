@@ -3,7 +3,10 @@ import { z } from 'zod';
 import { requireAuth } from '../../shared/middleware/auth.middleware.js';
 import { prisma } from '../../config/database.js';
 import { sendNotification } from '../../services/notification.service.js';
-import { format } from 'date-fns';
+import { getRequiredResourceIds } from '../../services/resource.service.js';
+import { assertSlotAvailable, BookingConflictError, withSlotLock } from '../../services/booking.service.js';
+import { escapeHtml, localizedName } from '../../shared/utils/message-templates.js';
+import { formatDbDate, toDbDate } from '../../shared/utils/timezone.js';
 
 // Валідація тіла запиту додавання в waitlist
 const addToWaitlistSchema = z.object({
@@ -64,7 +67,7 @@ export async function waitlistRoutes(app: FastifyInstance) {
                     userId,
                     serviceId,
                     masterId: masterId || null,
-                    preferredDate: new Date(preferredDate),
+                    preferredDate: toDbDate(preferredDate),
                     status: {
                         in: ['active', 'notified'],
                     },
@@ -87,7 +90,7 @@ export async function waitlistRoutes(app: FastifyInstance) {
                     userId,
                     serviceId,
                     masterId: masterId || null,
-                    preferredDate: new Date(preferredDate),
+                    preferredDate: toDbDate(preferredDate),
                     preferredStart: preferredStart || null,
                     preferredEnd: preferredEnd || null,
                     status: 'active',
@@ -244,36 +247,10 @@ export async function waitlistRoutes(app: FastifyInstance) {
                 });
             }
 
-            // Перевірка слоту на доступність
-            const bookingDateObj = new Date(bookingDate);
-            const existingBookings = await prisma.booking.findMany({
-                where: {
-                    masterId,
-                    bookingDate: bookingDateObj,
-                    status: {
-                        notIn: ['cancelled_by_client', 'cancelled_by_admin'],
-                    },
-                },
-                select: { startTime: true, endTime: true },
-            });
-
-            // Проста перевірка (без генерації слотів)
-            const isSlotAvailable = !existingBookings.some((booking: any) => {
-                return (
-                    (startTime >= booking.startTime && startTime < booking.endTime) ||
-                    (booking.startTime >= startTime && booking.startTime < booking.endTime)
-                );
-            });
-
-            if (!isSlotAvailable) {
-                return reply.status(409).send({
-                    success: false,
-                    error: { message: 'Time slot is no longer available', code: 'SLOT_UNAVAILABLE' },
-                });
-            }
+            const bookingDateObj = toDbDate(bookingDate);
 
             // Розрахунок тривалості та ціни
-            const itemsWithPrices = [];
+            const itemsWithPrices: { serviceId: string; durationId: string; price: number; sortOrder: number }[] = [];
             let totalDuration = 0;
             let totalPrice = 0;
 
@@ -296,12 +273,15 @@ export async function waitlistRoutes(app: FastifyInstance) {
 
             // Розрахунок часу закінчення
             const [hours, minutes] = startTime.split(':').map(Number);
-            const endDate = new Date(bookingDateObj);
-            endDate.setHours(hours + Math.floor((minutes + totalDuration) / 60), (minutes + totalDuration) % 60);
-            const endTime = `${String(endDate.getHours()).padStart(2, '0')}:${String(endDate.getMinutes()).padStart(2, '0')}`;
+            const endMinutes = hours * 60 + minutes + totalDuration;
+            const endTime = `${String(Math.floor(endMinutes / 60)).padStart(2, '0')}:${String(endMinutes % 60).padStart(2, '0')}`;
 
-            // Створення бронювання
-            const booking = await prisma.booking.create({
+            // Кімнати й обладнання, потрібні послугам, резервуються разом з майстром
+            const resourceIds = await getRequiredResourceIds(itemsWithPrices.map((item) => item.serviceId));
+            const slot = { masterId, bookingDate: bookingDateObj, startTime, endTime, resourceIds };
+
+            // Створення бронювання (перевірка та вставка під локом слоту)
+            const createBookingRecord = () => prisma.booking.create({
                 data: {
                     userId,
                     masterId,
@@ -313,6 +293,9 @@ export async function waitlistRoutes(app: FastifyInstance) {
                     items: {
                         create: itemsWithPrices,
                     },
+                    resources: {
+                        create: resourceIds.map((resourceId) => ({ resourceId })),
+                    },
                 },
                 include: {
                     items: {
@@ -326,6 +309,22 @@ export async function waitlistRoutes(app: FastifyInstance) {
                 },
             });
 
+            let booking: any;
+            try {
+                booking = await withSlotLock(slot, async () => {
+                    await assertSlotAvailable(slot);
+                    return createBookingRecord();
+                });
+            } catch (error) {
+                if (error instanceof BookingConflictError) {
+                    return reply.status(error.statusCode).send({
+                        success: false,
+                        error: { message: error.message, code: error.code },
+                    });
+                }
+                throw error;
+            }
+
             // Оновлення статусу waitlist
             await prisma.waitlist.update({
                 where: { id },
@@ -344,10 +343,10 @@ export async function waitlistRoutes(app: FastifyInstance) {
                 type: 'booking_confirmed',
                 language: user?.language,
                 params: {
-                    master_name: (master?.displayName as any)?.uk || 'майстер',
-                    date: format(bookingDateObj, 'dd.MM.yyyy'),
+                    master_name: escapeHtml(localizedName(master?.displayName, 'uk') || 'майстер'),
+                    date: formatDbDate(bookingDateObj),
                     time: startTime,
-                    service_name: (service?.name as any)?.uk || 'послуга',
+                    service_name: escapeHtml(localizedName(service?.name, 'uk') || 'послуга'),
                 },
             });
 
@@ -413,10 +412,10 @@ export async function checkWaitlistAndNotify(
         type: 'waitlist_available',
         language: waitlistEntry.user.language,
         params: {
-            service_name: (waitlistEntry.service?.name as any)?.uk || 'послуга',
-            date: format(bookingDate, 'dd.MM.yyyy'),
+            service_name: escapeHtml(localizedName(waitlistEntry.service?.name, 'uk') || 'послуга'),
+            date: formatDbDate(bookingDate),
             time: startTime,
-            master_name: (waitlistEntry.master?.displayName as any)?.uk || 'майстер',
+            master_name: escapeHtml(localizedName(waitlistEntry.master?.displayName, 'uk') || 'майстер'),
         },
     });
 }
@@ -10,6 +10,7 @@ export const QUEUE_NAMES = {
     REMINDERS: 'reminders',
     REVIEWS: 'reviews',
     SCHEDULES: 'schedules',
+    HOLDS: 'holds',
 } as const;
 
 /**
@@ -21,6 +22,7 @@ export const JOB_TYPES = {
     REMINDER_2H: 'reminder-2h',
     REVIEW_REQUEST: 'review-request',
     DAILY_SCHEDULE: 'daily-schedule',
+    EXPIRE_DEPOSIT_HOLD: 'expire-deposit-hold',
 } as const;
 
 /**
@@ -133,6 +135,28 @@ export const scheduleQueue = new Queue(QUEUE_NAMES.SCHEDULES, {
     },
 });
 
+/**
+ * Конфігурація черги утримання слотів (неоплачені передоплати)
+ */
+export const holdQueue = new Queue(QUEUE_NAMES.HOLDS, {
+    connection: redisConnection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 5000,
+        },
+        removeOnComplete: {
+            count: 200,
+            age: 24 * 3600,
+        },
+        removeOnFail: {
+            count: 500,
+            age: 7 * 24 * 3600,
+        },
+    },
+});
+
 /**
  * Події черг для логування
  */
@@ -225,6 +249,41 @@ export async function addReviewRequestJob(
     );
 }
 
+/**
+ * Запланувати звільнення слоту, якщо передоплату не внесено вчасно.
+ * jobId за бронюванням: повторний checkout не продовжує утримання.
+ */
+export async function addDepositHoldExpiryJob(
+    bookingId: string,
+    options: {
+        delay: number;
+    }
+) {
+    return await holdQueue.add(
+        JOB_TYPES.EXPIRE_DEPOSIT_HOLD,
+        { bookingId },
+        {
+            jobId: `${JOB_TYPES.EXPIRE_DEPOSIT_HOLD}-${bookingId}`,
+            priority: JOB_PRIORITIES.HIGH,
+            delay: options.delay,
+        }
+    );
+}
+
+// Як часто перевіряти, чи настав час дайджесту якогось майстра
+const DAILY_SCHEDULE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Зареєструвати повторюване завдання щоденних дайджестів майстрів (ідемпотентно, при кожному старті)
+ */
+export async function scheduleDailyDigestJob() {
+    return await scheduleQueue.upsertJobScheduler(
+        JOB_TYPES.DAILY_SCHEDULE,
+        { every: DAILY_SCHEDULE_CHECK_INTERVAL_MS },
+        { name: JOB_TYPES.DAILY_SCHEDULE }
+    );
+}
+
 /**
  * Закрити всі з'єднання черг
  */
@@ -233,5 +292,6 @@ export async function closeQueues() {
     await reminderQueue.close();
     await reviewQueue.close();
     await scheduleQueue.close();
+    await holdQueue.close();
     console.log('✅ All queues closed');
 }
@@ -1,9 +1,20 @@
 import { Worker, Job, ConnectionOptions } from 'bullmq';
 import { Redis } from 'ioredis';
 import { env } from '../config/env.js';
-import { sendNotification, scheduleNotification } from '../services/notification.service.js';
+import { sendNotification, scheduleNotification, cancelScheduledNotifications } from '../services/notification.service.js';
+import { DEPOSIT_EXPIRED_REASON, refundPayment } from '../services/cancellation.service.js';
+import { restorePackageSession } from '../services/package.service.js';
+import { releasePromoRedemption } from '../services/promo.service.js';
+import { processMasterDigests } from '../services/master-digest.service.js';
+import { postStaffBookingEvent } from '../services/staff-feed.service.js';
+import { getBookingMessageParams } from '../services/booking-status.service.js';
+import { getSetting } from '../services/settings.service.js';
+import { checkWaitlistAndNotify } from '../modules/waitlist/waitlist.controller.js';
+import { buildReviewKeyboard } from '../bot/bot.js';
 import { prisma } from '../config/database.js';
-import { format, addHours, subHours } from 'date-fns';
+import { escapeHtml, localizedName } from '../shared/utils/message-templates.js';
+import { bookingTimeWindowWhere, formatDbDate } from '../shared/utils/timezone.js';
+import { addHours, subHours } from 'date-fns';
 
 /**
  * Отримати Redis з'єднання для воркерів
@@ -113,6 +124,7 @@ export const reviewWorker = new Worker<NotificationJobData>(
             userId,
             bookingId,
             params,
+            replyMarkup: bookingId ? buildReviewKeyboard(bookingId) : undefined,
         });
     },
     {
@@ -121,24 +133,150 @@ export const reviewWorker = new Worker<NotificationJobData>(
     }
 );
 
+/**
+ * Воркер для звільнення слотів з неоплаченою передоплатою
+ */
+export const holdWorker = new Worker<{ bookingId: string }>(
+    'holds',
+    async (job: Job<{ bookingId: string }>) => {
+        console.log(`Processing deposit hold job: ${job.id}`);
+
+        await expireDepositHold(job.data.bookingId);
+    },
+    {
+        connection: redisConnection,
+        concurrency: 5,
+    }
+);
+
+/**
+ * Воркер для щоденних дайджестів розкладу майстрів
+ */
+export const scheduleWorker = new Worker(
+    'schedules',
+    async (job: Job) => {
+        console.log(`Processing daily schedule job: ${job.id}`);
+
+        await processMasterDigests();
+    },
+    {
+        connection: redisConnection,
+        concurrency: 1,
+    }
+);
+
+/**
+ * Скасувати бронювання, якщо воно досі чекає на передоплату.
+ * Повертає true, якщо слот звільнено.
+ */
+export async function expireDepositHold(bookingId: string): Promise<boolean> {
+    // Умовне оновлення: якщо callback оплати встиг раніше, статус уже deposit_paid
+    const { count } = await prisma.booking.updateMany({
+        where: { id: bookingId, status: 'deposit_pending' },
+        data: {
+            status: 'cancelled_by_admin',
+            cancelReason: DEPOSIT_EXPIRED_REASON,
+        },
+    });
+
+    if (count === 0) {
+        console.log(`Booking ${bookingId} is no longer awaiting deposit, skipping`);
+        return false;
+    }
+
+    await prisma.payment.updateMany({
+        where: { bookingId, type: 'deposit', status: 'pending' },
+        data: { status: 'failed' },
+    });
+
+    // Частина, вже оплачена сертифікатом, сеанс пакета та використання промокоду повертаються повністю
+    const certificatePayments = await prisma.payment.findMany({
+        where: { bookingId, type: 'certificate_redemption', status: 'success' },
+    });
+    for (const payment of certificatePayments) {
+        await refundPayment(payment);
+    }
+    await restorePackageSession(bookingId);
+    await releasePromoRedemption(bookingId);
+
+    await cancelScheduledNotifications(bookingId);
+
+    const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+            user: { select: { id: true, language: true, firstName: true } },
+            items: { select: { serviceId: true } },
+        },
+    });
+
+    if (!booking) {
+        return true;
+    }
+
+    await sendNotification({
+        type: 'booking_cancelled',
+        userId: booking.user.id,
+        bookingId: booking.id,
+        language: booking.user.language,
+        params: {
+            client_name: escapeHtml(booking.user.firstName || ''),
+            date: formatDbDate(booking.bookingDate),
+            time: booking.startTime,
+        },
+    });
+
+    // Інші учасники групи чекали на ту саму спільну передоплату
+    const partners = booking.groupId
+        ? await prisma.booking.findMany({
+            where: { groupId: booking.groupId, id: { not: bookingId }, status: 'deposit_pending' },
+            include: { items: { select: { serviceId: true } } },
+        })
+        : [];
+
+    if (partners.length > 0) {
+        await prisma.booking.updateMany({
+            where: { id: { in: partners.map((partner: any) => partner.id) }, status: 'deposit_pending' },
+            data: {
+                status: 'cancelled_by_admin',
+                cancelReason: DEPOSIT_EXPIRED_REASON,
+            },
+        });
+        await Promise.all(partners.map((partner: any) => cancelScheduledNotifications(partner.id)));
+    }
+
+    for (const released of [booking, ...partners]) {
+        postStaffBookingEvent(released.id, 'cancelled')
+            .catch((err) => console.error('Failed to post to staff chat:', err));
+
+        const serviceId = released.items[0]?.serviceId;
+        if (released.masterId && serviceId) {
+            await checkWaitlistAndNotify(
+                released.masterId,
+                serviceId,
+                released.bookingDate,
+                released.startTime,
+                released.endTime
+            );
+        }
+    }
+
+    console.log(`Deposit hold expired for booking ${bookingId}`);
+    return true;
+}
+
 /**
  * Обробити нагадування за 24 години
  */
 export async function process24HourReminders(): Promise<number> {
     const targetTime = addHours(new Date(), 24);
-    const windowStart = new Date(targetTime.getTime() - 15 * 60 * 1000);
-    const windowEnd = new Date(targetTime.getTime() + 15 * 60 * 1000);
+    const windowMs = (await getSetting('reminder_window_minutes')) * 60 * 1000;
+    const windowStart = new Date(targetTime.getTime() - windowMs);
+    const windowEnd = new Date(targetTime.getTime() + windowMs);
+    const timeZone = await getSetting('salon_timezone');
 
     const bookings = await prisma.booking.findMany({
         where: {
-            bookingDate: {
-                gte: new Date(targetTime.toDateString()),
-                lt: new Date(new Date(targetTime.toDateString()).getTime() + 24 * 60 * 60 * 1000),
-            },
-            startTime: {
-                gte: format(windowStart, 'HH:mm'),
-                lte: format(windowEnd, 'HH:mm'),
-            },
+            ...bookingTimeWindowWhere('startTime', windowStart, windowEnd, timeZone),
             status: {
                 in: ['confirmed', 'deposit_paid'],
             },
@@ -155,20 +293,14 @@ export async function process24HourReminders(): Promise<number> {
     let processed = 0;
 
     for (const booking of bookings) {
-        const services = booking.items.map((item: any) => item.service.name).join(', ');
+        const params = { ...getBookingMessageParams(booking), client_name: escapeHtml(booking.user.firstName || '') };
 
         await scheduleNotification(
             booking.user.id,
             'reminder_24h',
             new Date(),
             booking.id,
-            {
-                client_name: booking.user.firstName || '',
-                master_name: (booking.master?.displayName as any)?.uk || '',
-                service_name: services,
-                date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                time: booking.startTime,
-            }
+            params
         );
 
         await sendNotification({
@@ -176,13 +308,7 @@ export async function process24HourReminders(): Promise<number> {
             userId: booking.user.id,
             bookingId: booking.id,
             language: booking.user.language,
-            params: {
-                client_name: booking.user.firstName || '',
-                master_name: (booking.master?.displayName as any)?.uk || '',
-                service_name: services,
-                date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                time: booking.startTime,
-            },
+            params,
         });
 
         processed++;
@@ -197,19 +323,14 @@ export async function process24HourReminders(): Promise<number> {
  */
 export async function process2HourReminders(): Promise<number> {
     const targetTime = addHours(new Date(), 2);
-    const windowStart = new Date(targetTime.getTime() - 15 * 60 * 1000);
-    const windowEnd = new Date(targetTime.getTime() + 15 * 60 * 1000);
+    const windowMs = (await getSetting('reminder_window_minutes')) * 60 * 1000;
+    const windowStart = new Date(targetTime.getTime() - windowMs);
+    const windowEnd = new Date(targetTime.getTime() + windowMs);
+    const timeZone = await getSetting('salon_timezone');
 
     const bookings = await prisma.booking.findMany({
         where: {
-            bookingDate: {
-                gte: new Date(targetTime.toDateString()),
-                lt: new Date(new Date(targetTime.toDateString()).getTime() + 24 * 60 * 60 * 1000),
-            },
-            startTime: {
-                gte: format(windowStart, 'HH:mm'),
-                lte: format(windowEnd, 'HH:mm'),
-            },
+            ...bookingTimeWindowWhere('startTime', windowStart, windowEnd, timeZone),
             status: {
                 in: ['confirmed', 'deposit_paid'],
             },
@@ -226,20 +347,14 @@ export async function process2HourReminders(): Promise<number> {
     let processed = 0;
 
     for (const booking of bookings) {
-        const services = booking.items.map((item: any) => item.service.name).join(', ');
+        const params = { ...getBookingMessageParams(booking), client_name: escapeHtml(booking.user.firstName || '') };
 
         await sendNotification({
             type: 'reminder_2h',
             userId: booking.user.id,
             bookingId: booking.id,
             language: booking.user.language,
-            params: {
-                client_name: booking.user.firstName || '',
-                master_name: (booking.master?.displayName as any)?.uk || '',
-                service_name: services,
-                date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
-                time: booking.startTime,
-            },
+            params,
         });
 
         processed++;
@@ -254,19 +369,14 @@ export async function process2HourReminders(): Promise<number> {
  */
 export async function processReviewRequests(): Promise<number> {
     const twoHoursAgo = subHours(new Date(), 2);
-    const windowStart = new Date(twoHoursAgo.getTime() - 15 * 60 * 1000);
-    const windowEnd = new Date(twoHoursAgo.getTime() + 15 * 60 * 1000);
+    const windowMs = (await getSetting('reminder_window_minutes')) * 60 * 1000;
+    const windowStart = new Date(twoHoursAgo.getTime() - windowMs);
+    const windowEnd = new Date(twoHoursAgo.getTime() + windowMs);
+    const timeZone = await getSetting('salon_timezone');
 
     const bookings = await prisma.booking.findMany({
         where: {
-            bookingDate: {
-                gte: new Date(windowStart.toDateString()),
-                lt: new Date(new Date(windowStart.toDateString()).getTime() + 24 * 60 * 60 * 1000),
-            },
-            endTime: {
-                gte: format(windowStart, 'HH:mm'),
-                lte: format(windowEnd, 'HH:mm'),
-            },
+            ...bookingTimeWindowWhere('endTime', windowStart, windowEnd, timeZone),
             status: 'completed',
             review: null,
         },
@@ -285,10 +395,11 @@ export async function processReviewRequests(): Promise<number> {
             bookingId: booking.id,
             language: booking.user.language,
             params: {
-                client_name: booking.user.firstName || '',
-                master_name: (booking.master?.displayName as any)?.uk || '',
-                date: format(new Date(booking.bookingDate), 'dd.MM.yyyy'),
+                client_name: escapeHtml(booking.user.firstName || ''),
+                master_name: escapeHtml(localizedName(booking.master?.displayName, 'uk')),
+                date: formatDbDate(booking.bookingDate),
             },
+            replyMarkup: buildReviewKeyboard(booking.id),
         });
 
         processed++;
@@ -305,5 +416,7 @@ export async function closeWorkers() {
     await notificationWorker.close();
     await reminderWorker.close();
     await reviewWorker.close();
+    await holdWorker.close();
+    await scheduleWorker.close();
     console.log('✅ All workers closed');
 }
@@ -2,6 +2,7 @@ import { buildApp } from './app.js';
 import { env } from './config/env.js';
 import { initBot, setWebhook } from './bot/bot.js';
 import { prisma } from './config/database.js';
+import { scheduleDailyDigestJob } from './queues/notification.queue.js';
 
 async function main() {
     try {
@@ -21,6 +22,9 @@ async function main() {
             console.log('✅ Telegram Bot webhook configured');
         }
 
+        // Щоденні дайджести розкладу для майстрів
+        await scheduleDailyDigestJob();
+
         // Start server
         await app.listen({ port: env.PORT, host: '0.0.0.0' });
         console.log(`🚀 Server running on http://localhost:${env.PORT}`);
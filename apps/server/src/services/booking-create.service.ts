@@ -0,0 +1,246 @@
+import { prisma } from '../config/database.js';
+import {
+    assertSlotAvailable,
+    BookingConflictError,
+    BookingError,
+    calculateEndTime,
+    insertBooking,
+    isMasterWorking,
+    pickMasterForSlot,
+    priceBookingItems,
+    scheduleBookingReminders,
+    withSlotLock,
+    type ServiceDurationInput,
+} from './booking.service.js';
+import { sendMasterBookingRequest } from './booking-request.service.js';
+import { getBookingMessageParams } from './booking-status.service.js';
+import { getRedeemableCertificate } from './gift-certificate.service.js';
+import { sendNotification } from './notification.service.js';
+import { findCoveringPackage } from './package.service.js';
+import { applyPromoCode } from './promo.service.js';
+import { getRequiredResourceIds } from './resource.service.js';
+import { postStaffBookingEvent } from './staff-feed.service.js';
+import { toDbDate } from '../shared/utils/timezone.js';
+
+export interface CreateBookingInput {
+    // Без masterId майстра призначає сервер (режим "будь-який майстер")
+    masterId?: string;
+    bookingDate: string;
+    startTime: string;
+    serviceDurations?: ServiceDurationInput[];
+    // Комбо розгортається в послуги з комбо та дає знижку discountPercent
+    comboId?: string;
+    promoCode?: string;
+    giftCertificateCode?: string;
+    // Послуга, що входить в активний пакет клієнта, оплачується сеансом пакета (false — платити грошима)
+    usePackage?: boolean;
+}
+
+// Послуги (після розгортання комбо), знижка комбо й дата візиту — спільні для будь-якого обраного майстра
+interface BookingPricingContext {
+    serviceDurations: ServiceDurationInput[];
+    comboDiscountPercent: number;
+    parsedDate: Date;
+}
+
+/**
+ * Створити бронювання клієнта (міні-додаток і бот): ціна зі знижками комбо, пакета й промокоду, оплата сертифікатом,
+ * перевірка й вставка під локом слоту, сповіщення клієнту, нагадування та запит майстру на підтвердження.
+ * Кидає BookingError, BookingConflictError, PromoCodeError, PackageError чи GiftCertificateError.
+ */
+export async function createBooking(
+    userId: string,
+    input: CreateBookingInput
+): Promise<{ booking: any; paidByCertificate: number }> {
+    const { bookingDate, comboId } = input;
+    let serviceDurations = input.serviceDurations ?? [];
+
+    // Expand combo into its services
+    let comboDiscountPercent = 0;
+
+    if (comboId) {
+        const combo = await prisma.combo.findUnique({
+            where: { id: comboId, isActive: true },
+            include: { items: { orderBy: { sortOrder: 'asc' } } },
+        });
+
+        if (!combo || combo.items.length === 0) {
+            throw new BookingError('Combo not found', 'NOT_FOUND', 404);
+        }
+
+        serviceDurations = combo.items.map((item: any) => ({
+            serviceId: item.serviceId,
+            durationId: item.durationId,
+        }));
+        comboDiscountPercent = Number(combo.discountPercent);
+    }
+
+    // Календарна дата салону (@db.Date), без зсуву часовим поясом сервера
+    const parsedDate = toDbDate(bookingDate);
+    const pricing = { serviceDurations, comboDiscountPercent, parsedDate };
+
+    const created = input.masterId
+        ? await insertClientBooking(userId, input.masterId, input, pricing)
+        : await insertWithAnyMaster(userId, input, pricing);
+    const { booking } = created;
+
+    // Відправити сповіщення про створення бронювання
+    const params = getBookingMessageParams(booking);
+
+    sendNotification({
+        type: 'booking_created',
+        userId,
+        bookingId: booking.id,
+        params,
+    }).catch(err => console.error('Failed to send notification:', err));
+
+    // Запланувати нагадування за 24 і 2 години
+    scheduleBookingReminders(booking, params)
+        .catch(err => console.error('Failed to schedule reminders:', err));
+
+    // Послуга з підтвердженням — запит майстру з кнопками в боті
+    sendMasterBookingRequest(booking.id)
+        .catch(err => console.error('Failed to send booking request to master:', err));
+
+    postStaffBookingEvent(booking.id, 'created')
+        .catch(err => console.error('Failed to post to staff chat:', err));
+
+    return created;
+}
+
+/**
+ * "Будь-який майстер": тривалість від майстра не залежить, тож майстра призначаємо до розрахунку ціни.
+ * Якщо паралельний запит встиг зайняти обраного майстра, пробуємо наступного вільного.
+ */
+async function insertWithAnyMaster(
+    userId: string,
+    input: CreateBookingInput,
+    pricing: BookingPricingContext
+): Promise<{ booking: any; paidByCertificate: number }> {
+    const { serviceDurations, parsedDate } = pricing;
+    const serviceIds = serviceDurations.map((sd) => sd.serviceId);
+    const durations = await prisma.serviceDuration.findMany({
+        where: { id: { in: serviceDurations.map((sd) => sd.durationId) }, isActive: true },
+        select: { id: true, durationMinutes: true },
+    });
+    const durationMinutes = serviceDurations.reduce((sum, sd) =>
+        sum + (durations.find((d: any) => d.id === sd.durationId)?.durationMinutes ?? 0), 0);
+    const slot = {
+        bookingDate: parsedDate,
+        startTime: input.startTime,
+        endTime: calculateEndTime(input.startTime, durationMinutes),
+        resourceIds: await getRequiredResourceIds(serviceIds),
+    };
+    const takenMasterIds: string[] = [];
+
+    while (true) {
+        const masterId = await pickMasterForSlot(userId, serviceIds, slot, takenMasterIds);
+
+        if (!masterId) {
+            throw new BookingError('No master is available at this time', 'SLOT_NOT_AVAILABLE', 409);
+        }
+
+        try {
+            return await insertClientBooking(userId, masterId, input, pricing);
+        } catch (error) {
+            if (!(error instanceof BookingConflictError) || error.code !== 'SLOT_TAKEN') {
+                throw error;
+            }
+            takenMasterIds.push(masterId);
+        }
+    }
+}
+
+/**
+ * Ціна зі знижками для обраного майстра, перевірка й вставка під локом слоту
+ */
+async function insertClientBooking(
+    userId: string,
+    masterId: string,
+    input: CreateBookingInput,
+    pricing: BookingPricingContext
+): Promise<{ booking: any; paidByCertificate: number }> {
+    const { startTime, comboId, promoCode, giftCertificateCode, usePackage = true } = input;
+    const { serviceDurations, comboDiscountPercent, parsedDate } = pricing;
+
+    // Validate master exists and is active
+    const master = await prisma.master.findUnique({
+        where: { id: masterId, isActive: true },
+    });
+
+    if (!master) {
+        throw new BookingError('Master not found', 'NOT_FOUND', 404);
+    }
+
+    // Validate services and durations, calculate total duration and price
+    const { items: bookingItems, totalDuration, totalPrice } = await priceBookingItems(masterId, serviceDurations);
+
+    // Calculate end time
+    const endTime = calculateEndTime(startTime, totalDuration);
+
+    // Check that the master works the whole slot (within one interval, not over a break)
+    if (!(await isMasterWorking(masterId, parsedDate, startTime, endTime))) {
+        throw new BookingError('Master is not working at this time', 'SLOT_NOT_AVAILABLE', 409);
+    }
+
+    // Rooms and equipment required by the services are reserved together with the master
+    const resourceIds = await getRequiredResourceIds(bookingItems.map((item) => item.serviceId));
+    const slot = { masterId, bookingDate: parsedDate, startTime, endTime, resourceIds };
+
+    // A prepaid package session replaces the price of one covered service (combos keep their own discount)
+    const coveringPackage = usePackage && !comboId
+        ? await findCoveringPackage(userId, bookingItems, parsedDate)
+        : null;
+    const packageDiscount = coveringPackage ? bookingItems[coveringPackage.itemIndex].price : 0;
+
+    // Combo discount and package session go first, promo code applies to the discounted price
+    const comboDiscount = Math.round(totalPrice * comboDiscountPercent) / 100;
+    const priceAfterCombo = totalPrice - comboDiscount - packageDiscount;
+
+    // Validate promo code if provided: a code that breaks any of its rules rejects the booking
+    let promoCodeId: string | null = null;
+    let promoDiscount = 0;
+
+    if (promoCode) {
+        const applied = await applyPromoCode(promoCode, {
+            userId,
+            masterId,
+            items: bookingItems,
+            amount: priceAfterCombo,
+        });
+        promoCodeId = applied.promo.id;
+        promoDiscount = applied.discountAmount;
+    }
+
+    const discountAmount = comboDiscount + packageDiscount + promoDiscount;
+    const finalPrice = totalPrice - discountAmount;
+
+    // Gift certificate pays for the booking up to its balance
+    let giftCertificate: { id: string; amount: number } | undefined;
+
+    if (giftCertificateCode) {
+        const certificate = await getRedeemableCertificate(giftCertificateCode);
+        giftCertificate = {
+            id: certificate.id,
+            amount: Math.round(Math.min(Number(certificate.balance), finalPrice) * 100) / 100,
+        };
+    }
+
+    // Conflict check and insert run under the slot lock, so parallel requests can't both win
+    const booking = await withSlotLock(slot, async () => {
+        await assertSlotAvailable(slot);
+        return insertBooking({
+            ...slot,
+            userId,
+            totalPrice: finalPrice,
+            discountAmount,
+            promoCodeId,
+            promoDiscount,
+            items: bookingItems,
+            giftCertificate,
+            userPackageId: coveringPackage?.userPackage.id,
+        });
+    });
+
+    return { booking, paidByCertificate: giftCertificate?.amount ?? 0 };
+}
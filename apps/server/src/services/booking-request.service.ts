@@ -0,0 +1,273 @@
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { buildBookingRequestKeyboard, buildTimeProposalKeyboard } from '../bot/bot.js';
+import { checkWaitlistAndNotify } from '../modules/waitlist/waitlist.controller.js';
+import {
+    calculateDurationMinutes,
+    getMasterSlots,
+    moveBooking,
+    scheduleBookingReminders,
+} from './booking.service.js';
+import { BookingStatusError, changeBookingStatus, getBookingMessageParams } from './booking-status.service.js';
+import { cancelScheduledNotifications, sendNotification } from './notification.service.js';
+import { getResourceLoads } from './resource.service.js';
+import { getSetting } from './settings.service.js';
+import { postStaffBookingEvent } from './staff-feed.service.js';
+import { escapeHtml } from '../shared/utils/message-templates.js';
+import { addDaysToKey, formatDbDate, getZonedParts, toDateKey, toDbDate, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+
+// Скільки варіантів часу показати майстру і на скільки днів уперед шукати
+const PROPOSAL_SLOTS_LIMIT = 6;
+const PROPOSAL_SEARCH_DAYS = 7;
+
+export const PROPOSAL_DECLINED_REASON = 'proposed_time_declined';
+
+// Запропонований майстром час зберігається, доки клієнт може на нього відповісти
+const PROPOSAL_TTL_SECONDS = (PROPOSAL_SEARCH_DAYS + 1) * 24 * 60 * 60;
+
+function proposalKey(bookingId: string): string {
+    return `booking-proposal:${bookingId}`;
+}
+
+export interface ProposedSlot {
+    date: string; // "YYYY-MM-DD"
+    time: string; // "HH:mm"
+}
+
+const REQUEST_BOOKING_INCLUDE = {
+    user: { select: { id: true, firstName: true, lastName: true } },
+    master: { select: { id: true, userId: true, displayName: true } },
+    items: {
+        include: { service: { select: { name: true, requiresConfirmation: true } } },
+        orderBy: { sortOrder: 'asc' as const },
+    },
+    resources: { select: { resourceId: true } },
+};
+
+function clientName(user: { firstName: string | null; lastName: string | null }): string {
+    return escapeHtml([user.firstName, user.lastName].filter(Boolean).join(' '));
+}
+
+async function getPendingBooking(bookingId: string): Promise<any> {
+    const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: REQUEST_BOOKING_INCLUDE,
+    });
+
+    if (!booking || !booking.master) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    if (booking.status !== 'pending_confirmation') {
+        throw new BookingStatusError('Booking request has already been processed', 'STATUS_CHANGED', 409);
+    }
+
+    return booking;
+}
+
+/**
+ * Надіслати майстру запит на підтвердження бронювання з кнопками "Підтвердити / Відхилити / Інший час".
+ * Лише для бронювань з послугою, що потребує підтвердження; групові (учасники переносяться лише разом)
+ * підтверджує адміністратор.
+ */
+export async function sendMasterBookingRequest(bookingId: string): Promise<boolean> {
+    const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: REQUEST_BOOKING_INCLUDE,
+    });
+
+    if (
+        !booking?.master
+        || booking.status !== 'pending_confirmation'
+        || booking.groupId
+        || !booking.items.some((item: any) => item.service.requiresConfirmation)
+    ) {
+        return false;
+    }
+
+    return sendNotification({
+        type: 'booking_request',
+        userId: booking.master.userId,
+        bookingId,
+        params: {
+            ...getBookingMessageParams(booking),
+            client_name: clientName(booking.user),
+            price: String(Number(booking.totalPrice)),
+        },
+        replyMarkup: buildBookingRequestKeyboard(bookingId),
+    });
+}
+
+/**
+ * Найближчі вільні проміжки майстра тієї ж тривалості, що й запит (від дати запиту, не в минулому)
+ */
+export async function getProposalSlots(bookingId: string, now: Date = new Date()): Promise<ProposedSlot[]> {
+    const booking = await getPendingBooking(bookingId);
+
+    const [bufferMinutes, timeZone] = await Promise.all([
+        getSetting('buffer_minutes'),
+        getSetting('salon_timezone'),
+    ]);
+    const today = getZonedParts(now, timeZone).date;
+    const bookingDateKey = toDateKey(booking.bookingDate);
+    const firstDate = bookingDateKey > today ? bookingDateKey : today;
+    const durationMinutes = calculateDurationMinutes(booking.startTime, booking.endTime);
+    const resourceIds = booking.resources.map((r: any) => r.resourceId);
+
+    const slots: ProposedSlot[] = [];
+
+    for (let day = 0; day < PROPOSAL_SEARCH_DAYS && slots.length < PROPOSAL_SLOTS_LIMIT; day++) {
+        const date = addDaysToKey(firstDate, day);
+        const workDate = toDbDate(date);
+        const resourceLoads = await getResourceLoads(resourceIds, workDate, booking.id);
+        const times = await getMasterSlots(booking.masterId, workDate, durationMinutes, bufferMinutes, resourceLoads);
+
+        for (const time of times) {
+            if (zonedDateTimeToUtc(date, time, timeZone) <= now) continue;
+            if (date === bookingDateKey && time === booking.startTime) continue;
+
+            slots.push({ date, time });
+            if (slots.length === PROPOSAL_SLOTS_LIMIT) break;
+        }
+    }
+
+    return slots;
+}
+
+/**
+ * Запропонувати клієнту інший час замість запитаного (кнопки "Підходить / Не підходить")
+ */
+export async function proposeBookingTime(bookingId: string, slot: ProposedSlot): Promise<any> {
+    const booking = await getPendingBooking(bookingId);
+
+    // Клієнт зможе погодитися лише на час, який майстер справді запропонував (остання пропозиція)
+    await redis.set(proposalKey(bookingId), JSON.stringify(slot), 'EX', PROPOSAL_TTL_SECONDS);
+
+    await sendNotification({
+        type: 'booking_time_proposed',
+        userId: booking.userId,
+        bookingId,
+        params: {
+            ...getBookingMessageParams(booking),
+            date: formatDbDate(toDbDate(slot.date)),
+            time: slot.time,
+        },
+        replyMarkup: buildTimeProposalKeyboard(bookingId, slot),
+    });
+
+    return booking;
+}
+
+/**
+ * Клієнт погодився на запропонований час: перенести бронювання й підтвердити його.
+ * Кидає BookingStatusError, а якщо час уже зайняли — BookingConflictError чи BookingError.
+ */
+export async function acceptProposedTime(
+    bookingId: string,
+    userId: string,
+    slot: ProposedSlot,
+    now: Date = new Date()
+): Promise<any> {
+    const booking = await getPendingBooking(bookingId);
+
+    if (booking.userId !== userId) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    const proposed = await redis.get(proposalKey(bookingId));
+    const proposedSlot = proposed ? JSON.parse(proposed) as ProposedSlot : null;
+
+    if (!proposedSlot || proposedSlot.date !== slot.date || proposedSlot.time !== slot.time) {
+        throw new BookingStatusError('This time was not proposed for the booking', 'PROPOSAL_EXPIRED', 409);
+    }
+
+    const timeZone = await getSetting('salon_timezone');
+    if (zonedDateTimeToUtc(slot.date, slot.time, timeZone) <= now) {
+        throw new BookingStatusError('Proposed time has already passed', 'PROPOSAL_EXPIRED', 409);
+    }
+
+    // Спершу підтвердження (умовне оновлення статусу), потім перенесення: якщо час уже зайняли, запит повертається в очікування
+    await changeBookingStatus(bookingId, 'confirmed', {
+        actor: 'master',
+        masterId: booking.masterId,
+        notifyClient: false,
+    });
+
+    let confirmed;
+    try {
+        confirmed = await moveBooking(booking, toDbDate(slot.date), slot.time);
+    } catch (error) {
+        await prisma.booking.updateMany({
+            where: { id: bookingId, status: 'confirmed' },
+            data: { status: 'pending_confirmation' },
+        });
+        throw error;
+    }
+
+    await redis.del(proposalKey(bookingId));
+
+    const params = getBookingMessageParams(confirmed);
+
+    // Клієнт отримує звичайне підтвердження вже з новим часом
+    sendNotification({
+        type: 'booking_confirmed',
+        userId,
+        bookingId,
+        params,
+    }).catch((err) => console.error('Failed to send notification:', err));
+
+    await cancelScheduledNotifications(bookingId);
+    scheduleBookingReminders(confirmed, params)
+        .catch((err) => console.error('Failed to schedule reminders:', err));
+
+    sendNotification({
+        type: 'booking_proposal_accepted',
+        userId: booking.master.userId,
+        bookingId,
+        params: { ...params, client_name: clientName(booking.user) },
+    }).catch((err) => console.error('Failed to send notification:', err));
+
+    postStaffBookingEvent(bookingId, 'rescheduled', booking)
+        .catch((err) => console.error('Failed to post to staff chat:', err));
+
+    // Запитаний спочатку час звільнився
+    const firstServiceId = booking.items[0]?.serviceId;
+    if (firstServiceId) {
+        checkWaitlistAndNotify(
+            booking.masterId,
+            firstServiceId,
+            booking.bookingDate,
+            booking.startTime,
+            booking.endTime
+        ).catch(console.error);
+    }
+
+    return confirmed;
+}
+
+/**
+ * Клієнт відмовився від запропонованого часу: запит скасовується з повним поверненням передоплати
+ */
+export async function declineProposedTime(bookingId: string, userId: string): Promise<any> {
+    const booking = await getPendingBooking(bookingId);
+
+    if (booking.userId !== userId) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    const { booking: cancelled } = await changeBookingStatus(bookingId, 'cancelled_by_admin', {
+        actor: 'master',
+        masterId: booking.masterId,
+        cancelReason: PROPOSAL_DECLINED_REASON,
+        notifyClient: false,
+    });
+
+    sendNotification({
+        type: 'booking_proposal_declined',
+        userId: booking.master.userId,
+        bookingId,
+        params: { ...getBookingMessageParams(booking), client_name: clientName(booking.user) },
+    }).catch((err) => console.error('Failed to send notification:', err));
+
+    return cancelled;
+}
@@ -0,0 +1,105 @@
+import { differenceInMinutes } from 'date-fns';
+import { prisma } from '../config/database.js';
+import { checkWaitlistAndNotify } from '../modules/waitlist/waitlist.controller.js';
+import { BookingError, moveBooking, scheduleBookingReminders } from './booking.service.js';
+import { getBookingMessageParams } from './booking-status.service.js';
+import { CLIENT_CANCELLABLE_STATUSES, getBookingStartDateTime } from './cancellation.service.js';
+import { cancelScheduledNotifications, sendNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import { postStaffBookingEvent } from './staff-feed.service.js';
+import { toDbDate, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+
+/**
+ * Бронювання клієнта, яке він може перенести зараз; кидає BookingError з причиною відмови
+ */
+export async function getReschedulableBooking(bookingId: string, userId: string, now: Date = new Date()) {
+    const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+            items: { select: { serviceId: true }, orderBy: { sortOrder: 'asc' } },
+            resources: { select: { resourceId: true } },
+        },
+    });
+
+    if (!booking) {
+        throw new BookingError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    if (booking.userId !== userId) {
+        throw new BookingError('Not authorized', 'FORBIDDEN', 403);
+    }
+
+    const { masterId } = booking;
+
+    // Учасники групового бронювання мають лишатися разом, тож окремо їх не переносимо
+    if (!CLIENT_CANCELLABLE_STATUSES.includes(booking.status) || !masterId || booking.groupId) {
+        throw new BookingError('Cannot reschedule this booking', 'INVALID_OPERATION');
+    }
+
+    const [cutoffHours, timeZone] = await Promise.all([
+        getSetting('reschedule_cutoff_hours'),
+        getSetting('salon_timezone'),
+    ]);
+
+    if (differenceInMinutes(getBookingStartDateTime(booking, timeZone), now) < cutoffHours * 60) {
+        throw new BookingError(
+            `Booking can be rescheduled no later than ${cutoffHours} hours before the visit`,
+            'RESCHEDULE_CUTOFF_PASSED'
+        );
+    }
+
+    return { ...booking, masterId };
+}
+
+/**
+ * Перенести бронювання клієнта на інший час того ж майстра (передоплата, промокод і штамп лояльності зберігаються):
+ * нагадування переплановуються, клієнт отримує сповіщення, звільнений час пропонується листу очікування.
+ * Кидає BookingError чи BookingConflictError.
+ */
+export async function rescheduleClientBooking(
+    bookingId: string,
+    userId: string,
+    bookingDate: string,
+    startTime: string,
+    now: Date = new Date()
+): Promise<any> {
+    const booking = await getReschedulableBooking(bookingId, userId, now);
+    const timeZone = await getSetting('salon_timezone');
+
+    if (zonedDateTimeToUtc(bookingDate, startTime, timeZone) <= now) {
+        throw new BookingError('New time must be in the future', 'VALIDATION_ERROR');
+    }
+
+    const updatedBooking = await moveBooking(booking, toDbDate(bookingDate), startTime);
+
+    // Перепланувати нагадування на новий час
+    const params = getBookingMessageParams(updatedBooking);
+
+    await cancelScheduledNotifications(booking.id);
+    scheduleBookingReminders(updatedBooking, params)
+        .catch(err => console.error('Failed to schedule reminders:', err));
+
+    sendNotification({
+        type: 'booking_rescheduled',
+        userId,
+        bookingId: booking.id,
+        params,
+    }).catch(err => console.error('Failed to send notification:', err));
+
+    postStaffBookingEvent(booking.id, 'rescheduled', booking)
+        .catch(err => console.error('Failed to post to staff chat:', err));
+
+    // Звільнений час може підійти клієнтам з листа очікування
+    const firstServiceId = booking.items[0]?.serviceId;
+    if (firstServiceId) {
+        checkWaitlistAndNotify(
+            booking.masterId,
+            firstServiceId,
+            booking.bookingDate,
+            booking.startTime,
+            booking.endTime
+        ).catch(console.error);
+    }
+
+    return updatedBooking;
+}
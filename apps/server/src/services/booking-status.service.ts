@@ -0,0 +1,297 @@
+import { prisma } from '../config/database.js';
+import {
+    addRefundAmounts,
+    applyCancellationRefund,
+    CANCELLED_STATUSES,
+    CLIENT_CANCELLABLE_STATUSES,
+    getBookingStartDateTime,
+    getGroupPartnerBookings,
+    getLaterSeriesBookings,
+    type RefundSummary,
+} from './cancellation.service.js';
+import { cancelScheduledNotifications, sendNotification } from './notification.service.js';
+import { rewardReferral } from './referral.service.js';
+import { getSetting } from './settings.service.js';
+import { postStaffBookingEvent } from './staff-feed.service.js';
+import { escapeHtml, localizedName } from '../shared/utils/message-templates.js';
+import { formatDbDate } from '../shared/utils/timezone.js';
+
+/**
+ * Зміна статусу неможлива (повертається клієнту з statusCode)
+ */
+export class BookingStatusError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'BookingStatusError';
+    }
+}
+
+// Хто змінює статус: майстру доступні лише переходи з MASTER_TRANSITIONS, адміністратору — будь-які
+export type StatusChangeActor = 'master' | 'admin';
+
+// Статуси ще не завершеного візиту
+export const ACTIVE_STATUSES = ['pending_confirmation', 'confirmed', 'deposit_pending', 'deposit_paid', 'in_progress'];
+
+// Новий статус → статуси, з яких майстер може його встановити (cancelled_by_admin — відхилення запиту)
+const MASTER_TRANSITIONS: Record<string, string[]> = {
+    confirmed: ['pending_confirmation'],
+    cancelled_by_admin: ['pending_confirmation'],
+    completed: ACTIVE_STATUSES,
+    no_show: ACTIVE_STATUSES,
+};
+
+export const MASTER_STATUSES = Object.keys(MASTER_TRANSITIONS) as ['confirmed', 'cancelled_by_admin', 'completed', 'no_show'];
+
+// Кнопки в групі персоналу: дія → новий статус і статуси, з яких його можна встановити
+export type StaffAction = 'confirm' | 'noshow';
+
+const STAFF_ACTIONS: Record<StaffAction, { status: string; from: string[] }> = {
+    confirm: { status: 'confirmed', from: ['pending_confirmation'] },
+    noshow: { status: 'no_show', from: ACTIVE_STATUSES },
+};
+
+// Include бронювання у відповіді після зміни статусу
+const STATUS_BOOKING_INCLUDE = {
+    user: {
+        select: { id: true, telegramId: true, telegramUsername: true, firstName: true, lastName: true },
+    },
+    master: { select: { id: true, displayName: true } },
+    items: { include: { service: true }, orderBy: { sortOrder: 'asc' as const } },
+};
+
+export interface StatusChangeOptions {
+    actor: StatusChangeActor;
+    // Майстер, якому має належати бронювання (для дій майстра)
+    masterId?: string;
+    cancelReason?: string;
+    adminNotes?: string;
+    // false — клієнт сам ініціював зміну і вже знає про неї
+    notifyClient?: boolean;
+}
+
+/**
+ * Параметри сповіщень клієнту про бронювання (майстер, послуги, дата й час)
+ */
+export function getBookingMessageParams(booking: any): Record<string, string> {
+    return {
+        master_name: escapeHtml(localizedName(booking.master?.displayName, 'uk')),
+        service_name: escapeHtml(booking.items.map((item: any) => localizedName(item.service.name, 'uk')).join(', ')),
+        date: formatDbDate(booking.bookingDate),
+        time: booking.startTime,
+    };
+}
+
+/**
+ * Змінити статус бронювання з усіма наслідками: повернення передоплати при скасуванні чи неявці,
+ * реферальна нагорода за завершений візит, сповіщення клієнта про підтвердження чи скасування.
+ * Умовне оновлення за попереднім статусом не дає двом паралельним діям (кнопка в боті й додаток) застосуватися двічі.
+ */
+export async function changeBookingStatus(
+    bookingId: string,
+    status: string,
+    options: StatusChangeOptions
+): Promise<{ booking: any; refund: RefundSummary | null }> {
+    const existing = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+    if (!existing || (options.masterId && existing.masterId !== options.masterId)) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    if (options.actor === 'master' && !MASTER_TRANSITIONS[status]?.includes(existing.status)) {
+        throw new BookingStatusError(
+            `Cannot change status from ${existing.status} to ${status}`,
+            'INVALID_STATUS_TRANSITION',
+            409
+        );
+    }
+
+    const data: any = { status };
+    if (options.cancelReason) data.cancelReason = options.cancelReason;
+    if (options.adminNotes !== undefined) data.adminNotes = options.adminNotes;
+
+    const { count } = await prisma.booking.updateMany({
+        where: { id: bookingId, status: existing.status },
+        data,
+    });
+
+    if (count === 0) {
+        throw new BookingStatusError('Booking status has already been changed', 'STATUS_CHANGED', 409);
+    }
+
+    const booking = await prisma.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: STATUS_BOOKING_INCLUDE,
+    });
+
+    // Повернення передоплати при скасуванні адміністратором (чи відхиленні майстром) або неявці
+    const isNewCancellation = !CANCELLED_STATUSES.includes(existing.status);
+    let refund: RefundSummary | null = null;
+
+    if (isNewCancellation && status === 'cancelled_by_admin') {
+        refund = await applyCancellationRefund(existing, 'admin');
+        await cancelScheduledNotifications(bookingId);
+    } else if (isNewCancellation && status === 'no_show') {
+        refund = await applyCancellationRefund(existing, 'no_show');
+    }
+
+    // Перший завершений візит запрошеного клієнта — нагорода за запрошення
+    if (status === 'completed' && existing.status !== 'completed') {
+        rewardReferral(existing.userId).catch((err) => console.error('Failed to reward referral:', err));
+    }
+
+    const notificationType = status === 'confirmed'
+        ? 'booking_confirmed'
+        : status === 'cancelled_by_admin' && isNewCancellation ? 'booking_cancelled' : null;
+
+    if (notificationType && options.notifyClient !== false) {
+        sendNotification({
+            type: notificationType,
+            userId: existing.userId,
+            bookingId,
+            params: getBookingMessageParams(booking),
+        }).catch((err) => console.error('Failed to send notification:', err));
+    }
+
+    // Скасування та неявка публікуються в групі персоналу
+    const staffEvent = status === 'cancelled_by_admin' ? 'cancelled' : status === 'no_show' ? 'no_show' : null;
+
+    if (staffEvent && isNewCancellation) {
+        postStaffBookingEvent(bookingId, staffEvent)
+            .catch((err) => console.error('Failed to post to staff chat:', err));
+    }
+
+    return { booking, refund };
+}
+
+/**
+ * Дії, доступні кнопками в групі персоналу для бронювання в цьому статусі
+ */
+export function getStaffActions(status: string): StaffAction[] {
+    return (Object.keys(STAFF_ACTIONS) as StaffAction[]).filter((action) => STAFF_ACTIONS[action].from.includes(status));
+}
+
+/**
+ * Дія адміністратора з кнопки в групі персоналу; неявку можна позначити лише після початку візиту
+ */
+export async function applyStaffAction(bookingId: string, action: StaffAction, now: Date = new Date()) {
+    const existing = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+    if (!existing) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    const { status, from } = STAFF_ACTIONS[action];
+
+    if (!from.includes(existing.status)) {
+        throw new BookingStatusError(
+            `Cannot change status from ${existing.status} to ${status}`,
+            'INVALID_STATUS_TRANSITION',
+            409
+        );
+    }
+
+    if (action === 'noshow' && getBookingStartDateTime(existing, await getSetting('salon_timezone')) > now) {
+        throw new BookingStatusError('Visit has not started yet', 'VISIT_NOT_STARTED', 409);
+    }
+
+    return changeBookingStatus(bookingId, status, { actor: 'admin' });
+}
+
+/**
+ * Скасування клієнтом (міні-додаток і бот): повернення за політикою скасування,
+ * групове бронювання скасовується цілком, для серії з scope 'future' — також усі наступні візити.
+ */
+export async function cancelClientBooking(
+    bookingId: string,
+    userId: string,
+    options: { cancelReason?: string; scope?: 'single' | 'future' } = {}
+) {
+    const { cancelReason, scope = 'single' } = options;
+
+    const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+    if (!booking) {
+        throw new BookingStatusError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    if (booking.userId !== userId) {
+        throw new BookingStatusError('Not authorized', 'FORBIDDEN', 403);
+    }
+
+    if (!CLIENT_CANCELLABLE_STATUSES.includes(booking.status)) {
+        throw new BookingStatusError('Cannot cancel this booking', 'INVALID_OPERATION');
+    }
+
+    const { count } = await prisma.booking.updateMany({
+        where: { id: bookingId, status: booking.status },
+        data: { status: 'cancelled_by_client', cancelReason: cancelReason || null },
+    });
+
+    if (count === 0) {
+        throw new BookingStatusError('Booking status has already been changed', 'STATUS_CHANGED', 409);
+    }
+
+    const updatedBooking = await prisma.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: {
+            master: { select: { displayName: true, photoUrl: true } },
+            items: {
+                include: {
+                    service: { select: { name: true } },
+                    duration: { select: { durationMinutes: true } },
+                },
+            },
+        },
+    });
+
+    // Повернення передоплати за політикою скасування
+    const refund = await applyCancellationRefund(booking, 'client');
+
+    // Групове бронювання скасовується цілком (повернення — за бронюванням, на яке внесено передоплату)
+    const groupBookings = await getGroupPartnerBookings(booking, CLIENT_CANCELLABLE_STATUSES);
+
+    // Для серії: скасувати також усі наступні візити ("цей і всі наступні")
+    const laterBookings = scope === 'future'
+        ? await getLaterSeriesBookings(booking, CLIENT_CANCELLABLE_STATUSES)
+        : [];
+
+    // Учасника, якого тим часом скасували деінде (адміністратор, строк передоплати), не чіпаємо й не повертаємо вдруге
+    const cancelledOthers: any[] = [];
+
+    for (const other of [...groupBookings, ...laterBookings]) {
+        const { count: otherCount } = await prisma.booking.updateMany({
+            where: { id: other.id, status: other.status },
+            data: { status: 'cancelled_by_client', cancelReason: cancelReason || null },
+        });
+
+        if (otherCount === 0) {
+            continue;
+        }
+
+        cancelledOthers.push(other);
+        const otherRefund = await applyCancellationRefund(other, 'client');
+
+        // Спільна передоплата групи могла бути внесена за іншим учасником
+        if (groupBookings.includes(other)) {
+            addRefundAmounts(refund, otherRefund);
+        }
+    }
+
+    // Нагадування скасованих візитів більше не потрібні
+    for (const cancelled of [booking, ...cancelledOthers]) {
+        await cancelScheduledNotifications(cancelled.id);
+        postStaffBookingEvent(cancelled.id, 'cancelled')
+            .catch((err) => console.error('Failed to post to staff chat:', err));
+    }
+
+    return {
+        booking: updatedBooking,
+        refund,
+        cancelledSeriesBookingIds: laterBookings.filter((later: any) => cancelledOthers.includes(later)).map((later: any) => later.id),
+        cancelledGroupBookingIds: groupBookings.filter((other: any) => cancelledOthers.includes(other)).map((other: any) => other.id),
+    };
+}
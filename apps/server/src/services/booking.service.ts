@@ -0,0 +1,671 @@
+import { randomUUID } from 'node:crypto';
+import { addHours } from 'date-fns';
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { CANCELLED_STATUSES } from './cancellation.service.js';
+import { getRequiredResourceIds, getResourceLoads, hasResourceCapacity, type ResourceLoad } from './resource.service.js';
+import { getWorkIntervals, isWithinWorkIntervals, type WorkInterval } from './schedule.service.js';
+import { scheduleNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import { redeemCertificate } from './gift-certificate.service.js';
+import { consumePackageSession } from './package.service.js';
+import { redeemPromoCode } from './promo.service.js';
+import { toDateKey, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_WAIT_MS = 5 * 1000;
+const LOCK_RETRY_MS = 50;
+const SLOT_STEP_MINUTES = 15;
+
+// Видалити ключ, лише якщо він досі належить нам (TTL міг минути й лок перехопили)
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Слот зайнятий (code повертається клієнту як є, статус 409).
+ * SLOT_BUSY — не дочекалися локу слоту: зайнятість невідома, клієнт може повторити запит (503).
+ */
+export class BookingConflictError extends Error {
+    constructor(
+        message: string,
+        readonly code: 'SLOT_TAKEN' | 'RESOURCE_NOT_AVAILABLE' | 'SLOT_BUSY' = 'SLOT_TAKEN'
+    ) {
+        super(message);
+        this.name = 'BookingConflictError';
+    }
+
+    get statusCode(): number {
+        return this.code === 'SLOT_BUSY' ? 503 : 409;
+    }
+}
+
+/**
+ * Некоректний запит на бронювання (повертається клієнту з statusCode)
+ */
+export class BookingError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'BookingError';
+    }
+}
+
+export interface ServiceDurationInput {
+    serviceId: string;
+    durationId: string;
+}
+
+export interface PricedBookingItem extends ServiceDurationInput {
+    price: number;
+}
+
+export interface NewBookingData {
+    userId: string;
+    masterId: string;
+    bookingDate: Date;
+    startTime: string;
+    endTime: string;
+    totalPrice: number;
+    discountAmount: number;
+    promoCodeId: string | null;
+    // Знижка саме від промокоду (записується в журнал використань)
+    promoDiscount?: number;
+    items: PricedBookingItem[];
+    resourceIds: string[];
+    seriesId?: string;
+    // Частина ціни, що списується з подарункового сертифіката
+    giftCertificate?: { id: string; amount: number };
+    // Пакет, з якого списується сеанс замість оплати однієї з послуг
+    userPackageId?: string;
+}
+
+export interface NewBookingGroupData {
+    userId: string;
+    bookingDate: Date;
+    startTime: string;
+    endTime: string;
+    resourceIds: string[];
+    participants: { masterId: string; items: PricedBookingItem[]; totalPrice: number }[];
+}
+
+export interface SlotRequest {
+    masterId: string;
+    bookingDate: Date;
+    startTime: string;
+    endTime: string;
+    resourceIds: string[];
+    excludeBookingId?: string;
+}
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+function minutesToTime(minutes: number): string {
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+export function calculateEndTime(startTime: string, durationMinutes: number): string {
+    return minutesToTime(timeToMinutes(startTime) + durationMinutes);
+}
+
+export function calculateDurationMinutes(startTime: string, endTime: string): number {
+    return timeToMinutes(endTime) - timeToMinutes(startTime);
+}
+
+async function acquireLock(key: string, token: string): Promise<boolean> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (true) {
+        const result = await redis.set(key, token, 'PX', LOCK_TTL_MS, 'NX');
+        if (result === 'OK') return true;
+        if (Date.now() >= deadline) return false;
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+}
+
+async function releaseLock(key: string, token: string): Promise<void> {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token).catch((err: Error) => {
+        console.error(`Failed to release lock ${key}:`, err);
+    });
+}
+
+/**
+ * Виконати fn під Redis-локом на день майстра та потрібних ресурсів.
+ * Паралельні бронювання того ж майстра чи ресурсу на ту ж дату виконуються по черзі,
+ * тому перевірка конфлікту всередині fn і вставка атомарні відносно одна одної.
+ * Для групового бронювання masterId — масив: лок береться на день кожного майстра.
+ */
+export async function withSlotLock<T>(
+    slot: Pick<SlotRequest, 'bookingDate' | 'resourceIds'> & { masterId: string | string[] },
+    fn: () => Promise<T>
+): Promise<T> {
+    const day = toDateKey(slot.bookingDate);
+    const masterIds = Array.isArray(slot.masterId) ? slot.masterId : [slot.masterId];
+    // Фіксований порядок ключів — без взаємних блокувань
+    const keys = [
+        ...masterIds.map((id) => `slot-lock:master:${id}:${day}`),
+        ...slot.resourceIds.map((id) => `slot-lock:resource:${id}:${day}`),
+    ].sort();
+    const token = randomUUID();
+    const acquired: string[] = [];
+
+    try {
+        for (const key of keys) {
+            if (!(await acquireLock(key, token))) {
+                throw new BookingConflictError('Time slot is being booked by another client, try again', 'SLOT_BUSY');
+            }
+            acquired.push(key);
+        }
+
+        return await fn();
+    } finally {
+        await Promise.all(acquired.map((key) => releaseLock(key, token)));
+    }
+}
+
+/**
+ * Перевірити, що майстер і ресурси вільні на весь проміжок; кидає BookingConflictError.
+ * Викликати всередині withSlotLock.
+ */
+export async function assertSlotAvailable(slot: SlotRequest): Promise<void> {
+    const existingBookings = await prisma.booking.findMany({
+        where: {
+            masterId: slot.masterId,
+            bookingDate: slot.bookingDate,
+            status: { notIn: CANCELLED_STATUSES as any },
+            ...(slot.excludeBookingId && { id: { not: slot.excludeBookingId } }),
+        },
+        select: { startTime: true, endTime: true },
+    });
+
+    const newStart = timeToMinutes(slot.startTime);
+    const newEnd = timeToMinutes(slot.endTime);
+
+    const hasConflict = existingBookings.some((booking: any) =>
+        newStart < timeToMinutes(booking.endTime) && newEnd > timeToMinutes(booking.startTime)
+    );
+
+    if (hasConflict) {
+        throw new BookingConflictError('Time slot is already booked');
+    }
+
+    const resourceLoads = await getResourceLoads(slot.resourceIds, slot.bookingDate, slot.excludeBookingId);
+
+    if (!hasResourceCapacity(resourceLoads, slot.startTime, slot.endTime)) {
+        throw new BookingConflictError('Required room or equipment is already booked', 'RESOURCE_NOT_AVAILABLE');
+    }
+}
+
+/**
+ * Перевірити, що всі майстри групи вільні на той самий проміжок (усі або жоден); кидає BookingConflictError.
+ * Ресурси група займає один раз, тож їх місткість перевіряється лише разом з першим майстром.
+ * Викликати всередині withSlotLock з усіма masterIds.
+ */
+export async function assertGroupSlotAvailable(
+    slot: Omit<SlotRequest, 'masterId' | 'excludeBookingId'> & { masterIds: string[] }
+): Promise<void> {
+    const { masterIds, ...interval } = slot;
+
+    for (const [index, masterId] of masterIds.entries()) {
+        await assertSlotAvailable({
+            ...interval,
+            masterId,
+            resourceIds: index === 0 ? slot.resourceIds : [],
+        });
+    }
+}
+
+/**
+ * Генерація вільних часових слотів
+ */
+function generateTimeSlots(
+    intervals: WorkInterval[],
+    durationMinutes: number,
+    bufferMinutes: number,
+    existingBookings: { startTime: string; endTime: string }[],
+    resourceLoads: ResourceLoad[] = []
+): string[] {
+    const slots: string[] = [];
+
+    for (const interval of intervals) {
+        let currentMinutes = timeToMinutes(interval.startTime);
+        const endMinutes = timeToMinutes(interval.endTime);
+
+        // Slot must fit inside the interval: breaks between intervals are not bookable
+        while (currentMinutes + durationMinutes <= endMinutes) {
+            const slotStart = minutesToTime(currentMinutes);
+
+            // Check if slot conflicts with existing bookings
+            const hasConflict = existingBookings.some((booking) => {
+                const bookingStart = timeToMinutes(booking.startTime);
+                const bookingEnd = timeToMinutes(booking.endTime);
+                const slotStartMin = currentMinutes;
+                const slotEndMin = currentMinutes + durationMinutes;
+
+                return slotStartMin < bookingEnd + bufferMinutes && slotEndMin > bookingStart - bufferMinutes;
+            });
+
+            if (!hasConflict && hasResourceCapacity(resourceLoads, slotStart, minutesToTime(currentMinutes + durationMinutes))) {
+                slots.push(slotStart);
+            }
+
+            currentMinutes += SLOT_STEP_MINUTES;
+        }
+    }
+
+    return slots;
+}
+
+/**
+ * Вільні слоти майстра на дату з урахуванням розкладу, перерви між візитами та зайнятості ресурсів
+ */
+export async function getMasterSlots(
+    masterId: string,
+    workDate: Date,
+    durationMinutes: number,
+    bufferMinutes: number,
+    resourceLoads: ResourceLoad[] = []
+): Promise<string[]> {
+    const schedule = await prisma.masterSchedule.findUnique({
+        where: { masterId_workDate: { masterId, workDate } },
+    });
+
+    if (!schedule || schedule.isDayOff) {
+        return [];
+    }
+
+    const existingBookings = await prisma.booking.findMany({
+        where: {
+            masterId,
+            bookingDate: workDate,
+            status: { notIn: CANCELLED_STATUSES as any },
+        },
+        select: { startTime: true, endTime: true },
+    });
+
+    return generateTimeSlots(getWorkIntervals(schedule), durationMinutes, bufferMinutes, existingBookings, resourceLoads);
+}
+
+/**
+ * Активні майстри, що надають усі послуги serviceIds (у порядку sortOrder)
+ */
+export async function getMastersForServices(serviceIds: string[]): Promise<string[]> {
+    const masters = await prisma.master.findMany({
+        where: {
+            isActive: true,
+            AND: serviceIds.map((serviceId) => ({ masterServices: { some: { serviceId } } })),
+        },
+        select: { id: true },
+        orderBy: { sortOrder: 'asc' },
+    });
+
+    return masters.map((master: any) => master.id);
+}
+
+/**
+ * Вільні слоти на дату для послуг serviceIds: у майстра masterId або, без нього ("будь-який майстер"),
+ * об'єднані слоти всіх майстрів, що надають ці послуги
+ */
+export async function getAvailableSlots(
+    masterId: string | undefined,
+    serviceIds: string[],
+    workDate: Date,
+    durationMinutes: number
+): Promise<string[]> {
+    const [resourceLoads, bufferMinutes] = await Promise.all([
+        getRequiredResourceIds(serviceIds).then((resourceIds) => getResourceLoads(resourceIds, workDate)),
+        getSetting('buffer_minutes'),
+    ]);
+
+    if (masterId) {
+        return getMasterSlots(masterId, workDate, durationMinutes, bufferMinutes, resourceLoads);
+    }
+
+    // Слот вільний, якщо він вільний хоча б в одного майстра
+    const masterIds = await getMastersForServices(serviceIds);
+    const masterSlots = await Promise.all(masterIds.map((id) =>
+        getMasterSlots(id, workDate, durationMinutes, bufferMinutes, resourceLoads)
+    ));
+    return [...new Set(masterSlots.flat())].sort();
+}
+
+/**
+ * Призначити майстра для бронювання без вибору майстра ("будь-який майстер").
+ * Серед тих, хто працює весь проміжок і вільний, перевага — майстру останнього завершеного візиту клієнта,
+ * далі — найменш завантаженому цього дня, за рівності — за sortOrder.
+ * Повертає null, якщо вільних майстрів немає; зайнятість ресурсів (спільна для всіх) кидає BookingConflictError.
+ * Остаточна перевірка слоту все одно виконується під withSlotLock; excludeMasterIds — майстри,
+ * яких паралельний запит уже зайняв між вибором і локом.
+ */
+export async function pickMasterForSlot(
+    userId: string,
+    serviceIds: string[],
+    slot: Omit<SlotRequest, 'masterId' | 'excludeBookingId'>,
+    excludeMasterIds: string[] = []
+): Promise<string | null> {
+    const masterIds = (await getMastersForServices(serviceIds)).filter((id) => !excludeMasterIds.includes(id));
+
+    if (masterIds.length === 0) {
+        return null;
+    }
+
+    const [schedules, dayLoads, lastVisit] = await Promise.all([
+        prisma.masterSchedule.findMany({
+            where: { masterId: { in: masterIds }, workDate: slot.bookingDate, isDayOff: false },
+        }),
+        prisma.booking.groupBy({
+            by: ['masterId'],
+            where: {
+                masterId: { in: masterIds },
+                bookingDate: slot.bookingDate,
+                status: { notIn: CANCELLED_STATUSES as any },
+            },
+            _count: { _all: true },
+        }),
+        prisma.booking.findFirst({
+            where: { userId, masterId: { in: masterIds }, status: 'completed' },
+            orderBy: [{ bookingDate: 'desc' }, { startTime: 'desc' }],
+            select: { masterId: true },
+        }),
+    ]);
+
+    const loadByMaster = new Map<string, number>(dayLoads.map((row: any) => [row.masterId, row._count._all]));
+    const isPreferred = (masterId: string) => (masterId === lastVisit?.masterId ? 1 : 0);
+
+    const candidates = masterIds
+        .filter((masterId) => {
+            const schedule = schedules.find((s: any) => s.masterId === masterId);
+            return schedule && isWithinWorkIntervals(getWorkIntervals(schedule), slot.startTime, slot.endTime);
+        })
+        .sort((a, b) =>
+            isPreferred(b) - isPreferred(a) || (loadByMaster.get(a) ?? 0) - (loadByMaster.get(b) ?? 0)
+        );
+
+    for (const masterId of candidates) {
+        try {
+            await assertSlotAvailable({ ...slot, masterId });
+            return masterId;
+        } catch (error) {
+            if (!(error instanceof BookingConflictError) || error.code !== 'SLOT_TAKEN') {
+                throw error;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Запланувати нагадування за 24 і 2 години до візиту (ті, що вже в минулому, пропускаються)
+ */
+export async function scheduleBookingReminders(
+    booking: { id: string; userId: string; bookingDate: Date; startTime: string },
+    payload: Record<string, string>
+): Promise<void> {
+    const timeZone = await getSetting('salon_timezone');
+    const startsAt = zonedDateTimeToUtc(toDateKey(booking.bookingDate), booking.startTime, timeZone);
+    const now = new Date();
+
+    const reminders = [
+        { type: 'reminder_24h', scheduledAt: addHours(startsAt, -24) },
+        { type: 'reminder_2h', scheduledAt: addHours(startsAt, -2) },
+    ].filter((reminder) => reminder.scheduledAt > now);
+
+    await Promise.all(reminders.map((reminder) =>
+        scheduleNotification(booking.userId, reminder.type, reminder.scheduledAt, booking.id, payload)
+    ));
+}
+
+/**
+ * Перевірити послуги й тривалості для майстра та порахувати ціну з надбавкою майстра; кидає BookingError
+ */
+export async function priceBookingItems(
+    masterId: string,
+    serviceDurations: ServiceDurationInput[]
+): Promise<{ items: PricedBookingItem[]; totalDuration: number; totalPrice: number }> {
+    let totalDuration = 0;
+    let totalPrice = 0;
+    const items: PricedBookingItem[] = [];
+
+    for (const sd of serviceDurations) {
+        const duration = await prisma.serviceDuration.findUnique({
+            where: { id: sd.durationId, isActive: true },
+        });
+
+        if (!duration || duration.serviceId !== sd.serviceId) {
+            throw new BookingError('Invalid service/duration combination', 'INVALID_SERVICE');
+        }
+
+        const masterService = await prisma.masterService.findUnique({
+            where: {
+                masterId_serviceId: { masterId, serviceId: sd.serviceId },
+            },
+        });
+
+        if (!masterService) {
+            throw new BookingError('Master does not provide this service', 'MASTER_SERVICE_NOT_AVAILABLE');
+        }
+
+        const price = Number(duration.basePrice) + Number(masterService.priceModifier);
+
+        totalDuration += duration.durationMinutes;
+        totalPrice += price;
+        items.push({ serviceId: sd.serviceId, durationId: sd.durationId, price });
+    }
+
+    return { items, totalDuration, totalPrice };
+}
+
+/**
+ * Чи працює майстер увесь проміжок (в одному робочому інтервалі, не через перерву)
+ */
+export async function isMasterWorking(
+    masterId: string,
+    workDate: Date,
+    startTime: string,
+    endTime: string
+): Promise<boolean> {
+    const schedule = await prisma.masterSchedule.findUnique({
+        where: { masterId_workDate: { masterId, workDate } },
+    });
+
+    return !!schedule && !schedule.isDayOff && isWithinWorkIntervals(getWorkIntervals(schedule), startTime, endTime);
+}
+
+// Include бронювання у відповіді клієнту після створення
+const CREATED_BOOKING_INCLUDE = {
+    master: { select: { displayName: true, photoUrl: true } },
+    items: {
+        include: {
+            service: { select: { name: true } },
+            duration: { select: { durationMinutes: true } },
+        },
+    },
+};
+
+// Наступний штамп лояльності клієнта (кожен stampsForReward-й — винагорода)
+async function addLoyaltyStamp(tx: any, loyaltySettings: any, userId: string, bookingId: string): Promise<void> {
+    const userStamps = await tx.loyaltyStamp.count({
+        where: { userId, isReward: false },
+    });
+    const nextStampNumber = userStamps + 1;
+    const isReward = loyaltySettings.stampsForReward > 0 &&
+        nextStampNumber % loyaltySettings.stampsForReward === 0;
+
+    await tx.loyaltyStamp.create({
+        data: {
+            userId,
+            bookingId,
+            stampNumber: nextStampNumber,
+            isReward,
+        },
+    });
+}
+
+/**
+ * Створити бронювання з послугами й ресурсами, записати використання промокоду, списати сеанс пакета й оплату сертифікатом,
+ * нарахувати штамп лояльності. Викликати під withSlotLock після assertSlotAvailable;
+ * PromoCodeError, PackageError чи GiftCertificateError скасовує всю транзакцію.
+ */
+export async function insertBooking(data: NewBookingData): Promise<any> {
+    const loyaltySettings = await prisma.loyaltySettings.findFirst({
+        where: { isActive: true },
+    });
+
+    return prisma.$transaction(async (tx: any) => {
+        const booking = await tx.booking.create({
+            data: {
+                userId: data.userId,
+                masterId: data.masterId,
+                bookingDate: data.bookingDate,
+                startTime: data.startTime,
+                endTime: data.endTime,
+                status: 'pending_confirmation',
+                totalPrice: data.totalPrice,
+                discountAmount: data.discountAmount,
+                promoCodeId: data.promoCodeId,
+                seriesId: data.seriesId ?? null,
+                userPackageId: data.userPackageId ?? null,
+                items: {
+                    create: data.items.map((item, index) => ({
+                        serviceId: item.serviceId,
+                        durationId: item.durationId,
+                        price: item.price,
+                        sortOrder: index,
+                    })),
+                },
+                resources: {
+                    create: data.resourceIds.map((resourceId) => ({ resourceId })),
+                },
+            },
+            include: CREATED_BOOKING_INCLUDE,
+        });
+
+        if (data.promoCodeId) {
+            await redeemPromoCode(tx, {
+                promoCodeId: data.promoCodeId,
+                userId: data.userId,
+                bookingId: booking.id,
+                discountAmount: data.promoDiscount ?? 0,
+            });
+        }
+
+        if (data.userPackageId) {
+            await consumePackageSession(tx, { userPackageId: data.userPackageId, bookingId: booking.id });
+        }
+
+        if (data.giftCertificate && data.giftCertificate.amount > 0) {
+            await redeemCertificate(tx, {
+                certificateId: data.giftCertificate.id,
+                bookingId: booking.id,
+                userId: data.userId,
+                amount: data.giftCertificate.amount,
+            });
+        }
+
+        if (loyaltySettings) {
+            await addLoyaltyStamp(tx, loyaltySettings, data.userId, booking.id);
+        }
+
+        return booking;
+    });
+}
+
+/**
+ * Створити групове бронювання: групу зі спільною ціною та по бронюванню на кожного учасника.
+ * Ресурси прив'язуються лише до першого бронювання, штамп лояльності — один на групу.
+ * Викликати під withSlotLock після assertGroupSlotAvailable.
+ */
+export async function insertBookingGroup(data: NewBookingGroupData): Promise<{ group: any; bookings: any[] }> {
+    const loyaltySettings = await prisma.loyaltySettings.findFirst({
+        where: { isActive: true },
+    });
+    const totalPrice = data.participants.reduce((sum, participant) => sum + participant.totalPrice, 0);
+
+    return prisma.$transaction(async (tx: any) => {
+        const group = await tx.bookingGroup.create({
+            data: { userId: data.userId, totalPrice },
+        });
+
+        const bookings: any[] = [];
+
+        for (const [index, participant] of data.participants.entries()) {
+            bookings.push(await tx.booking.create({
+                data: {
+                    userId: data.userId,
+                    masterId: participant.masterId,
+                    bookingDate: data.bookingDate,
+                    startTime: data.startTime,
+                    endTime: data.endTime,
+                    status: 'pending_confirmation',
+                    totalPrice: participant.totalPrice,
+                    groupId: group.id,
+                    items: {
+                        create: participant.items.map((item, sortOrder) => ({
+                            serviceId: item.serviceId,
+                            durationId: item.durationId,
+                            price: item.price,
+                            sortOrder,
+                        })),
+                    },
+                    resources: {
+                        create: index === 0 ? data.resourceIds.map((resourceId) => ({ resourceId })) : [],
+                    },
+                },
+                include: CREATED_BOOKING_INCLUDE,
+            }));
+        }
+
+        if (loyaltySettings) {
+            await addLoyaltyStamp(tx, loyaltySettings, data.userId, bookings[0].id);
+        }
+
+        return { group, bookings };
+    });
+}
+
+/**
+ * Перенести бронювання на інший час того ж майстра (тривалість і ресурси зберігаються).
+ * Кидає BookingError, якщо майстер у цей час не працює, і BookingConflictError, якщо слот зайнятий.
+ */
+export async function moveBooking(
+    booking: { id: string; masterId: string; startTime: string; endTime: string; resources: { resourceId: string }[] },
+    bookingDate: Date,
+    startTime: string
+): Promise<any> {
+    const endTime = calculateEndTime(startTime, calculateDurationMinutes(booking.startTime, booking.endTime));
+
+    if (!(await isMasterWorking(booking.masterId, bookingDate, startTime, endTime))) {
+        throw new BookingError('Master is not working at this time', 'SLOT_NOT_AVAILABLE', 409);
+    }
+
+    const slot = {
+        masterId: booking.masterId,
+        bookingDate,
+        startTime,
+        endTime,
+        resourceIds: booking.resources.map((r) => r.resourceId),
+        excludeBookingId: booking.id,
+    };
+
+    // Перевірка та переміщення під локом нового слоту, як і при створенні
+    return withSlotLock(slot, async () => {
+        await assertSlotAvailable(slot);
+        return prisma.booking.update({
+            where: { id: booking.id },
+            data: { bookingDate, startTime, endTime },
+            include: CREATED_BOOKING_INCLUDE,
+        });
+    });
+}
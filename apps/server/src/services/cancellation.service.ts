@@ -0,0 +1,277 @@
+import { differenceInMinutes } from 'date-fns';
+import { prisma } from '../config/database.js';
+import { getPaymentProvider } from './payment.service.js';
+import { getSetting } from './settings.service.js';
+import { restoreCertificateBalance } from './gift-certificate.service.js';
+import { restorePackageSession } from './package.service.js';
+import { releasePromoRedemption } from './promo.service.js';
+import { toDateKey, zonedDateTimeToUtc } from '../shared/utils/timezone.js';
+
+/**
+ * Хто ініціював скасування (визначає правило політики)
+ */
+export type CancellationInitiator = 'client' | 'admin' | 'no_show';
+
+export interface RefundPreview {
+    paidAmount: number;
+    refundPercent: number;
+    refundAmount: number;
+    hoursBefore: number;
+}
+
+export interface RefundSummary extends RefundPreview {
+    refundedAmount: number;
+    failedAmount: number;
+}
+
+// Статуси, після яких повернення вже застосовано (повторно не повертаємо)
+export const CANCELLED_STATUSES = ['cancelled_by_client', 'cancelled_by_admin', 'no_show'];
+
+// Статуси, з яких клієнт може скасувати (або перенести) бронювання
+export const CLIENT_CANCELLABLE_STATUSES = ['pending_confirmation', 'confirmed', 'deposit_pending', 'deposit_paid'];
+
+// Причина скасування, коли передоплату не внесено вчасно
+export const DEPOSIT_EXPIRED_REASON = 'deposit_expired';
+
+/**
+ * Момент початку візиту (дата й час візиту задані за часовим поясом салону)
+ */
+export function getBookingStartDateTime(booking: { bookingDate: Date; startTime: string }, timeZone: string): Date {
+    return zonedDateTimeToUtc(toDateKey(booking.bookingDate), booking.startTime, timeZone);
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Додати суми повернення part до total (для спільної передоплати групового бронювання)
+ */
+export function addRefundAmounts(total: Partial<RefundSummary> & RefundPreview, part: Partial<RefundSummary> & RefundPreview): void {
+    total.paidAmount = roundMoney(total.paidAmount + part.paidAmount);
+    total.refundAmount = roundMoney(total.refundAmount + part.refundAmount);
+
+    if (total.refundedAmount !== undefined) {
+        total.refundedAmount = roundMoney(total.refundedAmount + (part.refundedAmount ?? 0));
+        total.failedAmount = roundMoney((total.failedAmount ?? 0) + (part.failedAmount ?? 0));
+    }
+}
+
+/**
+ * Розрахувати суму повернення за політикою скасування (без проведення платежів)
+ */
+export async function previewCancellationRefund(
+    booking: { id: string; bookingDate: Date; startTime: string },
+    initiator: CancellationInitiator,
+    now: Date = new Date()
+): Promise<RefundPreview> {
+    const [policy, timeZone, payments] = await Promise.all([
+        getSetting('cancellation_policy'),
+        getSetting('salon_timezone'),
+        prisma.payment.findMany({
+            where: { bookingId: booking.id },
+            select: { amount: true, type: true, status: true },
+        }),
+    ]);
+
+    // Сплачено = успішні платежі (включно з уже повернутими) мінус успішні повернення
+    const paidAmount = roundMoney(payments.reduce((sum: number, payment: any) => {
+        if (payment.type === 'refund') {
+            return payment.status === 'success' ? sum - Number(payment.amount) : sum;
+        }
+        return ['success', 'refunded'].includes(payment.status) ? sum + Number(payment.amount) : sum;
+    }, 0));
+
+    const hoursBefore = differenceInMinutes(getBookingStartDateTime(booking, timeZone), now) / 60;
+
+    let refundPercent = 0;
+    if (initiator === 'admin') {
+        refundPercent = policy.adminRefundPercent;
+    } else if (initiator === 'no_show') {
+        refundPercent = policy.noShowRefundPercent;
+    } else {
+        const rule = [...policy.rules]
+            .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+            .find((r) => hoursBefore >= r.minHoursBefore);
+        refundPercent = rule?.refundPercent ?? 0;
+    }
+
+    return {
+        paidAmount: Math.max(paidAmount, 0),
+        refundPercent,
+        refundAmount: Math.max(roundMoney(paidAmount * refundPercent / 100), 0),
+        hoursBefore: Math.round(hoursBefore * 10) / 10,
+    };
+}
+
+/**
+ * Наступні після booking візити тієї ж серії у статусах statuses (для скасування "цього й усіх наступних")
+ */
+export async function getLaterSeriesBookings(
+    booking: { id: string; seriesId: string | null; bookingDate: Date },
+    statuses: string[]
+) {
+    if (!booking.seriesId) {
+        return [];
+    }
+
+    return prisma.booking.findMany({
+        where: {
+            seriesId: booking.seriesId,
+            id: { not: booking.id },
+            bookingDate: { gt: booking.bookingDate },
+            status: { in: statuses as any },
+        },
+        orderBy: { bookingDate: 'asc' },
+    });
+}
+
+/**
+ * Інші бронювання тієї ж групи у статусах statuses (групове бронювання скасовується лише цілком)
+ */
+export async function getGroupPartnerBookings(
+    booking: { id: string; groupId: string | null },
+    statuses: string[]
+) {
+    if (!booking.groupId) {
+        return [];
+    }
+
+    return prisma.booking.findMany({
+        where: {
+            groupId: booking.groupId,
+            id: { not: booking.id },
+            status: { in: statuses as any },
+        },
+    });
+}
+
+/**
+ * Провести повернення за політикою скасування.
+ * Кожне повернення — окремий Payment типу refund; невдалі лишаються зі статусом failed для ручної обробки.
+ * Сеанс пакета повертається лише за повного повернення (пізнє скасування його "спалює").
+ * Використання промокоду звільняється при будь-якому скасуванні, але не при неявці.
+ */
+export async function applyCancellationRefund(
+    booking: { id: string; userId: string; bookingDate: Date; startTime: string },
+    initiator: CancellationInitiator
+): Promise<RefundSummary> {
+    const preview = await previewCancellationRefund(booking, initiator);
+    let remaining = preview.refundAmount;
+    let refundedAmount = 0;
+    let failedAmount = 0;
+
+    if (preview.refundPercent >= 100) {
+        await restorePackageSession(booking.id);
+    }
+
+    if (initiator !== 'no_show') {
+        await releasePromoRedemption(booking.id);
+    }
+
+    if (remaining <= 0) {
+        return { ...preview, refundedAmount, failedAmount };
+    }
+
+    const paidPayments = await prisma.payment.findMany({
+        where: {
+            bookingId: booking.id,
+            type: { in: ['deposit', 'full', 'certificate_redemption'] },
+            status: 'success',
+        },
+        orderBy: { createdAt: 'asc' },
+    });
+
+    for (const original of paidPayments) {
+        if (remaining <= 0) break;
+
+        const amount = roundMoney(Math.min(Number(original.amount), remaining));
+        remaining = roundMoney(remaining - amount);
+
+        if (await refundPayment(original, amount)) {
+            refundedAmount = roundMoney(refundedAmount + amount);
+        } else {
+            failedAmount = roundMoney(failedAmount + amount);
+        }
+    }
+
+    return { ...preview, refundedAmount, failedAmount };
+}
+
+/**
+ * Повернути кошти за одним успішним платежем.
+ * Оплата сертифікатом повертається на його баланс, решта — через провайдера.
+ * Повертає false, якщо провайдер відмовив (Payment типу refund лишається failed).
+ */
+export async function refundPayment(
+    original: {
+        id: string;
+        bookingId: string | null;
+        giftCertificateId?: string | null;
+        userId: string;
+        type?: string;
+        amount: unknown;
+        providerTxId: string | null;
+    },
+    amount: number = Number(original.amount)
+): Promise<boolean> {
+    const isCertificate = original.type === 'certificate_redemption' && !!original.giftCertificateId;
+
+    const refund = await prisma.payment.create({
+        data: {
+            bookingId: original.bookingId,
+            giftCertificateId: original.giftCertificateId ?? null,
+            userId: original.userId,
+            amount,
+            type: 'refund',
+            status: 'pending',
+        },
+    });
+
+    if (isCertificate) {
+        await restoreCertificateBalance(original.giftCertificateId!, amount);
+        await prisma.$transaction([
+            prisma.payment.update({ where: { id: refund.id }, data: { status: 'success' } }),
+            ...(amount >= Number(original.amount)
+                ? [prisma.payment.update({ where: { id: original.id }, data: { status: 'refunded' } })]
+                : []),
+        ]);
+        return true;
+    }
+
+    try {
+        const result = await getPaymentProvider().refund({
+            orderId: original.id,
+            providerTxId: original.providerTxId,
+            amount,
+        });
+
+        await prisma.$transaction([
+            prisma.payment.update({
+                where: { id: refund.id },
+                data: {
+                    status: 'success',
+                    providerTxId: result.providerTxId,
+                    providerResponse: result.providerResponse as any,
+                },
+            }),
+            ...(amount >= Number(original.amount)
+                ? [prisma.payment.update({ where: { id: original.id }, data: { status: 'refunded' } })]
+                : []),
+        ]);
+
+        return true;
+    } catch (error) {
+        console.error(`Refund for payment ${original.id} failed:`, error);
+
+        await prisma.payment.update({
+            where: { id: refund.id },
+            data: {
+                status: 'failed',
+                providerResponse: { error: error instanceof Error ? error.message : String(error) },
+            },
+        });
+
+        return false;
+    }
+}
@@ -0,0 +1,197 @@
+import { addMonths } from 'date-fns';
+import { InlineKeyboard } from 'grammy';
+import { prisma } from '../config/database.js';
+import { buildStartLink } from '../bot/bot.js';
+import { sendNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import { randomCode } from '../shared/utils/codes.js';
+import { formatDbDate, getZonedParts, toDbDate } from '../shared/utils/timezone.js';
+
+const CODE_GROUP_LENGTH = 4;
+
+// Префікс payload у deep link /start для сертифіката
+export const GIFT_START_PREFIX = 'gift_';
+
+/**
+ * Сертифікат не можна купити чи використати (повертається клієнту з statusCode)
+ */
+export class GiftCertificateError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'GiftCertificateError';
+    }
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Дата закінчення дії сертифіката "dd.MM.yyyy" за часовим поясом салону
+ */
+export function formatCertificateExpiry(expiresAt: Date, timeZone: string): string {
+    return formatDbDate(toDbDate(getZonedParts(expiresAt, timeZone).date));
+}
+
+/**
+ * Код сертифіката у вигляді "GIFT-XXXX-XXXX"
+ */
+export function generateCertificateCode(): string {
+    return `GIFT-${randomCode(CODE_GROUP_LENGTH)}-${randomCode(CODE_GROUP_LENGTH)}`;
+}
+
+/**
+ * Код з введення клієнта або deep link → формат, у якому він зберігається
+ */
+export function normalizeCertificateCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/**
+ * Посилання на бота, що відкриває сертифікат (для пересилання отримувачу)
+ */
+export function getCertificateShareLink(code: string): string {
+    return buildStartLink(`${GIFT_START_PREFIX}${code}`);
+}
+
+/**
+ * Створити сертифікат, що очікує оплати; активується після успішного платежу
+ */
+export async function createGiftCertificate(
+    purchaserId: string,
+    data: { amount: number; recipientName?: string; message?: string }
+) {
+    const [limits, validMonths] = await Promise.all([
+        getSetting('gift_certificate_amount_limits'),
+        getSetting('gift_certificate_valid_months'),
+    ]);
+
+    if (data.amount < limits.min || data.amount > limits.max) {
+        throw new GiftCertificateError(
+            `Certificate amount must be between ${limits.min} and ${limits.max}`,
+            'INVALID_AMOUNT'
+        );
+    }
+
+    return prisma.giftCertificate.create({
+        data: {
+            code: generateCertificateCode(),
+            amount: data.amount,
+            balance: data.amount,
+            status: 'pending',
+            expiresAt: addMonths(new Date(), validMonths),
+            purchaserId,
+            recipientName: data.recipientName || null,
+            message: data.message || null,
+        },
+    });
+}
+
+/**
+ * Знайти сертифікат, яким зараз можна оплатити візит; кидає GiftCertificateError
+ */
+export async function getRedeemableCertificate(code: string, now: Date = new Date()) {
+    const certificate = await prisma.giftCertificate.findUnique({
+        where: { code: normalizeCertificateCode(code) },
+    });
+
+    if (!certificate || certificate.status === 'pending') {
+        throw new GiftCertificateError('Gift certificate not found', 'CERTIFICATE_NOT_FOUND', 404);
+    }
+
+    if (certificate.status !== 'active' || Number(certificate.balance) <= 0) {
+        throw new GiftCertificateError('Gift certificate is no longer valid', 'CERTIFICATE_NOT_ACTIVE');
+    }
+
+    if (certificate.expiresAt <= now) {
+        throw new GiftCertificateError('Gift certificate has expired', 'CERTIFICATE_EXPIRED');
+    }
+
+    return certificate;
+}
+
+/**
+ * Списати amount з балансу сертифіката в оплату бронювання.
+ * Викликати всередині транзакції створення бронювання: умовне списання захищає від одночасного використання.
+ */
+export async function redeemCertificate(
+    tx: any,
+    data: { certificateId: string; bookingId: string; userId: string; amount: number }
+): Promise<void> {
+    const { count } = await tx.giftCertificate.updateMany({
+        where: {
+            id: data.certificateId,
+            status: 'active',
+            balance: { gte: data.amount },
+            expiresAt: { gt: new Date() },
+        },
+        data: { balance: { decrement: data.amount } },
+    });
+
+    if (count === 0) {
+        throw new GiftCertificateError('Gift certificate balance has changed', 'CERTIFICATE_BALANCE_CHANGED', 409);
+    }
+
+    // Вичерпаний сертифікат більше не пропонуємо до оплати
+    await tx.giftCertificate.updateMany({
+        where: { id: data.certificateId, balance: { lte: 0 } },
+        data: { status: 'used' },
+    });
+
+    await tx.payment.create({
+        data: {
+            bookingId: data.bookingId,
+            giftCertificateId: data.certificateId,
+            userId: data.userId,
+            amount: data.amount,
+            type: 'certificate_redemption',
+            status: 'success',
+        },
+    });
+}
+
+/**
+ * Повернути amount на баланс сертифіката (повернення за скасованим візитом).
+ * Анульований сертифікат лишається анульованим — баланс зростає, але використати його не вийде.
+ */
+export async function restoreCertificateBalance(certificateId: string, amount: number): Promise<void> {
+    await prisma.$transaction([
+        prisma.giftCertificate.update({
+            where: { id: certificateId },
+            data: { balance: { increment: roundMoney(amount) } },
+        }),
+        prisma.giftCertificate.updateMany({
+            where: { id: certificateId, status: 'used' },
+            data: { status: 'active' },
+        }),
+    ]);
+}
+
+/**
+ * Надіслати покупцю повідомлення з сертифікатом і кнопкою-посиланням, яке можна переслати отримувачу
+ */
+export async function sendGiftCertificate(certificate: {
+    id: string;
+    code: string;
+    amount: unknown;
+    expiresAt: Date;
+    purchaserId: string;
+}): Promise<void> {
+    const link = getCertificateShareLink(certificate.code);
+    const timeZone = await getSetting('salon_timezone');
+
+    await sendNotification({
+        userId: certificate.purchaserId,
+        type: 'gift_certificate_purchased',
+        params: {
+            certificate_code: certificate.code,
+            amount: String(Number(certificate.amount)),
+            date: formatCertificateExpiry(certificate.expiresAt, timeZone),
+        },
+        replyMarkup: new InlineKeyboard().url('🎁 Отримати подарунок', link),
+    });
+}
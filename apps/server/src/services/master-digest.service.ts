@@ -0,0 +1,181 @@
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { CANCELLED_STATUSES } from './cancellation.service.js';
+import { sendNotification } from './notification.service.js';
+import { getWorkIntervals, type WorkInterval } from './schedule.service.js';
+import { getSetting } from './settings.service.js';
+import { escapeHtml, formatMessage, Language, localizedName } from '../shared/utils/message-templates.js';
+import { addDaysToKey, formatDbDate, getZonedParts, toDbDate } from '../shared/utils/timezone.js';
+
+// Коротші проміжки між візитами не показуються як вільні (прибирання, буфер)
+const MIN_GAP_MINUTES = 30;
+
+// Дайджест на дату надсилається один раз, навіть якщо майстер змінить час після відправки
+const SENT_KEY_TTL_SECONDS = 36 * 60 * 60;
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Вільні проміжки робочого дня між візитами (не коротші за MIN_GAP_MINUTES)
+ */
+function getFreeGaps(
+    intervals: WorkInterval[],
+    bookings: { startTime: string; endTime: string }[]
+): WorkInterval[] {
+    const gaps: WorkInterval[] = [];
+
+    for (const interval of intervals) {
+        let cursor = interval.startTime;
+
+        for (const booking of bookings) {
+            if (booking.endTime <= cursor || booking.startTime >= interval.endTime) {
+                continue;
+            }
+            if (booking.startTime > cursor) {
+                gaps.push({ startTime: cursor, endTime: booking.startTime });
+            }
+            if (booking.endTime > cursor) {
+                cursor = booking.endTime;
+            }
+        }
+
+        if (cursor < interval.endTime) {
+            gaps.push({ startTime: cursor, endTime: interval.endTime });
+        }
+    }
+
+    return gaps.filter((gap) => timeToMinutes(gap.endTime) - timeToMinutes(gap.startTime) >= MIN_GAP_MINUTES);
+}
+
+/**
+ * Текст розкладу майстра на день: візити (час, клієнт, послуги, нотатки) і вільні проміжки між ними.
+ * null — вихідний або розклад на день не заданий.
+ */
+export async function buildMasterDigest(
+    masterId: string,
+    workDate: Date,
+    language: Language
+): Promise<string | null> {
+    const schedule = await prisma.masterSchedule.findUnique({
+        where: { masterId_workDate: { masterId, workDate } },
+    });
+
+    if (!schedule || schedule.isDayOff) {
+        return null;
+    }
+
+    const bookings = await prisma.booking.findMany({
+        where: {
+            masterId,
+            bookingDate: workDate,
+            status: { notIn: CANCELLED_STATUSES as any },
+        },
+        include: {
+            user: { select: { firstName: true, lastName: true, phone: true } },
+            items: {
+                include: { service: { select: { name: true } } },
+                orderBy: { sortOrder: 'asc' },
+            },
+        },
+        orderBy: { startTime: 'asc' },
+    });
+
+    if (bookings.length === 0) {
+        return formatMessage('schedule_daily_empty', language, {});
+    }
+
+    const entries = [
+        ...bookings.map((booking: any) => {
+            const clientName = [booking.user.firstName, booking.user.lastName].filter(Boolean).join(' ');
+            const services = booking.items.map((item: any) => localizedName(item.service.name, language)).join(', ');
+            const lines = [
+                `🕐 <b>${booking.startTime}–${booking.endTime}</b> · ${escapeHtml(clientName)}`
+                    + (booking.user.phone ? ` (${escapeHtml(booking.user.phone)})` : ''),
+                `💆 ${escapeHtml(services)}`,
+            ];
+            if (booking.adminNotes?.trim()) {
+                lines.push(`📝 ${escapeHtml(booking.adminNotes.trim())}`);
+            }
+            return { startTime: booking.startTime, text: lines.join('\n') };
+        }),
+        ...getFreeGaps(getWorkIntervals(schedule), bookings).map((gap) => ({
+            startTime: gap.startTime,
+            text: formatMessage('schedule_daily_gap', language, { time: `${gap.startTime}–${gap.endTime}` }),
+        })),
+    ];
+
+    return entries
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))
+        .map((entry) => entry.text)
+        .join('\n\n');
+}
+
+/**
+ * Надіслати майстрам розклад на завтра, коли за часом салону настав їхній dailyDigestTime.
+ * Викликається повторюваним завданням кожні кілька хвилин; у вихідні дайджест не надсилається.
+ */
+export async function processMasterDigests(now: Date = new Date()): Promise<number> {
+    const timeZone = await getSetting('salon_timezone');
+    const salonNow = getZonedParts(now, timeZone);
+    const tomorrowKey = addDaysToKey(salonNow.date, 1);
+    const workDate = toDbDate(tomorrowKey);
+
+    // "HH:mm" порівнюються як рядки
+    const masters = await prisma.master.findMany({
+        where: {
+            isActive: true,
+            dailyDigestTime: { not: null, lte: salonNow.time },
+        },
+        include: {
+            user: { select: { id: true, language: true } },
+        },
+    });
+
+    let sent = 0;
+
+    for (const master of masters) {
+        const sentKey = `digest:${master.id}:${tomorrowKey}`;
+        if (await redis.exists(sentKey)) {
+            continue;
+        }
+
+        const language = (master.user.language || 'uk') as Language;
+        const schedule = await buildMasterDigest(master.id, workDate, language);
+
+        if (schedule === null) {
+            continue;
+        }
+
+        // NX: паралельний запуск завдання не надішле дайджест двічі
+        const claimed = await redis.set(sentKey, '1', 'EX', SENT_KEY_TTL_SECONDS, 'NX');
+        if (!claimed) {
+            continue;
+        }
+
+        const delivered = await sendNotification({
+            type: 'schedule_daily',
+            userId: master.user.id,
+            language,
+            params: {
+                date: formatDbDate(workDate),
+                schedule,
+            },
+        });
+
+        // Не доставлено — ключ знімається, наступний запуск завдання спробує ще раз
+        if (!delivered) {
+            await redis.del(sentKey);
+            continue;
+        }
+
+        sent++;
+    }
+
+    if (sent > 0) {
+        console.log(`Sent ${sent} master schedule digests`);
+    }
+    return sent;
+}
@@ -1,6 +1,7 @@
+import type { InlineKeyboard } from 'grammy';
 import { prisma } from '../config/database.js';
 import { sendBotMessage } from '../bot/bot.js';
-import { formatMessage, Language, MessageTemplateParams } from '../shared/utils/message-templates.js';
+import { escapeHtml, formatMessage, Language, MessageTemplateParams } from '../shared/utils/message-templates.js';
 
 /**
  * Інтерфейс для даних відправки сповіщення
@@ -11,13 +12,14 @@ export interface SendNotificationData {
     type: string;
     language?: string;
     params?: MessageTemplateParams;
+    replyMarkup?: InlineKeyboard;
 }
 
 /**
  * Відправити сповіщення користувачу через Telegram
  */
 export async function sendNotification(data: SendNotificationData): Promise<boolean> {
-    const { userId, bookingId, type, language = 'uk', params = {} } = data;
+    const { userId, bookingId, type, language = 'uk', params = {}, replyMarkup } = data;
 
     try {
         // Отримати користувача
@@ -35,7 +37,7 @@ export async function sendNotification(data: SendNotificationData): Promise<bool
 
         // Форматувати повідомлення
         const messageText = formatMessage(type, userLanguage, {
-            client_name: user.firstName || 'друже',
+            client_name: escapeHtml(user.firstName || 'друже'),
             ...params,
         });
 
@@ -46,7 +48,7 @@ export async function sendNotification(data: SendNotificationData): Promise<bool
 
         // Відправити через бота
         const chatId = Number(user.telegramId);
-        await sendBotMessage(chatId, messageText);
+        await sendBotMessage(chatId, messageText, { replyMarkup });
 
         // Записати в базу даних
         await prisma.notification.create({
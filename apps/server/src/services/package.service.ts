@@ -0,0 +1,242 @@
+import { addDays } from 'date-fns';
+import { prisma } from '../config/database.js';
+
+/**
+ * Операцію з пакетом сеансів не можна виконати (повертається клієнту з statusCode)
+ */
+export class PackageError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'PackageError';
+    }
+}
+
+// Поля продукту пакета, які показуються клієнту й адміну разом із балансом
+export const USER_PACKAGE_INCLUDE = {
+    package: {
+        select: {
+            id: true,
+            name: true,
+            sessionsCount: true,
+            service: { select: { id: true, name: true } },
+            duration: { select: { id: true, durationMinutes: true } },
+        },
+    },
+} as const;
+
+/**
+ * Активний пакет клієнта, що покриває одну з послуг візиту (пакет, що спливає найраніше — першим).
+ * Пакет має діяти на дату візиту visitDate.
+ */
+export async function findCoveringPackage(
+    userId: string,
+    items: { serviceId: string; durationId: string }[],
+    visitDate: Date
+): Promise<{ userPackage: any; itemIndex: number } | null> {
+    if (items.length === 0) {
+        return null;
+    }
+
+    const userPackage = await prisma.userPackage.findFirst({
+        where: {
+            userId,
+            sessionsRemaining: { gt: 0 },
+            expiresAt: { gt: visitDate },
+            package: {
+                OR: items.map((item) => ({ serviceId: item.serviceId, durationId: item.durationId })),
+            },
+        },
+        include: { package: true },
+        orderBy: { expiresAt: 'asc' },
+    });
+
+    if (!userPackage) {
+        return null;
+    }
+
+    const itemIndex = items.findIndex((item) =>
+        item.serviceId === userPackage.package.serviceId && item.durationId === userPackage.package.durationId
+    );
+
+    return { userPackage, itemIndex };
+}
+
+/**
+ * Списати один сеанс пакета за бронювання.
+ * Викликати всередині транзакції створення бронювання: умовне списання захищає від одночасного використання.
+ */
+export async function consumePackageSession(
+    tx: any,
+    data: { userPackageId: string; bookingId: string }
+): Promise<void> {
+    const { count } = await tx.userPackage.updateMany({
+        where: {
+            id: data.userPackageId,
+            sessionsRemaining: { gt: 0 },
+            expiresAt: { gt: new Date() },
+        },
+        data: { sessionsRemaining: { decrement: 1 } },
+    });
+
+    if (count === 0) {
+        throw new PackageError('Package balance has changed', 'PACKAGE_BALANCE_CHANGED', 409);
+    }
+
+    const userPackage = await tx.userPackage.findUnique({ where: { id: data.userPackageId } });
+
+    await tx.userPackageLog.create({
+        data: {
+            userPackageId: data.userPackageId,
+            type: 'consumed',
+            delta: -1,
+            balanceAfter: userPackage.sessionsRemaining,
+            bookingId: data.bookingId,
+        },
+    });
+}
+
+/**
+ * Повернути сеанс, списаний за бронювання (після скасування).
+ * Повторний виклик нічого не змінює: повертається не більше, ніж було списано.
+ */
+export async function restorePackageSession(bookingId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx: any) => {
+        const logs = await tx.userPackageLog.findMany({
+            where: { bookingId, type: { in: ['consumed', 'restored'] } },
+            select: { userPackageId: true, type: true },
+        });
+
+        const consumed = logs.filter((log: any) => log.type === 'consumed');
+        const restoredCount = logs.length - consumed.length;
+
+        if (consumed.length <= restoredCount) {
+            return false;
+        }
+
+        const userPackage = await tx.userPackage.update({
+            where: { id: consumed[0].userPackageId },
+            data: { sessionsRemaining: { increment: 1 } },
+        });
+
+        await tx.userPackageLog.create({
+            data: {
+                userPackageId: userPackage.id,
+                type: 'restored',
+                delta: 1,
+                balanceAfter: userPackage.sessionsRemaining,
+                bookingId,
+            },
+        });
+
+        return true;
+    });
+}
+
+/**
+ * Видати клієнту пакет (продаж у салоні); термін дії рахується від моменту видачі
+ */
+export async function issuePackage(data: {
+    userId: string;
+    packageId: string;
+    actorId: string;
+    reason?: string;
+}) {
+    const sessionPackage = await prisma.sessionPackage.findUnique({
+        where: { id: data.packageId },
+    });
+
+    if (!sessionPackage || !sessionPackage.isActive) {
+        throw new PackageError('Package not found', 'NOT_FOUND', 404);
+    }
+
+    return prisma.$transaction(async (tx: any) => {
+        const userPackage = await tx.userPackage.create({
+            data: {
+                userId: data.userId,
+                packageId: sessionPackage.id,
+                sessionsTotal: sessionPackage.sessionsCount,
+                sessionsRemaining: sessionPackage.sessionsCount,
+                expiresAt: addDays(new Date(), sessionPackage.validDays),
+            },
+            include: USER_PACKAGE_INCLUDE,
+        });
+
+        await tx.userPackageLog.create({
+            data: {
+                userPackageId: userPackage.id,
+                type: 'issued',
+                delta: sessionPackage.sessionsCount,
+                balanceAfter: sessionPackage.sessionsCount,
+                actorId: data.actorId,
+                reason: data.reason || null,
+            },
+        });
+
+        return userPackage;
+    });
+}
+
+/**
+ * Ручне коригування балансу адміністратором (з причиною в журналі).
+ * Можна також продовжити термін дії; баланс не може стати від'ємним.
+ */
+export async function adjustPackageSessions(data: {
+    userPackageId: string;
+    delta: number;
+    actorId: string;
+    reason: string;
+    expiresAt?: Date;
+}) {
+    return prisma.$transaction(async (tx: any) => {
+        const existing = await tx.userPackage.findUnique({ where: { id: data.userPackageId } });
+
+        if (!existing) {
+            throw new PackageError('Package not found', 'NOT_FOUND', 404);
+        }
+
+        if (existing.sessionsRemaining + data.delta < 0) {
+            throw new PackageError('Package balance cannot become negative', 'INVALID_ADJUSTMENT');
+        }
+
+        const userPackage = await tx.userPackage.update({
+            where: { id: data.userPackageId },
+            data: {
+                sessionsRemaining: { increment: data.delta },
+                ...(data.expiresAt ? { expiresAt: data.expiresAt } : {}),
+            },
+            include: USER_PACKAGE_INCLUDE,
+        });
+
+        await tx.userPackageLog.create({
+            data: {
+                userPackageId: userPackage.id,
+                type: 'adjusted',
+                delta: data.delta,
+                balanceAfter: userPackage.sessionsRemaining,
+                actorId: data.actorId,
+                reason: data.reason,
+            },
+        });
+
+        return userPackage;
+    });
+}
+
+/**
+ * Пакети клієнта, якими ще можна скористатися (є сеанси й не минув термін)
+ */
+export async function getActivePackages(userId: string, now: Date = new Date()) {
+    return prisma.userPackage.findMany({
+        where: {
+            userId,
+            sessionsRemaining: { gt: 0 },
+            expiresAt: { gt: now },
+        },
+        include: USER_PACKAGE_INCLUDE,
+        orderBy: { expiresAt: 'asc' },
+    });
+}
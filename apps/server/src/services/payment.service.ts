@@ -0,0 +1,330 @@
+import crypto from 'node:crypto';
+import { format } from 'date-fns';
+import { env } from '../config/env.js';
+
+/**
+ * Дані для створення сторінки оплати
+ */
+export interface CheckoutRequest {
+    orderId: string;
+    amount: number;
+    description: string;
+    successUrl: string;
+    failureUrl: string;
+    language?: string;
+}
+
+export interface CheckoutResult {
+    paymentUrl: string;
+    providerResponse: unknown;
+}
+
+/**
+ * Результат обробки callback від платіжного провайдера
+ */
+export interface PaymentCallbackResult {
+    orderId: string;
+    amount: number;
+    isSuccess: boolean;
+    providerTxId: string | null;
+    raw: Record<string, unknown>;
+}
+
+/**
+ * Дані для повернення коштів за успішним платежем
+ */
+export interface RefundRequest {
+    orderId: string;
+    providerTxId: string | null;
+    amount: number;
+}
+
+export interface RefundResult {
+    providerTxId: string | null;
+    providerResponse: unknown;
+}
+
+/**
+ * Абстракція платіжного провайдера
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    createCheckout(request: CheckoutRequest): Promise<CheckoutResult>;
+    /**
+     * Перевіряє підпис і розбирає callback; успішну оплату підтверджує запитом статусу замовлення у шлюзу.
+     * Кидає PaymentSignatureError при невалідному підписі, PaymentProviderError — якщо шлюз недоступний.
+     */
+    parseCallback(body: unknown): Promise<PaymentCallbackResult>;
+    /**
+     * Повернення (повне або часткове). Кидає PaymentProviderError, якщо шлюз відмовив.
+     */
+    refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+export class PaymentSignatureError extends Error {
+    constructor(message = 'Invalid payment signature') {
+        super(message);
+        this.name = 'PaymentSignatureError';
+    }
+}
+
+export class PaymentProviderError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaymentProviderError';
+    }
+}
+
+/**
+ * Підпис Portmone: HMAC-SHA256(payeeId + dt + hex(orderNumber) + amount + hex(login), key)
+ * Використовується і для запитів до шлюзу, і для перевірки callback
+ */
+export function signPortmone(params: {
+    payeeId: string;
+    dt: string;
+    shopOrderNumber: string;
+    billAmount: string;
+    login: string;
+    key: string;
+}): string {
+    const toHex = (value: string) => Buffer.from(value, 'utf8').toString('hex');
+    const base = `${params.payeeId}${params.dt}${toHex(params.shopOrderNumber)}${params.billAmount}`.toUpperCase()
+        + toHex(params.login).toUpperCase();
+
+    return crypto
+        .createHmac('sha256', params.key)
+        .update(base)
+        .digest('hex')
+        .toUpperCase();
+}
+
+// Схема callback від шлюзу (shopOrderNumber = id платежу)
+interface PortmoneCallbackBody {
+    shopOrderNumber?: string;
+    billAmount?: string | number;
+    result?: string | number;
+    transactionId?: string | number;
+    dt?: string;
+    signature?: string;
+}
+
+// Замовлення у відповіді шлюзу на запит статусу (method: result)
+interface PortmoneOrderStatus {
+    shopBillId?: string | number;
+    status?: string;
+    billAmount?: string | number;
+}
+
+/**
+ * Провайдер Portmone (createLinkPayment)
+ * @see https://docs.portmone.com.ua/docs/en/PaymentGatewayEng
+ */
+class PortmoneProvider implements PaymentProvider {
+    readonly name = 'portmone';
+
+    private get config() {
+        const { PORTMONE_PAYEE_ID, PORTMONE_LOGIN, PORTMONE_KEY, PORTMONE_GATEWAY_URL } = env;
+
+        if (!PORTMONE_PAYEE_ID || !PORTMONE_LOGIN || !PORTMONE_KEY || !PORTMONE_GATEWAY_URL) {
+            throw new PaymentProviderError('Portmone is not configured');
+        }
+
+        return {
+            payeeId: PORTMONE_PAYEE_ID,
+            login: PORTMONE_LOGIN,
+            key: PORTMONE_KEY,
+            gatewayUrl: PORTMONE_GATEWAY_URL,
+        };
+    }
+
+    async createCheckout(request: CheckoutRequest): Promise<CheckoutResult> {
+        const { payeeId, login, key, gatewayUrl } = this.config;
+        const dt = format(new Date(), 'yyyyMMddHHmmss');
+        const billAmount = request.amount.toFixed(2);
+
+        const signature = signPortmone({
+            payeeId,
+            dt,
+            shopOrderNumber: request.orderId,
+            billAmount,
+            login,
+            key,
+        });
+
+        const response = await fetch(gatewayUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                method: 'createLinkPayment',
+                paymentTypes: { card: 'Y', gpay: 'Y', applepay: 'Y' },
+                payee: { payeeId, login, dt, signature },
+                order: {
+                    description: request.description,
+                    shopOrderNumber: request.orderId,
+                    billAmount,
+                    billCurrency: 'UAH',
+                    successUrl: request.successUrl,
+                    failureUrl: request.failureUrl,
+                    preauthFlag: 'N',
+                    encoding: 'UTF-8',
+                },
+                payer: { lang: request.language ?? 'uk' },
+            }),
+        });
+
+        if (!response.ok) {
+            throw new PaymentProviderError(`Portmone gateway responded with ${response.status}`);
+        }
+
+        const json = await response.json() as { linkPayment?: string; errorCode?: string; error?: string };
+
+        if (!json.linkPayment) {
+            throw new PaymentProviderError(json.error || `Portmone error ${json.errorCode ?? 'unknown'}`);
+        }
+
+        return { paymentUrl: json.linkPayment, providerResponse: json };
+    }
+
+    async parseCallback(body: unknown): Promise<PaymentCallbackResult> {
+        const { payeeId, login, key } = this.config;
+        const data = (body ?? {}) as PortmoneCallbackBody;
+
+        if (!data.shopOrderNumber || data.billAmount === undefined || !data.dt || !data.signature) {
+            throw new PaymentSignatureError('Missing callback fields');
+        }
+
+        const billAmount = String(data.billAmount);
+        const expected = signPortmone({
+            payeeId,
+            dt: data.dt,
+            shopOrderNumber: data.shopOrderNumber,
+            billAmount,
+            login,
+            key,
+        });
+
+        const received = Buffer.from(String(data.signature).toUpperCase());
+        const calculated = Buffer.from(expected);
+
+        if (received.length !== calculated.length || !crypto.timingSafeEqual(received, calculated)) {
+            throw new PaymentSignatureError();
+        }
+
+        // Підпис не покриває result і transactionId, тож успіх беремо лише зі статусу замовлення у шлюзі
+        if (String(data.result ?? '') !== '0') {
+            return {
+                orderId: data.shopOrderNumber,
+                amount: Number(billAmount),
+                isSuccess: false,
+                providerTxId: null,
+                raw: data as Record<string, unknown>,
+            };
+        }
+
+        const order = await this.getOrderStatus(data.shopOrderNumber);
+
+        return {
+            orderId: data.shopOrderNumber,
+            amount: Number(order?.billAmount ?? 0),
+            isSuccess: order?.status === 'PAYED',
+            providerTxId: order?.shopBillId !== undefined ? String(order.shopBillId) : null,
+            raw: { ...data, gatewayOrder: order } as Record<string, unknown>,
+        };
+    }
+
+    /**
+     * Статус замовлення у шлюзі (method: result); null — шлюз замовлення не знає
+     */
+    private async getOrderStatus(orderId: string): Promise<PortmoneOrderStatus | null> {
+        const { payeeId, login, key, gatewayUrl } = this.config;
+        const dt = format(new Date(), 'yyyyMMddHHmmss');
+
+        const signature = signPortmone({
+            payeeId,
+            dt,
+            shopOrderNumber: orderId,
+            billAmount: '',
+            login,
+            key,
+        });
+
+        const response = await fetch(gatewayUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                method: 'result',
+                payee: { payeeId, login, dt, signature },
+                params: { shopOrderNumber: orderId },
+            }),
+        });
+
+        if (!response.ok) {
+            throw new PaymentProviderError(`Portmone gateway responded with ${response.status}`);
+        }
+
+        const orders = await response.json() as PortmoneOrderStatus[];
+
+        return Array.isArray(orders) ? orders[0] ?? null : null;
+    }
+
+    async refund(request: RefundRequest): Promise<RefundResult> {
+        const { payeeId, login, key, gatewayUrl } = this.config;
+        const dt = format(new Date(), 'yyyyMMddHHmmss');
+        const returnAmount = request.amount.toFixed(2);
+
+        const signature = signPortmone({
+            payeeId,
+            dt,
+            shopOrderNumber: request.orderId,
+            billAmount: returnAmount,
+            login,
+            key,
+        });
+
+        const response = await fetch(gatewayUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                method: 'return',
+                payee: { payeeId, login, dt, signature },
+                params: {
+                    shopOrderNumber: request.orderId,
+                    shopbillId: request.providerTxId,
+                    returnAmount,
+                },
+            }),
+        });
+
+        if (!response.ok) {
+            throw new PaymentProviderError(`Portmone gateway responded with ${response.status}`);
+        }
+
+        const json = await response.json() as { status?: string; shopBillId?: string | number; errorCode?: string; error?: string };
+
+        if (json.status !== 'RETURN') {
+            throw new PaymentProviderError(json.error || `Portmone refund error ${json.errorCode ?? 'unknown'}`);
+        }
+
+        return {
+            providerTxId: json.shopBillId !== undefined ? String(json.shopBillId) : null,
+            providerResponse: json,
+        };
+    }
+}
+
+const portmoneProvider = new PortmoneProvider();
+
+/**
+ * Отримати активний платіжний провайдер
+ */
+export function getPaymentProvider(): PaymentProvider {
+    return portmoneProvider;
+}
+
+/**
+ * Розрахувати суму передоплати для бронювання
+ */
+export function calculateDepositAmount(totalPrice: number, depositPercent: number = env.DEPOSIT_PERCENT): number {
+    return Math.round(totalPrice * depositPercent) / 100;
+}
+
@@ -0,0 +1,217 @@
+import { prisma } from '../config/database.js';
+
+/**
+ * Промокод не можна застосувати; code пояснює, яке саме правило не виконано
+ */
+export class PromoCodeError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'PromoCodeError';
+    }
+}
+
+// Скасовані бронювання не рахуються як попередній візит
+const CANCELLED_BY_PARTY = ['cancelled_by_client', 'cancelled_by_admin'];
+
+export interface PromoContext {
+    userId: string;
+    // Майстер візиту; null — ще не обраний ("будь-який майстер")
+    masterId: string | null;
+    // Послуги візиту з цінами (для обмеження знижки окремими послугами/категоріями)
+    items: { serviceId: string; price: number }[];
+    // Сума, до якої застосовується знижка (після комбо та пакета)
+    amount: number;
+}
+
+function roundMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function toIdList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * Сума послуг візиту, на які діє промокод, обмежений послугами чи категоріями.
+ * Категорія охоплює й свої підкатегорії.
+ */
+async function getEligibleAmount(promo: { serviceIds: unknown; categoryIds: unknown }, items: PromoContext['items']) {
+    const serviceIds = toIdList(promo.serviceIds);
+    const categoryIds = toIdList(promo.categoryIds);
+
+    const services = categoryIds.length > 0
+        ? await prisma.service.findMany({
+            where: { id: { in: items.map((item) => item.serviceId) } },
+            select: { id: true, categoryId: true, category: { select: { parentId: true } } },
+        })
+        : [];
+
+    return items.reduce((sum, item) => {
+        const service = services.find((s: any) => s.id === item.serviceId);
+        const isEligible = serviceIds.includes(item.serviceId)
+            || (!!service?.categoryId && categoryIds.includes(service.categoryId))
+            || (!!service?.category?.parentId && categoryIds.includes(service.category.parentId));
+        return isEligible ? sum + item.price : sum;
+    }, 0);
+}
+
+/**
+ * Перевірити всі правила промокоду для візиту та розрахувати знижку; кидає PromoCodeError
+ */
+export async function applyPromoCode(
+    code: string,
+    context: PromoContext,
+    now: Date = new Date()
+): Promise<{ promo: any; discountAmount: number }> {
+    const promo = await prisma.promoCode.findUnique({
+        where: { code },
+    });
+
+    // Персональний код (нагорода) для інших клієнтів ніби не існує
+    if (!promo || !promo.isActive || (promo.ownerId && promo.ownerId !== context.userId)) {
+        throw new PromoCodeError('Promo code not found or inactive', 'PROMO_NOT_FOUND', 404);
+    }
+
+    if (now < promo.validFrom || now > promo.validUntil) {
+        throw new PromoCodeError('Promo code has expired', 'PROMO_EXPIRED');
+    }
+
+    if (promo.maxUses !== null && promo.currentUses >= promo.maxUses) {
+        throw new PromoCodeError('Promo code usage limit reached', 'PROMO_LIMIT_REACHED');
+    }
+
+    if (promo.minOrderAmount !== null && context.amount < Number(promo.minOrderAmount)) {
+        throw new PromoCodeError(
+            `Minimum order amount for this promo code is ${promo.minOrderAmount}`,
+            'PROMO_MIN_AMOUNT'
+        );
+    }
+
+    if (promo.masterId && context.masterId !== promo.masterId) {
+        throw new PromoCodeError('Promo code is valid only for another master', 'PROMO_MASTER_NOT_ELIGIBLE');
+    }
+
+    if (promo.maxUsesPerUser !== null) {
+        const userUses = await prisma.promoRedemption.count({
+            where: { userId: context.userId, promoCodeId: promo.id, releasedAt: null },
+        });
+
+        if (userUses >= promo.maxUsesPerUser) {
+            throw new PromoCodeError('You have already used this promo code', 'PROMO_USER_LIMIT_REACHED');
+        }
+    }
+
+    if (promo.firstVisitOnly) {
+        const previousBookings = await prisma.booking.count({
+            where: {
+                userId: context.userId,
+                status: { notIn: CANCELLED_BY_PARTY as any },
+            },
+        });
+
+        if (previousBookings > 0) {
+            throw new PromoCodeError('Promo code is valid only for the first visit', 'PROMO_FIRST_VISIT_ONLY');
+        }
+    }
+
+    // Обмежений код знижує ціну лише тих послуг, на які діє
+    let discountBase = context.amount;
+
+    if (toIdList(promo.serviceIds).length > 0 || toIdList(promo.categoryIds).length > 0) {
+        const eligibleAmount = await getEligibleAmount(promo, context.items);
+
+        if (eligibleAmount <= 0) {
+            throw new PromoCodeError('Promo code does not apply to the selected services', 'PROMO_SERVICE_NOT_ELIGIBLE');
+        }
+
+        discountBase = Math.min(eligibleAmount, context.amount);
+    }
+
+    const discountAmount = promo.discountType === 'percent'
+        ? roundMoney((discountBase * Number(promo.discountValue)) / 100)
+        : Math.min(Number(promo.discountValue), discountBase);
+
+    return { promo, discountAmount };
+}
+
+/**
+ * Записати використання промокоду за бронювання.
+ * Викликати всередині транзакції створення бронювання: умовний інкремент currentUses не дає перевищити maxUses
+ * при одночасних бронюваннях, а заблокований ним рядок коду серіалізує перевірку ліміту на клієнта.
+ */
+export async function redeemPromoCode(
+    tx: any,
+    data: { promoCodeId: string; userId: string; bookingId: string; discountAmount: number }
+): Promise<void> {
+    const promo = await tx.promoCode.findUnique({ where: { id: data.promoCodeId } });
+
+    if (!promo || !promo.isActive) {
+        throw new PromoCodeError('Promo code not found or inactive', 'PROMO_NOT_FOUND', 404);
+    }
+
+    const { count } = await tx.promoCode.updateMany({
+        where: {
+            id: promo.id,
+            isActive: true,
+            ...(promo.maxUses !== null ? { currentUses: { lt: promo.maxUses } } : {}),
+        },
+        data: { currentUses: { increment: 1 } },
+    });
+
+    if (count === 0) {
+        throw new PromoCodeError('Promo code usage limit reached', 'PROMO_LIMIT_REACHED', 409);
+    }
+
+    if (promo.maxUsesPerUser !== null) {
+        const userUses = await tx.promoRedemption.count({
+            where: { userId: data.userId, promoCodeId: promo.id, releasedAt: null },
+        });
+
+        if (userUses >= promo.maxUsesPerUser) {
+            throw new PromoCodeError('You have already used this promo code', 'PROMO_USER_LIMIT_REACHED', 409);
+        }
+    }
+
+    await tx.promoRedemption.create({
+        data: {
+            promoCodeId: promo.id,
+            userId: data.userId,
+            bookingId: data.bookingId,
+            discountAmount: data.discountAmount,
+        },
+    });
+}
+
+/**
+ * Звільнити використання промокоду скасованим бронюванням (повернути його в ліміт коду).
+ * Повторний виклик нічого не змінює.
+ */
+export async function releasePromoRedemption(bookingId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx: any) => {
+        const redemption = await tx.promoRedemption.findUnique({ where: { bookingId } });
+
+        if (!redemption) {
+            return false;
+        }
+
+        const { count } = await tx.promoRedemption.updateMany({
+            where: { id: redemption.id, releasedAt: null },
+            data: { releasedAt: new Date() },
+        });
+
+        if (count === 0) {
+            return false;
+        }
+
+        await tx.promoCode.updateMany({
+            where: { id: redemption.promoCodeId, currentUses: { gt: 0 } },
+            data: { currentUses: { decrement: 1 } },
+        });
+
+        return true;
+    });
+}
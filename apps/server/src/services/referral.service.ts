@@ -0,0 +1,199 @@
+import { addDays } from 'date-fns';
+import { prisma } from '../config/database.js';
+import { redis } from '../config/redis.js';
+import { buildStartLink } from '../bot/bot.js';
+import { sendNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import { randomCode } from '../shared/utils/codes.js';
+import { formatDbDate, getZonedParts, toDbDate } from '../shared/utils/timezone.js';
+
+const REFERRAL_CODE_LENGTH = 8;
+// Спроби згенерувати код, якщо випадковий уже зайнятий іншим користувачем
+const REFERRAL_CODE_ATTEMPTS = 5;
+
+// Префікс payload у deep link /start для реферального посилання
+export const REFERRAL_START_PREFIX = 'ref_';
+
+// Скільки чекаємо, поки запрошений з /start відкриє міні-додаток (і зареєструється)
+const PENDING_REFERRAL_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function pendingReferralKey(telegramId: number): string {
+    return `referral:pending:${telegramId}`;
+}
+
+/**
+ * Особистий реферальний код користувача (створюється під час першого звернення).
+ * Код призначається лише якщо його ще немає — паралельні запити отримають той самий код.
+ */
+export async function getReferralCode(userId: string): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: userId },
+            select: { referralCode: true },
+        });
+
+        if (user.referralCode) {
+            return user.referralCode;
+        }
+
+        try {
+            await prisma.user.updateMany({
+                where: { id: userId, referralCode: null },
+                data: { referralCode: randomCode(REFERRAL_CODE_LENGTH) },
+            });
+        } catch (error: any) {
+            // Згенерований код уже належить іншому користувачу (унікальний referralCode)
+            if (error?.code !== 'P2002' || attempt >= REFERRAL_CODE_ATTEMPTS) {
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Посилання на бота з реферальним кодом (t.me/<bot>?start=ref_<code>)
+ */
+export async function getReferralLink(userId: string): Promise<string> {
+    return buildStartLink(`${REFERRAL_START_PREFIX}${await getReferralCode(userId)}`);
+}
+
+/**
+ * Запам'ятати реферальний код з /start до реєстрації через міні-додаток.
+ * Для вже зареєстрованих користувачів нічого не робить: запросити можна лише нового клієнта.
+ */
+export async function rememberPendingReferral(telegramId: number, code: string): Promise<void> {
+    const existing = await prisma.user.findUnique({
+        where: { telegramId: BigInt(telegramId) },
+        select: { id: true },
+    });
+
+    if (existing) {
+        return;
+    }
+
+    await redis.set(pendingReferralKey(telegramId), code, 'EX', PENDING_REFERRAL_TTL_SECONDS);
+}
+
+/**
+ * Записати, хто запросив нового користувача.
+ * Код береться зі start_param міні-додатка (ref_<code>) або з /start, запам'ятованого раніше.
+ */
+export async function registerReferral(
+    refereeId: string,
+    telegramId: number,
+    startParam?: string
+): Promise<boolean> {
+    const pendingCode = await redis.get(pendingReferralKey(telegramId));
+    const code = startParam?.startsWith(REFERRAL_START_PREFIX)
+        ? startParam.slice(REFERRAL_START_PREFIX.length)
+        : pendingCode;
+
+    if (pendingCode) {
+        await redis.del(pendingReferralKey(telegramId));
+    }
+
+    if (!code) {
+        return false;
+    }
+
+    const referrer = await prisma.user.findUnique({
+        where: { referralCode: code.trim().toUpperCase() },
+        select: { id: true },
+    });
+
+    if (!referrer || referrer.id === refereeId) {
+        return false;
+    }
+
+    await prisma.referral.create({
+        data: { referrerId: referrer.id, refereeId },
+    });
+
+    return true;
+}
+
+/**
+ * Нагородити обидві сторони після першого завершеного візиту запрошеного: кожен отримує персональний
+ * одноразовий промокод. Повторний виклик (наступні візити) нічого не змінює.
+ */
+export async function rewardReferral(refereeId: string): Promise<boolean> {
+    const reward = await getSetting('referral_reward');
+    if (!reward.enabled) {
+        return false;
+    }
+
+    const referral = await prisma.referral.findUnique({ where: { refereeId } });
+    if (!referral || referral.rewardedAt) {
+        return false;
+    }
+
+    const validUntil = addDays(new Date(), reward.validDays);
+
+    const promoCodes = await prisma.$transaction(async (tx: any) => {
+        const { count } = await tx.referral.updateMany({
+            where: { id: referral.id, rewardedAt: null },
+            data: { rewardedAt: new Date() },
+        });
+
+        if (count === 0) {
+            return [];
+        }
+
+        const created = [];
+        for (const ownerId of [referral.referrerId, referral.refereeId]) {
+            created.push(await tx.promoCode.create({
+                data: {
+                    code: `REF-${randomCode(4)}-${randomCode(4)}`,
+                    discountType: reward.discountType,
+                    discountValue: reward.discountValue,
+                    maxUses: 1,
+                    ownerId,
+                    validFrom: new Date(),
+                    validUntil,
+                },
+            }));
+        }
+        return created;
+    });
+
+    if (promoCodes.length === 0) {
+        return false;
+    }
+
+    const timeZone = await getSetting('salon_timezone');
+    const discount = reward.discountType === 'percent'
+        ? `${reward.discountValue}%`
+        : `${reward.discountValue} ₴`;
+
+    for (const promoCode of promoCodes) {
+        await sendNotification({
+            type: 'referral_reward',
+            userId: promoCode.ownerId,
+            params: {
+                promo_code: promoCode.code,
+                discount,
+                date: formatDbDate(toDbDate(getZonedParts(validUntil, timeZone).date)),
+            },
+        });
+    }
+
+    return true;
+}
+
+/**
+ * Реферальна статистика користувача для профілю: посилання, запрошені, отримані нагороди
+ */
+export async function getReferralStats(userId: string, now: Date = new Date()) {
+    const [link, invitedCount, rewardedCount, rewardCodes] = await Promise.all([
+        getReferralLink(userId),
+        prisma.referral.count({ where: { referrerId: userId } }),
+        prisma.referral.count({ where: { referrerId: userId, rewardedAt: { not: null } } }),
+        prisma.promoCode.findMany({
+            where: { ownerId: userId, isActive: true, currentUses: 0, validUntil: { gt: now } },
+            select: { code: true, discountType: true, discountValue: true, validUntil: true },
+            orderBy: { validUntil: 'asc' },
+        }),
+    ]);
+
+    return { link, invitedCount, rewardedCount, rewardCodes };
+}
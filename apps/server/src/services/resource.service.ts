@@ -0,0 +1,100 @@
+import { prisma } from '../config/database.js';
+import { CANCELLED_STATUSES } from './cancellation.service.js';
+
+/**
+ * Завантаження ресурсу на день: місткість і зайняті ним проміжки
+ */
+export interface ResourceLoad {
+    resourceId: string;
+    capacity: number;
+    busy: { startTime: string; endTime: string }[];
+}
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Активні ресурси, яких потребують послуги (без повторів)
+ */
+export async function getRequiredResourceIds(serviceIds: string[]): Promise<string[]> {
+    if (serviceIds.length === 0) return [];
+
+    const requirements = await prisma.serviceResource.findMany({
+        where: {
+            serviceId: { in: serviceIds },
+            resource: { isActive: true },
+        },
+        select: { resourceId: true },
+    });
+
+    return [...new Set<string>(requirements.map((r: any) => r.resourceId))];
+}
+
+/**
+ * Завантаження ресурсів на дату за активними (не скасованими) бронюваннями
+ */
+export async function getResourceLoads(
+    resourceIds: string[],
+    date: Date,
+    excludeBookingId?: string
+): Promise<ResourceLoad[]> {
+    if (resourceIds.length === 0) return [];
+
+    const resources = await prisma.resource.findMany({
+        where: { id: { in: resourceIds } },
+        include: {
+            bookings: {
+                where: {
+                    booking: {
+                        bookingDate: date,
+                        status: { notIn: CANCELLED_STATUSES as any },
+                        ...(excludeBookingId && { id: { not: excludeBookingId } }),
+                    },
+                },
+                include: { booking: { select: { startTime: true, endTime: true } } },
+            },
+        },
+    });
+
+    return resources.map((resource: any) => ({
+        resourceId: resource.id,
+        capacity: resource.capacity,
+        busy: resource.bookings.map((br: any) => ({
+            startTime: br.booking.startTime,
+            endTime: br.booking.endTime,
+        })),
+    }));
+}
+
+/**
+ * Чи є в кожного ресурсу вільне місце на весь проміжок [startTime, endTime).
+ * Рахується найбільша кількість одночасних візитів усередині проміжку, а не просто перетини.
+ */
+export function hasResourceCapacity(loads: ResourceLoad[], startTime: string, endTime: string): boolean {
+    const start = timeToMinutes(startTime);
+    const end = timeToMinutes(endTime);
+
+    return loads.every((load) => {
+        const events: [number, number][] = [];
+
+        for (const busy of load.busy) {
+            const busyStart = Math.max(start, timeToMinutes(busy.startTime));
+            const busyEnd = Math.min(end, timeToMinutes(busy.endTime));
+            if (busyStart < busyEnd) {
+                events.push([busyStart, 1], [busyEnd, -1]);
+            }
+        }
+
+        // При однаковому часі спершу звільнення, потім зайняття
+        events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+        let concurrent = 0;
+        for (const [, delta] of events) {
+            concurrent += delta;
+            if (concurrent >= load.capacity) return false;
+        }
+        return true;
+    });
+}
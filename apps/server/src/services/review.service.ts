@@ -0,0 +1,71 @@
+import { prisma } from '../config/database.js';
+
+/**
+ * Помилка створення відгуку (code/statusCode повертаються клієнту як є)
+ */
+export class ReviewError extends Error {
+    constructor(
+        message: string,
+        readonly code: string,
+        readonly statusCode: number = 400
+    ) {
+        super(message);
+        this.name = 'ReviewError';
+    }
+}
+
+export interface CreateReviewData {
+    userId: string;
+    bookingId: string;
+    rating: number;
+    comment?: string | null;
+}
+
+/**
+ * Створити відгук за завершеним бронюванням клієнта (один на бронювання, статус pending для модерації)
+ */
+export async function createReview(data: CreateReviewData) {
+    const booking = await prisma.booking.findUnique({
+        where: { id: data.bookingId },
+        include: { review: { select: { id: true } } },
+    });
+
+    if (!booking) {
+        throw new ReviewError('Booking not found', 'NOT_FOUND', 404);
+    }
+
+    if (booking.userId !== data.userId) {
+        throw new ReviewError('Not authorized', 'FORBIDDEN', 403);
+    }
+
+    if (booking.status !== 'completed') {
+        throw new ReviewError('Only completed bookings can be reviewed', 'INVALID_OPERATION');
+    }
+
+    if (!booking.masterId) {
+        throw new ReviewError('Booking has no master to review', 'INVALID_OPERATION');
+    }
+
+    if (booking.review) {
+        throw new ReviewError('Booking is already reviewed', 'ALREADY_REVIEWED', 409);
+    }
+
+    try {
+        return await prisma.review.create({
+            data: {
+                userId: data.userId,
+                masterId: booking.masterId,
+                bookingId: booking.id,
+                rating: data.rating,
+                comment: data.comment || null,
+                status: 'pending',
+            },
+        });
+    } catch (error: any) {
+        // Паралельний запит встиг створити відгук (унікальний bookingId)
+        if (error?.code === 'P2002') {
+            throw new ReviewError('Booking is already reviewed', 'ALREADY_REVIEWED', 409);
+        }
+        throw error;
+    }
+}
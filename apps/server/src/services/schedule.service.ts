@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { getSetting } from './settings.service.js';
+import { getZonedToday, toDateKey, toDbDate } from '../shared/utils/timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export interface WorkInterval {
+    startTime: string;
+    endTime: string;
+}
+
+const workIntervalSchema = z.object({
+    startTime: timeSchema,
+    endTime: timeSchema,
+}).refine((interval) => interval.startTime < interval.endTime, {
+    message: 'startTime must be before endTime',
+});
+
+/**
+ * Робочі інтервали дня (перерви — проміжки між ними); сортуються, перетини заборонені
+ */
+export const workIntervalsSchema = z.array(workIntervalSchema)
+    .min(1, 'At least one working interval is required')
+    .transform((intervals) => [...intervals].sort((a, b) => a.startTime.localeCompare(b.startTime)))
+    .refine((intervals) => intervals.every((interval, i) => i === 0 || interval.startTime >= intervals[i - 1].endTime), {
+        message: 'Working intervals must not overlap',
+    });
+
+// День шаблону: масив інтервалів або один інтервал { startTime, endTime }
+const templateDaySchema = z.preprocess(
+    (value) => (value && typeof value === 'object' && !Array.isArray(value) ? [value] : value),
+    workIntervalsSchema.nullable()
+);
+
+/**
+ * Тижневий шаблон розкладу: ключ — день тижня (0 = неділя ... 6 = субота), null або відсутній ключ — вихідний
+ */
+export const scheduleTemplateSchema = z.object({
+    days: z.record(z.enum(['0', '1', '2', '3', '4', '5', '6']), templateDaySchema),
+    effectiveFrom: dateSchema,
+    effectiveUntil: dateSchema.nullable().optional(),
+}).refine((data) => !data.effectiveUntil || data.effectiveUntil >= data.effectiveFrom, {
+    message: 'effectiveUntil must not be before effectiveFrom',
+});
+
+export type ScheduleTemplateInput = z.infer<typeof scheduleTemplateSchema>;
+
+type TemplateDays = Partial<Record<string, WorkInterval[] | WorkInterval | null>>;
+
+function timeToMinutes(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    return h * 60 + m;
+}
+
+/**
+ * Робочі інтервали рядка MasterSchedule (старі рядки без intervals — один інтервал startTime–endTime)
+ */
+export function getWorkIntervals(schedule: { startTime: string; endTime: string; intervals?: unknown }): WorkInterval[] {
+    if (Array.isArray(schedule.intervals) && schedule.intervals.length > 0) {
+        return schedule.intervals as WorkInterval[];
+    }
+    return [{ startTime: schedule.startTime, endTime: schedule.endTime }];
+}
+
+/**
+ * Поля MasterSchedule для набору інтервалів: startTime/endTime — межі робочого дня
+ */
+export function toScheduleIntervalsData(intervals: WorkInterval[]) {
+    return {
+        startTime: intervals[0].startTime,
+        endTime: intervals[intervals.length - 1].endTime,
+        intervals: intervals as any,
+    };
+}
+
+/**
+ * Чи повністю вкладається проміжок [startTime, endTime) в один з робочих інтервалів
+ */
+export function isWithinWorkIntervals(intervals: WorkInterval[], startTime: string, endTime: string): boolean {
+    const start = timeToMinutes(startTime);
+    const end = timeToMinutes(endTime);
+
+    return intervals.some((interval) =>
+        start >= timeToMinutes(interval.startTime) && end <= timeToMinutes(interval.endTime)
+    );
+}
+
+/**
+ * Дані для збереження шаблону (дати — як @db.Date, тобто північ UTC)
+ */
+export function toTemplateData(input: ScheduleTemplateInput) {
+    return {
+        days: input.days,
+        effectiveFrom: toDbDate(input.effectiveFrom),
+        effectiveUntil: input.effectiveUntil ? toDbDate(input.effectiveUntil) : null,
+    };
+}
+
+/**
+ * Розгорнути шаблони майстра в рядки MasterSchedule на N тижнів уперед.
+ * Рядки, задані вручну (isOverride), не змінюються; згенеровані раніше рядки
+ * оновлюються або видаляються, якщо шаблон більше не покриває дату.
+ * Якщо дата потрапляє в кілька шаблонів, діє той, що почав діяти пізніше.
+ */
+export async function materializeMasterSchedule(masterId: string): Promise<number> {
+    const [weeks, timeZone] = await Promise.all([
+        getSetting('schedule_template_weeks'),
+        getSetting('salon_timezone'),
+    ]);
+    const from = toDbDate(getZonedToday(timeZone));
+    const until = new Date(from.getTime() + weeks * 7 * DAY_MS);
+
+    const [templates, existing] = await Promise.all([
+        prisma.masterScheduleTemplate.findMany({
+            where: {
+                masterId,
+                effectiveFrom: { lt: until },
+                OR: [{ effectiveUntil: null }, { effectiveUntil: { gte: from } }],
+            },
+            orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+        }),
+        prisma.masterSchedule.findMany({
+            where: { masterId, workDate: { gte: from, lt: until } },
+            select: { workDate: true, isOverride: true },
+        }),
+    ]);
+
+    const existingByDate = new Map(existing.map((row: any) => [toDateKey(row.workDate), row.isOverride as boolean]));
+    const operations: any[] = [];
+    const toCreate: any[] = [];
+
+    for (let time = from.getTime(); time < until.getTime(); time += DAY_MS) {
+        const workDate = new Date(time);
+        const isOverride = existingByDate.get(toDateKey(workDate));
+
+        if (isOverride) continue;
+
+        const template = templates.find((t: any) =>
+            t.effectiveFrom <= workDate && (!t.effectiveUntil || t.effectiveUntil >= workDate)
+        );
+        const day = template ? (template.days as TemplateDays)[String(workDate.getUTCDay())] : null;
+        const intervals = day ? (Array.isArray(day) ? day : [day]) : [];
+
+        // Умова isOverride: false — ручне значення, збережене паралельно, не перезаписується
+        if (intervals.length === 0) {
+            if (isOverride === false) {
+                operations.push(prisma.masterSchedule.deleteMany({
+                    where: { masterId, workDate, isOverride: false },
+                }));
+            }
+        } else if (isOverride === false) {
+            operations.push(prisma.masterSchedule.updateMany({
+                where: { masterId, workDate, isOverride: false },
+                data: { ...toScheduleIntervalsData(intervals), isDayOff: false },
+            }));
+        } else {
+            toCreate.push({
+                masterId,
+                workDate,
+                ...toScheduleIntervalsData(intervals),
+                isDayOff: false,
+                isOverride: false,
+            });
+        }
+    }
+
+    if (toCreate.length > 0) {
+        operations.push(prisma.masterSchedule.createMany({ data: toCreate, skipDuplicates: true }));
+    }
+
+    if (operations.length > 0) {
+        await prisma.$transaction(operations);
+    }
+
+    return toCreate.length;
+}
+
+/**
+ * Розгорнути шаблони всіх майстрів, у яких вони є (для щоденного cron)
+ */
+export async function materializeAllSchedules(): Promise<number> {
+    const masters = await prisma.masterScheduleTemplate.findMany({
+        distinct: ['masterId'],
+        select: { masterId: true },
+    });
+
+    let created = 0;
+    for (const { masterId } of masters) {
+        created += await materializeMasterSchedule(masterId);
+    }
+    return created;
+}
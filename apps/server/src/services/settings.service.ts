@@ -0,0 +1,212 @@
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { isValidTimeZone } from '../shared/utils/timezone.js';
+
+/**
+ * Політика скасування: відсоток повернення залежно від того, за скільки годин до візиту скасовано
+ */
+export const cancellationPolicySchema = z.object({
+    rules: z.array(z.object({
+        minHoursBefore: z.number().min(0),
+        refundPercent: z.number().min(0).max(100),
+    })),
+    adminRefundPercent: z.number().min(0).max(100),
+    noShowRefundPercent: z.number().min(0).max(100),
+});
+
+const localizedTextSchema = z.record(z.string());
+
+/**
+ * Події бронювань, які бот публікує в чат персоналу
+ */
+export const STAFF_FEED_EVENTS = ['created', 'cancelled', 'rescheduled', 'no_show'] as const;
+
+interface SettingDefinition<T extends z.ZodTypeAny> {
+    schema: T;
+    defaultValue: z.infer<T>;
+    description: string;
+}
+
+function defineSetting<T extends z.ZodTypeAny>(
+    schema: T,
+    defaultValue: z.infer<T>,
+    description: string
+): SettingDefinition<T> {
+    return { schema, defaultValue, description };
+}
+
+/**
+ * Реєстр налаштувань салону (модель SiteSettings, ключ → JSON значення)
+ */
+const settingsRegistry = {
+    salon_name: defineSetting(localizedTextSchema, {
+        uk: 'Масажний салон',
+        en: 'Massage Salon',
+        ru: 'Массажный салон',
+    }, 'Назва салону'),
+    salon_address: defineSetting(localizedTextSchema, {}, 'Адреса салону'),
+    salon_phone: defineSetting(z.string(), '', 'Телефон салону'),
+    google_maps_lat: defineSetting(z.number().min(-90).max(90), 50.4501, 'Широта на карті'),
+    google_maps_lng: defineSetting(z.number().min(-180).max(180), 30.5234, 'Довгота на карті'),
+    about_text: defineSetting(localizedTextSchema, {}, 'Текст "Про нас"'),
+    salon_timezone: defineSetting(
+        z.string().refine(isValidTimeZone, { message: 'Unknown IANA time zone' }),
+        'Europe/Kyiv',
+        'Часовий пояс салону: у ньому задані дати й час візитів, розкладу та нагадувань'
+    ),
+    booking_days_ahead: defineSetting(z.number().int().min(1).max(365), 14, 'На скільки днів уперед можна записатися'),
+    schedule_template_weeks: defineSetting(
+        z.number().int().min(1).max(52),
+        8,
+        'На скільки тижнів уперед розгортати шаблони розкладу майстрів'
+    ),
+    buffer_minutes: defineSetting(z.number().int().min(0).max(120), 15, 'Перерва між візитами майстра (хв)'),
+    deposit_percent: defineSetting(z.number().min(0).max(100), env.DEPOSIT_PERCENT, 'Відсоток передоплати'),
+    deposit_hold_minutes: defineSetting(
+        z.number().int().min(1),
+        30,
+        'Скільки хвилин слот тримається за бронюванням у статусі deposit_pending'
+    ),
+    cancellation_policy: defineSetting(cancellationPolicySchema, {
+        rules: [
+            { minHoursBefore: 24, refundPercent: 100 },
+            { minHoursBefore: 0, refundPercent: 50 },
+        ],
+        adminRefundPercent: 100,
+        noShowRefundPercent: 0,
+    }, 'Політика повернення передоплати при скасуванні'),
+    gift_certificate_valid_months: defineSetting(
+        z.number().int().min(1).max(60),
+        12,
+        'Скільки місяців діє подарунковий сертифікат після купівлі'
+    ),
+    gift_certificate_amount_limits: defineSetting(
+        z.object({ min: z.number().positive(), max: z.number().positive() })
+            .refine((limits) => limits.min <= limits.max, { message: 'min must not exceed max' }),
+        { min: 300, max: 10000 },
+        'Мінімальна й максимальна сума подарункового сертифіката'
+    ),
+    reschedule_cutoff_hours: defineSetting(
+        z.number().min(0).max(168),
+        12,
+        'Не пізніше ніж за скільки годин до візиту клієнт може перенести запис'
+    ),
+    loyalty_default_stamps_for_reward: defineSetting(
+        z.number().int().positive(),
+        10,
+        'Штампів до нагороди, якщо програму лояльності ще не налаштовано'
+    ),
+    referral_reward: defineSetting(
+        z.object({
+            enabled: z.boolean(),
+            discountType: z.enum(['percent', 'fixed']),
+            discountValue: z.number().positive(),
+            validDays: z.number().int().min(1).max(365),
+        }),
+        { enabled: true, discountType: 'percent', discountValue: 10, validDays: 90 },
+        'Нагорода за запрошення: персональний промокод обом сторонам після першого візиту запрошеного'
+    ),
+    staff_chat: defineSetting(
+        z.object({
+            chatId: z.string().regex(/^-?\d+$/, { message: 'Telegram chat id must be numeric' }).nullable(),
+            events: z.array(z.enum(STAFF_FEED_EVENTS)),
+        }),
+        { chatId: null, events: [...STAFF_FEED_EVENTS] },
+        'Група персоналу в Telegram: id чату (null — стрічку вимкнено) і події бронювань, які туди публікуються'
+    ),
+    reminder_window_minutes: defineSetting(
+        z.number().int().min(1).max(60),
+        15,
+        'Вікно пошуку візитів для нагадувань і запитів відгуків (± хв)'
+    ),
+};
+
+export type SettingKey = keyof typeof settingsRegistry;
+export type SettingValue<K extends SettingKey> = z.infer<(typeof settingsRegistry)[K]['schema']>;
+
+// Кеш у пам'яті процесу; TTL підстраховує інші процеси (воркери), у яких кеш не скидається при оновленні
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<SettingKey, { value: unknown; expiresAt: number }>();
+
+export function isSettingKey(key: string): key is SettingKey {
+    return Object.prototype.hasOwnProperty.call(settingsRegistry, key);
+}
+
+function parseStoredValue<K extends SettingKey>(key: K, stored: unknown): SettingValue<K> {
+    const definition = settingsRegistry[key];
+    const parsed = definition.schema.safeParse(stored);
+
+    if (!parsed.success) {
+        console.warn(`Invalid value for setting "${key}", using default`);
+        return definition.defaultValue as SettingValue<K>;
+    }
+
+    return parsed.data;
+}
+
+/**
+ * Отримати значення налаштування (або значення за замовчуванням)
+ */
+export async function getSetting<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.value as SettingValue<K>;
+    }
+
+    const row = await prisma.siteSettings.findUnique({ where: { key } });
+    const value = row
+        ? parseStoredValue(key, row.value)
+        : settingsRegistry[key].defaultValue as SettingValue<K>;
+
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    return value;
+}
+
+/**
+ * Всі налаштування реєстру з поточними значеннями (для адмінки)
+ */
+export async function getAllSettings() {
+    const rows = await prisma.siteSettings.findMany({
+        where: { key: { in: Object.keys(settingsRegistry) } },
+    });
+    const stored = new Map(rows.map((row: any) => [row.key, row.value]));
+
+    return (Object.keys(settingsRegistry) as SettingKey[]).map((key) => {
+        const definition = settingsRegistry[key];
+        return {
+            key,
+            description: definition.description,
+            value: stored.has(key) ? parseStoredValue(key, stored.get(key)) : definition.defaultValue,
+            defaultValue: definition.defaultValue,
+            isDefault: !stored.has(key),
+        };
+    });
+}
+
+/**
+ * Перевірити значення за схемою ключа
+ */
+export function validateSetting(key: SettingKey, value: unknown) {
+    return settingsRegistry[key].schema.safeParse(value);
+}
+
+/**
+ * Зберегти значення налаштувань (вже провалідовані) та скинути кеш
+ */
+export async function updateSettings(values: Partial<{ [K in SettingKey]: SettingValue<K> }>): Promise<void> {
+    const entries = Object.entries(values) as [SettingKey, unknown][];
+
+    await prisma.$transaction(entries.map(([key, value]) =>
+        prisma.siteSettings.upsert({
+            where: { key },
+            update: { value: value as any },
+            create: { key, value: value as any },
+        })
+    ));
+
+    for (const [key] of entries) {
+        cache.delete(key);
+    }
+}
+
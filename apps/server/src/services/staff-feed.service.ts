@@ -0,0 +1,79 @@
+import { prisma } from '../config/database.js';
+import { buildStaffBookingKeyboard, sendBotMessage } from '../bot/bot.js';
+import { getBookingMessageParams, getStaffActions } from './booking-status.service.js';
+import { DEPOSIT_EXPIRED_REASON } from './cancellation.service.js';
+import { getSetting, STAFF_FEED_EVENTS } from './settings.service.js';
+import { escapeHtml, formatMessage } from '../shared/utils/message-templates.js';
+import { formatDbDate } from '../shared/utils/timezone.js';
+
+export type StaffFeedEvent = (typeof STAFF_FEED_EVENTS)[number];
+
+const STAFF_BOOKING_INCLUDE = {
+    user: { select: { firstName: true, lastName: true, telegramUsername: true, phone: true } },
+    master: { select: { displayName: true } },
+    items: { include: { service: { select: { name: true } } }, orderBy: { sortOrder: 'asc' as const } },
+};
+
+function clientLabel(user: { firstName: string | null; lastName: string | null; telegramUsername: string | null; phone: string | null }): string {
+    const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+    const contacts = [user.telegramUsername ? `@${user.telegramUsername}` : '', user.phone ?? ''].filter(Boolean);
+
+    return escapeHtml(contacts.length > 0 ? `${name} (${contacts.join(', ')})` : name);
+}
+
+/**
+ * Рядок-пояснення до події: хто скасував або з якого часу перенесено
+ */
+function eventDetails(booking: any, event: StaffFeedEvent, previous?: { bookingDate: Date; startTime: string }): string {
+    if (event === 'cancelled') {
+        const type = booking.cancelReason === DEPOSIT_EXPIRED_REASON
+            ? 'staff_cancelled_deposit_expired'
+            : booking.status === 'cancelled_by_client' ? 'staff_cancelled_by_client' : 'staff_cancelled_by_salon';
+        return formatMessage(type, 'uk', {});
+    }
+
+    if (event === 'rescheduled' && previous) {
+        return formatMessage('staff_rescheduled_from', 'uk', {
+            date: formatDbDate(previous.bookingDate),
+            time: previous.startTime,
+        });
+    }
+
+    return '';
+}
+
+/**
+ * Опублікувати подію бронювання в групі персоналу з кнопками швидких дій.
+ * Нічого не робить, якщо чат не налаштовано або подію вимкнено у фільтрі (staff_chat).
+ */
+export async function postStaffBookingEvent(
+    bookingId: string,
+    event: StaffFeedEvent,
+    previous?: { bookingDate: Date; startTime: string }
+): Promise<boolean> {
+    const { chatId, events } = await getSetting('staff_chat');
+
+    if (!chatId || !events.includes(event)) {
+        return false;
+    }
+
+    const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: STAFF_BOOKING_INCLUDE,
+    });
+
+    if (!booking) {
+        return false;
+    }
+
+    await sendBotMessage(chatId, formatMessage(`staff_booking_${event}`, 'uk', {
+        ...getBookingMessageParams(booking),
+        client_name: clientLabel(booking.user),
+        price: String(Number(booking.totalPrice)),
+        status: eventDetails(booking, event, previous),
+    }), {
+        replyMarkup: buildStaffBookingKeyboard(booking.id, getStaffActions(booking.status)),
+    });
+
+    return true;
+}
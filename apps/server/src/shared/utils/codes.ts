@@ -0,0 +1,15 @@
+import { randomInt } from 'node:crypto';
+
+// Без схожих на вигляд символів (0/O, 1/I/L), коди диктують і вводять вручну
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Випадковий код вказаної довжини (реферальні коди, сертифікати)
+ */
+export function randomCode(length: number): string {
+    let code = '';
+    for (let i = 0; i < length; i++) {
+        code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+}
@@ -17,6 +17,14 @@ export interface MessageTemplateParams {
     booking_id?: string;
     promo_code?: string;
     discount?: string;
+    rating?: string;
+    certificate_code?: string;
+    amount?: string;
+    schedule?: string;
+    status?: string;
+    refund?: string;
+    percent?: string;
+    actor_name?: string;
 }
 
 // Шаблони для кожного типу сповіщення
@@ -97,6 +105,32 @@ const templates: Record<string, Record<Language, string>> = {
             `Если вы не отменяли бронирование, свяжитесь с нами.`,
     },
 
+    booking_rescheduled: {
+        uk: `🔄 <b>Бронювання перенесено</b>\n\n` +
+            `{client_name}, ваш візит перенесено на новий час.\n\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Час: {time}\n` +
+            `👤 Майстер: {master_name}\n` +
+            `💆 Послуга: {service_name}\n\n` +
+            `Передоплата та знижки збережені.`,
+
+        en: `🔄 <b>Booking Rescheduled</b>\n\n` +
+            `{client_name}, your visit has been moved to a new time.\n\n` +
+            `📅 Date: {date}\n` +
+            `⏰ Time: {time}\n` +
+            `👤 Master: {master_name}\n` +
+            `💆 Service: {service_name}\n\n` +
+            `Your deposit and discounts are kept.`,
+
+        ru: `🔄 <b>Бронирование перенесено</b>\n\n` +
+            `{client_name}, ваш визит перенесён на новое время.\n\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Время: {time}\n` +
+            `👤 Мастер: {master_name}\n` +
+            `💆 Услуга: {service_name}\n\n` +
+            `Предоплата и скидки сохранены.`,
+    },
+
     // ============================================
     // REMINDERS
     // ============================================
@@ -150,6 +184,83 @@ const templates: Record<string, Record<Language, string>> = {
             `Спешите! 💆‍♀️`,
     },
 
+    // ============================================
+    // GIFT CERTIFICATES
+    // ============================================
+
+    gift_certificate_purchased: {
+        uk: `🎁 <b>Подарунковий сертифікат</b>\n\n` +
+            `Сертифікат на <b>{amount} ₴</b> оплачено!\n\n` +
+            `🔑 Код: <code>{certificate_code}</code>\n` +
+            `📅 Діє до: {date}\n\n` +
+            `Перешліть це повідомлення отримувачу — кнопка нижче відкриє сертифікат у нашому боті.`,
+
+        en: `🎁 <b>Gift Certificate</b>\n\n` +
+            `Your certificate for <b>{amount} ₴</b> is paid!\n\n` +
+            `🔑 Code: <code>{certificate_code}</code>\n` +
+            `📅 Valid until: {date}\n\n` +
+            `Forward this message to the recipient — the button below opens the certificate in our bot.`,
+
+        ru: `🎁 <b>Подарочный сертификат</b>\n\n` +
+            `Сертификат на <b>{amount} ₴</b> оплачен!\n\n` +
+            `🔑 Код: <code>{certificate_code}</code>\n` +
+            `📅 Действует до: {date}\n\n` +
+            `Перешлите это сообщение получателю — кнопка ниже откроет сертификат в нашем боте.`,
+    },
+
+    gift_certificate_received: {
+        uk: `🎁 <b>Вам подарували сертифікат!</b>\n\n` +
+            `💰 Баланс: <b>{amount} ₴</b>\n` +
+            `🔑 Код: <code>{certificate_code}</code>\n` +
+            `📅 Діє до: {date}\n\n` +
+            `Оберіть зручний час — сертифікат зарахується під час запису.`,
+
+        en: `🎁 <b>You've received a gift certificate!</b>\n\n` +
+            `💰 Balance: <b>{amount} ₴</b>\n` +
+            `🔑 Code: <code>{certificate_code}</code>\n` +
+            `📅 Valid until: {date}\n\n` +
+            `Pick a convenient time — the certificate will be applied when you book.`,
+
+        ru: `🎁 <b>Вам подарили сертификат!</b>\n\n` +
+            `💰 Баланс: <b>{amount} ₴</b>\n` +
+            `🔑 Код: <code>{certificate_code}</code>\n` +
+            `📅 Действует до: {date}\n\n` +
+            `Выберите удобное время — сертификат будет зачтён при записи.`,
+    },
+
+    gift_certificate_invalid: {
+        uk: `На жаль, цей сертифікат недійсний або вже використаний.`,
+        en: `Unfortunately, this certificate is invalid or has already been used.`,
+        ru: `К сожалению, этот сертификат недействителен или уже использован.`,
+    },
+
+    // ============================================
+    // REFERRALS
+    // ============================================
+
+    referral_reward: {
+        uk: `🎉 <b>Бонус за запрошення!</b>\n\n` +
+            `{client_name}, дякуємо, що ділитеся нашим салоном з друзями.\n\n` +
+            `Ваша знижка: <b>{discount}</b>\n` +
+            `🔑 Промокод: <code>{promo_code}</code>\n` +
+            `📅 Діє до: {date}\n\n` +
+            `Введіть його під час наступного запису.`,
+
+        en: `🎉 <b>Referral bonus!</b>\n\n` +
+            `{client_name}, thank you for sharing our salon with friends.\n\n` +
+            `Your discount: <b>{discount}</b>\n` +
+            `🔑 Promo code: <code>{promo_code}</code>\n` +
+            `📅 Valid until: {date}\n\n` +
+            `Enter it when you make your next booking.`,
+
+        ru: `🎉 <b>Бонус за приглашение!</b>\n\n` +
+            `{client_name}, спасибо, что делитесь нашим салоном с друзьями.\n\n` +
+            `Ваша скидка: <b>{discount}</b>\n` +
+            `🔑 Промокод: <code>{promo_code}</code>\n` +
+            `📅 Действует до: {date}\n\n` +
+            `Введите его при следующей записи.`,
+    },
+
     // ============================================
     // REVIEW REQUEST
     // ============================================
@@ -198,25 +309,644 @@ const templates: Record<string, Record<Language, string>> = {
             `Спешите, акция действует до {date}!`,
     },
 
+    // ============================================
+    // REVIEW REPLIES (bot)
+    // ============================================
+
+    review_thanks: {
+        uk: `🙏 Дякуємо за оцінку {rating}! Відгук з'явиться після модерації.`,
+        en: `🙏 Thank you for rating us {rating}! Your review will appear after moderation.`,
+        ru: `🙏 Спасибо за оценку {rating}! Отзыв появится после модерации.`,
+    },
+
+    review_already_exists: {
+        uk: `Ви вже залишили відгук за цей візит.`,
+        en: `You have already reviewed this visit.`,
+        ru: `Вы уже оставили отзыв об этом визите.`,
+    },
+
+    review_not_allowed: {
+        uk: `Не вдалося зберегти оцінку для цього візиту.`,
+        en: `Could not save the rating for this visit.`,
+        ru: `Не удалось сохранить оценку для этого визита.`,
+    },
+
+    // ============================================
+    // BOOKING REQUESTS (master confirmation)
+    // ============================================
+
+    booking_request: {
+        uk: `🆕 <b>Новий запит на бронювання</b>\n\n` +
+            `👤 Клієнт: {client_name}\n` +
+            `💆 Послуга: {service_name}\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Час: {time}\n` +
+            `💰 Сума: {price} ₴\n\n` +
+            `Підтвердьте запис або запропонуйте клієнту інший час.`,
+
+        en: `🆕 <b>New Booking Request</b>\n\n` +
+            `👤 Client: {client_name}\n` +
+            `💆 Service: {service_name}\n` +
+            `📅 Date: {date}\n` +
+            `⏰ Time: {time}\n` +
+            `💰 Total: {price} ₴\n\n` +
+            `Confirm the booking or propose another time to the client.`,
+
+        ru: `🆕 <b>Новый запрос на бронирование</b>\n\n` +
+            `👤 Клиент: {client_name}\n` +
+            `💆 Услуга: {service_name}\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Время: {time}\n` +
+            `💰 Сумма: {price} ₴\n\n` +
+            `Подтвердите запись или предложите клиенту другое время.`,
+    },
+
+    booking_time_proposed: {
+        uk: `🕐 <b>Майстер пропонує інший час</b>\n\n` +
+            `{client_name}, на жаль, майстер {master_name} не може прийняти вас у запитаний час і пропонує:\n\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Час: {time}\n` +
+            `💆 Послуга: {service_name}\n\n` +
+            `Вам підходить?`,
+
+        en: `🕐 <b>The Master Proposes Another Time</b>\n\n` +
+            `{client_name}, unfortunately {master_name} can't see you at the requested time and proposes:\n\n` +
+            `📅 Date: {date}\n` +
+            `⏰ Time: {time}\n` +
+            `💆 Service: {service_name}\n\n` +
+            `Does this work for you?`,
+
+        ru: `🕐 <b>Мастер предлагает другое время</b>\n\n` +
+            `{client_name}, к сожалению, мастер {master_name} не может принять вас в запрошенное время и предлагает:\n\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Время: {time}\n` +
+            `💆 Услуга: {service_name}\n\n` +
+            `Вам подходит?`,
+    },
+
+    booking_proposal_accepted: {
+        uk: `✅ {client_name} погоджується на {date} о {time}. Запис підтверджено.`,
+        en: `✅ {client_name} accepted {date} at {time}. The booking is confirmed.`,
+        ru: `✅ {client_name} соглашается на {date} в {time}. Запись подтверждена.`,
+    },
+
+    booking_proposal_declined: {
+        uk: `❌ {client_name} відмовляється від запропонованого часу. Запит на {service_name} скасовано.`,
+        en: `❌ {client_name} declined the proposed time. The request for {service_name} is cancelled.`,
+        ru: `❌ {client_name} отказывается от предложенного времени. Запрос на {service_name} отменён.`,
+    },
+
+    booking_request_confirmed: {
+        uk: `✅ Запис {client_name} на {date} о {time} підтверджено. Клієнта сповіщено.`,
+        en: `✅ {client_name}'s booking on {date} at {time} is confirmed. The client has been notified.`,
+        ru: `✅ Запись {client_name} на {date} в {time} подтверждена. Клиент уведомлён.`,
+    },
+
+    booking_request_declined: {
+        uk: `❌ Запит {client_name} на {date} о {time} відхилено. Клієнта сповіщено.`,
+        en: `❌ {client_name}'s request for {date} at {time} is declined. The client has been notified.`,
+        ru: `❌ Запрос {client_name} на {date} в {time} отклонён. Клиент уведомлён.`,
+    },
+
+    booking_request_choose_time: {
+        uk: `Оберіть час, який запропонувати клієнту:`,
+        en: `Choose the time to propose to the client:`,
+        ru: `Выберите время, которое предложить клиенту:`,
+    },
+
+    booking_request_no_slots: {
+        uk: `Найближчого тижня немає вільного часу потрібної тривалості.`,
+        en: `There is no free time of the required length in the coming week.`,
+        ru: `На ближайшей неделе нет свободного времени нужной длительности.`,
+    },
+
+    booking_request_proposed: {
+        uk: `🕐 Клієнту запропоновано {date} о {time}. Ми повідомимо вам про відповідь.`,
+        en: `🕐 {date} at {time} has been proposed to the client. We'll let you know the answer.`,
+        ru: `🕐 Клиенту предложено {date} в {time}. Мы сообщим вам об ответе.`,
+    },
+
+    booking_request_unavailable: {
+        uk: `Цей запит уже оброблено або він недоступний.`,
+        en: `This request has already been handled or is unavailable.`,
+        ru: `Этот запрос уже обработан или недоступен.`,
+    },
+
+    booking_proposal_unavailable: {
+        uk: `Ця пропозиція вже неактуальна.`,
+        en: `This proposal is no longer valid.`,
+        ru: `Это предложение уже неактуально.`,
+    },
+
+    booking_proposal_slot_taken: {
+        uk: `На жаль, цей час уже зайнятий. Оберіть інший час у додатку.`,
+        en: `Sorry, this time is no longer available. Please choose another time in the app.`,
+        ru: `К сожалению, это время уже занято. Выберите другое время в приложении.`,
+    },
+
+    booking_proposal_declined_reply: {
+        uk: `Запит скасовано, передоплату (якщо була) буде повернено. Ви можете обрати інший час у додатку.`,
+        en: `The request is cancelled and any prepayment will be refunded. You can choose another time in the app.`,
+        ru: `Запрос отменён, предоплата (если была) будет возвращена. Вы можете выбрать другое время в приложении.`,
+    },
+
+    // ============================================
+    // BOOKING IN BOT CHAT (/book)
+    // ============================================
+
+    bot_book_choose_category: {
+        uk: `💆 <b>Запис на візит</b>\n\nОберіть категорію послуг:`,
+        en: `💆 <b>Book a Visit</b>\n\nChoose a service category:`,
+        ru: `💆 <b>Запись на визит</b>\n\nВыберите категорию услуг:`,
+    },
+
+    bot_book_choose_service: {
+        uk: `Оберіть послугу:`,
+        en: `Choose a service:`,
+        ru: `Выберите услугу:`,
+    },
+
+    bot_book_choose_duration: {
+        uk: `<b>{service_name}</b>\n\nОберіть тривалість:`,
+        en: `<b>{service_name}</b>\n\nChoose the duration:`,
+        ru: `<b>{service_name}</b>\n\nВыберите длительность:`,
+    },
+
+    bot_book_duration_option: {
+        uk: `{duration} хв · {price} ₴`,
+        en: `{duration} min · {price} ₴`,
+        ru: `{duration} мин · {price} ₴`,
+    },
+
+    bot_book_choose_master: {
+        uk: `Оберіть майстра:`,
+        en: `Choose a master:`,
+        ru: `Выберите мастера:`,
+    },
+
+    bot_book_choose_date: {
+        uk: `Оберіть дату:`,
+        en: `Choose a date:`,
+        ru: `Выберите дату:`,
+    },
+
+    bot_book_no_slots: {
+        uk: `На {date} вільного часу немає. Оберіть іншу дату:`,
+        en: `There is no free time on {date}. Choose another date:`,
+        ru: `На {date} свободного времени нет. Выберите другую дату:`,
+    },
+
+    bot_book_choose_time: {
+        uk: `📅 {date}\n\nОберіть час:`,
+        en: `📅 {date}\n\nChoose a time:`,
+        ru: `📅 {date}\n\nВыберите время:`,
+    },
+
+    bot_book_summary: {
+        uk: `📝 <b>Перевірте запис</b>\n\n` +
+            `💆 Послуга: {service_name}\n` +
+            `⏱ Тривалість: {duration} хв\n` +
+            `👤 Майстер: {master_name}\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Час: {time}\n` +
+            `💰 Вартість: від {price} ₴\n\n` +
+            `Усе правильно?`,
+
+        en: `📝 <b>Check Your Booking</b>\n\n` +
+            `💆 Service: {service_name}\n` +
+            `⏱ Duration: {duration} min\n` +
+            `👤 Master: {master_name}\n` +
+            `📅 Date: {date}\n` +
+            `⏰ Time: {time}\n` +
+            `💰 Price: from {price} ₴\n\n` +
+            `Is everything correct?`,
+
+        ru: `📝 <b>Проверьте запись</b>\n\n` +
+            `💆 Услуга: {service_name}\n` +
+            `⏱ Длительность: {duration} мин\n` +
+            `👤 Мастер: {master_name}\n` +
+            `📅 Дата: {date}\n` +
+            `⏰ Время: {time}\n` +
+            `💰 Стоимость: от {price} ₴\n\n` +
+            `Всё верно?`,
+    },
+
+    bot_book_done: {
+        uk: `✅ Готово! Запис створено — деталі надішлемо окремим повідомленням.`,
+        en: `✅ Done! Your booking is created — we'll send the details in a separate message.`,
+        ru: `✅ Готово! Запись создана — детали пришлём отдельным сообщением.`,
+    },
+
+    bot_book_slot_taken: {
+        uk: `На жаль, цей час щойно зайняли. Оберіть інший.`,
+        en: `Sorry, this time has just been taken. Please choose another one.`,
+        ru: `К сожалению, это время только что заняли. Выберите другое.`,
+    },
+
+    bot_book_failed: {
+        uk: `Не вдалося створити запис. Спробуйте ще раз або скористайтеся додатком.`,
+        en: `Could not create the booking. Please try again or use the app.`,
+        ru: `Не удалось создать запись. Попробуйте ещё раз или воспользуйтесь приложением.`,
+    },
+
+    bot_book_cancelled: {
+        uk: `Запис скасовано. Щоб почати знову, надішліть /book.`,
+        en: `Booking cancelled. Send /book to start again.`,
+        ru: `Запись отменена. Чтобы начать заново, отправьте /book.`,
+    },
+
+    bot_book_expired: {
+        uk: `Цей запис уже неактуальний. Надішліть /book, щоб почати знову.`,
+        en: `This booking session has expired. Send /book to start again.`,
+        ru: `Эта запись уже неактуальна. Отправьте /book, чтобы начать заново.`,
+    },
+
+    bot_book_not_registered: {
+        uk: `Щоб записатися, спочатку відкрийте наш додаток — це займе кілька секунд. Потім поверніться і надішліть /book.`,
+        en: `To book, please open our app first — it only takes a few seconds. Then come back and send /book.`,
+        ru: `Чтобы записаться, сначала откройте наше приложение — это займёт несколько секунд. Потом вернитесь и отправьте /book.`,
+    },
+
+    bot_book_empty: {
+        uk: `Наразі немає послуг, доступних для запису.`,
+        en: `There are no services available for booking right now.`,
+        ru: `Сейчас нет услуг, доступных для записи.`,
+    },
+
+    bot_book_any_master_button: {
+        uk: `🎲 Будь-який майстер`,
+        en: `🎲 Any master`,
+        ru: `🎲 Любой мастер`,
+    },
+
+    bot_book_confirm_button: {
+        uk: `✅ Записатися`,
+        en: `✅ Book`,
+        ru: `✅ Записаться`,
+    },
+
+    bot_book_cancel_button: {
+        uk: `❌ Скасувати`,
+        en: `❌ Cancel`,
+        ru: `❌ Отмена`,
+    },
+
+    bot_book_open_app_button: {
+        uk: `🧖 Відкрити додаток`,
+        en: `🧖 Open the app`,
+        ru: `🧖 Открыть приложение`,
+    },
+
+    // ============================================
+    // BOT: MANAGE BOOKINGS (/mybookings, /cancel, /reschedule)
+    // ============================================
+
+    bot_my_booking_card: {
+        uk: `📅 <b>{date}, {time}</b>\n💆 {service_name}\n👤 {master_name}\n{status}`,
+        en: `📅 <b>{date}, {time}</b>\n💆 {service_name}\n👤 {master_name}\n{status}`,
+        ru: `📅 <b>{date}, {time}</b>\n💆 {service_name}\n👤 {master_name}\n{status}`,
+    },
+
+    bot_my_status_pending_confirmation: {
+        uk: `⏳ Очікує підтвердження майстра`,
+        en: `⏳ Awaiting master's confirmation`,
+        ru: `⏳ Ожидает подтверждения мастера`,
+    },
+
+    bot_my_status_confirmed: {
+        uk: `✅ Підтверджено`,
+        en: `✅ Confirmed`,
+        ru: `✅ Подтверждено`,
+    },
+
+    bot_my_status_deposit_pending: {
+        uk: `💳 Очікує передоплати`,
+        en: `💳 Awaiting deposit`,
+        ru: `💳 Ожидает предоплаты`,
+    },
+
+    bot_my_status_deposit_paid: {
+        uk: `💳 Передоплату внесено`,
+        en: `💳 Deposit paid`,
+        ru: `💳 Предоплата внесена`,
+    },
+
+    bot_my_no_bookings: {
+        uk: `У вас немає майбутніх записів. Щоб записатися, надішліть /book.`,
+        en: `You have no upcoming bookings. Send /book to make one.`,
+        ru: `У вас нет предстоящих записей. Чтобы записаться, отправьте /book.`,
+    },
+
+    bot_my_nothing_to_cancel: {
+        uk: `У вас немає записів, які можна скасувати.`,
+        en: `You have no bookings that can be cancelled.`,
+        ru: `У вас нет записей, которые можно отменить.`,
+    },
+
+    bot_my_nothing_to_reschedule: {
+        uk: `У вас немає записів, які можна перенести.`,
+        en: `You have no bookings that can be rescheduled.`,
+        ru: `У вас нет записей, которые можно перенести.`,
+    },
+
+    bot_my_not_registered: {
+        uk: `Ми ще не знайомі — відкрийте наш додаток, щоб записатися й керувати записами.`,
+        en: `We haven't met yet — open our app to book and manage your bookings.`,
+        ru: `Мы ещё не знакомы — откройте наше приложение, чтобы записаться и управлять записями.`,
+    },
+
+    bot_my_cancel_confirm: {
+        uk: `Скасувати запис на <b>{date}, {time}</b>?\n\n{refund}`,
+        en: `Cancel the booking on <b>{date}, {time}</b>?\n\n{refund}`,
+        ru: `Отменить запись на <b>{date}, {time}</b>?\n\n{refund}`,
+    },
+
+    bot_my_refund_preview: {
+        uk: `💰 Буде повернено {amount} ₴ ({percent}% передоплати).`,
+        en: `💰 {amount} ₴ will be refunded ({percent}% of the deposit).`,
+        ru: `💰 Будет возвращено {amount} ₴ ({percent}% предоплаты).`,
+    },
+
+    bot_my_refund_none: {
+        uk: `Передоплати за цим записом немає.`,
+        en: `There is no deposit for this booking.`,
+        ru: `Предоплаты по этой записи нет.`,
+    },
+
+    bot_my_cancelled: {
+        uk: `❌ Запис на {date}, {time} скасовано.\n{refund}`,
+        en: `❌ The booking on {date}, {time} is cancelled.\n{refund}`,
+        ru: `❌ Запись на {date}, {time} отменена.\n{refund}`,
+    },
+
+    bot_my_refund_done: {
+        uk: `💰 Повернення: {amount} ₴.`,
+        en: `💰 Refund: {amount} ₴.`,
+        ru: `💰 Возврат: {amount} ₴.`,
+    },
+
+    bot_my_series_cancelled: {
+        uk: `Також скасовано наступних візитів серії: {amount}.`,
+        en: `Later visits of the series also cancelled: {amount}.`,
+        ru: `Также отменено следующих визитов серии: {amount}.`,
+    },
+
+    bot_my_kept: {
+        uk: `👌 Запис залишається в силі.`,
+        en: `👌 Your booking stays as it is.`,
+        ru: `👌 Запись остаётся в силе.`,
+    },
+
+    bot_my_rescheduled: {
+        uk: `✅ Запис перенесено на {date}, {time}.`,
+        en: `✅ Your booking is moved to {date}, {time}.`,
+        ru: `✅ Запись перенесена на {date}, {time}.`,
+    },
+
+    bot_my_reschedule_cutoff: {
+        uk: `Перенести запис уже не можна — до візиту залишилося замало часу.`,
+        en: `This booking can no longer be rescheduled — the visit is too soon.`,
+        ru: `Перенести запись уже нельзя — до визита осталось слишком мало времени.`,
+    },
+
+    bot_my_action_unavailable: {
+        uk: `Ця дія для запису вже недоступна.`,
+        en: `This action is no longer available for the booking.`,
+        ru: `Это действие для записи уже недоступно.`,
+    },
+
+    bot_my_action_failed: {
+        uk: `Не вдалося виконати дію. Спробуйте ще раз за кілька секунд.`,
+        en: `Could not complete the action. Please try again in a few seconds.`,
+        ru: `Не удалось выполнить действие. Попробуйте ещё раз через несколько секунд.`,
+    },
+
+    bot_my_cancel_button: {
+        uk: `❌ Скасувати`,
+        en: `❌ Cancel`,
+        ru: `❌ Отменить`,
+    },
+
+    bot_my_reschedule_button: {
+        uk: `🔄 Перенести`,
+        en: `🔄 Reschedule`,
+        ru: `🔄 Перенести`,
+    },
+
+    bot_my_cancel_confirm_button: {
+        uk: `Так, скасувати`,
+        en: `Yes, cancel`,
+        ru: `Да, отменить`,
+    },
+
+    bot_my_cancel_series_button: {
+        uk: `Скасувати цей і всі наступні`,
+        en: `Cancel this and all later ones`,
+        ru: `Отменить этот и все следующие`,
+    },
+
+    bot_my_keep_button: {
+        uk: `Ні, залишити`,
+        en: `No, keep it`,
+        ru: `Нет, оставить`,
+    },
+
+    bot_my_other_date_button: {
+        uk: `« Інша дата`,
+        en: `« Another date`,
+        ru: `« Другая дата`,
+    },
+
+    // ============================================
+    // STAFF GROUP FEED
+    // ============================================
+
+    staff_booking_created: {
+        uk: `🆕 <b>Новий запис</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        en: `🆕 <b>New Booking</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        ru: `🆕 <b>Новая запись</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+    },
+
+    staff_booking_cancelled: {
+        uk: `❌ <b>Запис скасовано</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        en: `❌ <b>Booking Cancelled</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        ru: `❌ <b>Запись отменена</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+    },
+
+    staff_booking_rescheduled: {
+        uk: `🔄 <b>Запис перенесено</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        en: `🔄 <b>Booking Rescheduled</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        ru: `🔄 <b>Запись перенесена</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+    },
+
+    staff_booking_no_show: {
+        uk: `🚫 <b>Клієнт не прийшов</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        en: `🚫 <b>No-Show</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+
+        ru: `🚫 <b>Клиент не пришёл</b>\n\n` +
+            `👤 {client_name}\n` +
+            `💆 {service_name}\n` +
+            `🧑‍⚕️ {master_name}\n` +
+            `📅 {date}, {time}\n` +
+            `💰 {price} ₴\n` +
+            `{status}`,
+    },
+
+    staff_cancelled_by_client: {
+        uk: `Скасував клієнт`,
+        en: `Cancelled by the client`,
+        ru: `Отменил клиент`,
+    },
+
+    staff_cancelled_by_salon: {
+        uk: `Скасовано салоном`,
+        en: `Cancelled by the salon`,
+        ru: `Отменено салоном`,
+    },
+
+    staff_cancelled_deposit_expired: {
+        uk: `Не внесено передоплату вчасно`,
+        en: `The deposit was not paid in time`,
+        ru: `Предоплата не внесена вовремя`,
+    },
+
+    staff_rescheduled_from: {
+        uk: `⏪ Було: {date}, {time}`,
+        en: `⏪ Was: {date}, {time}`,
+        ru: `⏪ Было: {date}, {time}`,
+    },
+
+    staff_action_done_confirm: {
+        uk: `✅ Запис на {date}, {time} підтверджено ({actor_name})`,
+        en: `✅ The booking on {date}, {time} is confirmed ({actor_name})`,
+        ru: `✅ Запись на {date}, {time} подтверждена ({actor_name})`,
+    },
+
+    staff_action_done_noshow: {
+        uk: `🚫 Запис на {date}, {time} позначено як неявку ({actor_name})`,
+        en: `🚫 The booking on {date}, {time} is marked as a no-show ({actor_name})`,
+        ru: `🚫 Запись на {date}, {time} отмечена как неявка ({actor_name})`,
+    },
+
+    staff_action_forbidden: {
+        uk: `Ця дія доступна лише адміністраторам салону.`,
+        en: `Only salon administrators can do this.`,
+        ru: `Это действие доступно только администраторам салона.`,
+    },
+
+    staff_action_unavailable: {
+        uk: `Статус запису вже змінено — дія недоступна.`,
+        en: `The booking status has already changed — this action is unavailable.`,
+        ru: `Статус записи уже изменён — действие недоступно.`,
+    },
+
+    staff_action_too_early: {
+        uk: `Неявку можна позначити лише після початку візиту.`,
+        en: `A no-show can only be marked after the visit has started.`,
+        ru: `Неявку можно отметить только после начала визита.`,
+    },
+
     // ============================================
     // DAILY SCHEDULE
     // ============================================
 
     schedule_daily: {
-        uk: `📋 <b>Розклад на сьогодні</b>\n\n` +
-            `{client_name}, ось ваші заплановані візити:\n\n` +
-            `{date}\n\n` +
-            `Чекаємо на вас! 💆‍♀️`,
+        uk: `📋 <b>Розклад на завтра, {date}</b>\n\n` +
+            `{client_name}, ваші візити:\n\n` +
+            `{schedule}`,
 
-        en: `📋 <b>Today's Schedule</b>\n\n` +
-            `{client_name}, here are your scheduled appointments:\n\n` +
-            `{date}\n\n` +
-            `We look forward to seeing you! 💆‍♀️`,
+        en: `📋 <b>Tomorrow's Schedule, {date}</b>\n\n` +
+            `{client_name}, here are your appointments:\n\n` +
+            `{schedule}`,
 
-        ru: `📋 <b>Расписание на сегодня</b>\n\n` +
-            `{client_name}, вот ваши запланированные визиты:\n\n` +
-            `{date}\n\n` +
-            `Ждем вас! 💆‍♀️`,
+        ru: `📋 <b>Расписание на завтра, {date}</b>\n\n` +
+            `{client_name}, ваши визиты:\n\n` +
+            `{schedule}`,
+    },
+
+    schedule_daily_gap: {
+        uk: `⏳ {time} — вільно`,
+        en: `⏳ {time} — free`,
+        ru: `⏳ {time} — свободно`,
+    },
+
+    schedule_daily_empty: {
+        uk: `Записів поки немає — увесь робочий день вільний.`,
+        en: `No bookings yet — the whole working day is free.`,
+        ru: `Записей пока нет — весь рабочий день свободен.`,
     },
 
     // ============================================
@@ -288,6 +1018,21 @@ export function formatMessage(
     return fillTemplate(template, params);
 }
 
+/**
+ * Екранувати текст для повідомлень з parse_mode: 'HTML'
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Назва з JSON { uk, en, ru } вказаною мовою (з запасним варіантом)
+ */
+export function localizedName(name: unknown, language: Language): string {
+    const names = (name ?? {}) as Record<string, string>;
+    return names[language] || names.uk || Object.values(names)[0] || '';
+}
+
 /**
  * Отримати список доступних типів повідомлень
  */
@@ -15,6 +15,8 @@ interface ParsedInitData {
     authDate: number;
     hash: string;
     queryId?: string;
+    // Payload з посилання t.me/<bot>/<app>?startapp=<payload>
+    startParam?: string;
 }
 
 /**
@@ -74,5 +76,6 @@ export function validateInitData(initData: string): ParsedInitData {
         authDate,
         hash,
         queryId: params.get('query_id') ?? undefined,
+        startParam: params.get('start_param') ?? undefined,
     };
 }
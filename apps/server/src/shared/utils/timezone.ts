@@ -0,0 +1,162 @@
+/**
+ * Дати й час у часовому поясі салону (не сервера).
+ *
+ * bookingDate / workDate — колонки @db.Date: календарна дата салону, збережена як північ UTC.
+ * startTime / endTime — "HH:mm" за місцевим часом салону.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export interface ZonedParts {
+    date: string;    // "YYYY-MM-DD"
+    time: string;    // "HH:mm"
+    weekday: number; // 0 = неділя
+}
+
+/**
+ * Чи відомий IANA-ідентифікатор часового поясу ("Europe/Kyiv")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Календарна дата "YYYY-MM-DD" (або ISO-рядок з часом) → значення для @db.Date
+ */
+export function toDbDate(value: string): Date {
+    return new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+}
+
+/**
+ * Значення @db.Date → "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Зсунути календарну дату "YYYY-MM-DD" на days днів
+ */
+export function addDaysToKey(dateKey: string, days: number): string {
+    return toDateKey(new Date(toDbDate(dateKey).getTime() + days * DAY_MS));
+}
+
+/**
+ * Значення @db.Date → "dd.MM.yyyy" для повідомлень
+ */
+export function formatDbDate(date: Date): string {
+    const [year, month, day] = toDateKey(date).split('-');
+    return `${day}.${month}.${year}`;
+}
+
+/**
+ * Дата, час і день тижня моменту instant у часовому поясі
+ */
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+    const parts = Object.fromEntries(
+        getFormatter(timeZone).formatToParts(instant).map((part) => [part.type, part.value])
+    );
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+
+    return {
+        date,
+        time: `${parts.hour}:${parts.minute}`,
+        weekday: toDbDate(date).getUTCDay(),
+    };
+}
+
+/**
+ * Сьогоднішня дата салону "YYYY-MM-DD"
+ */
+export function getZonedToday(timeZone: string, now: Date = new Date()): string {
+    return getZonedParts(now, timeZone).date;
+}
+
+// Зсув поясу відносно UTC у момент instant (мс)
+function getOffsetMs(instant: Date, timeZone: string): number {
+    const parts = Object.fromEntries(
+        getFormatter(timeZone).formatToParts(instant).map((part) => [part.type, part.value])
+    );
+    const asUtc = Date.UTC(
+        Number(parts.year),
+        Number(parts.month) - 1,
+        Number(parts.day),
+        Number(parts.hour),
+        Number(parts.minute),
+        Number(parts.second)
+    );
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Місцеві дата "YYYY-MM-DD" і час "HH:mm" салону → момент часу (UTC).
+ * Кандидати — зсуви поясу за добу до й після; підходить той, з яким момент читається назад як той самий місцевий час.
+ * Для неоднозначного часу (осінній перехід) береться перше входження, неіснуючий (весняний) зсувається вперед на розрив.
+ */
+export function zonedDateTimeToUtc(dateKey: string, time: string, timeZone: string): Date {
+    const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const naive = Date.UTC(year, month - 1, day, hours, minutes);
+
+    const offsetBefore = getOffsetMs(new Date(naive - DAY_MS), timeZone);
+    const offsetAfter = getOffsetMs(new Date(naive + DAY_MS), timeZone);
+
+    const valid = [naive - offsetBefore, naive - offsetAfter]
+        .filter((candidate) => getOffsetMs(new Date(candidate), timeZone) === naive - candidate);
+
+    return new Date(valid.length > 0 ? Math.min(...valid) : naive - offsetBefore);
+}
+
+/**
+ * Умова Prisma для бронювань, у яких поле часу (startTime/endTime) потрапляє у вікно [from, to].
+ * Вікно, що перетинає північ за часом салону, розбивається на дві дати.
+ */
+export function bookingTimeWindowWhere(
+    field: 'startTime' | 'endTime',
+    from: Date,
+    to: Date,
+    timeZone: string
+) {
+    const start = getZonedParts(from, timeZone);
+    const end = getZonedParts(to, timeZone);
+
+    if (start.date === end.date) {
+        return {
+            bookingDate: toDbDate(start.date),
+            [field]: { gte: start.time, lte: end.time },
+        };
+    }
+
+    return {
+        OR: [
+            { bookingDate: toDbDate(start.date), [field]: { gte: start.time } },
+            { bookingDate: toDbDate(end.date), [field]: { lte: end.time } },
+        ],
+    };
+}
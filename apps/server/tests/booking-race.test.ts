@@ -0,0 +1,152 @@
+/**
+ * Захист від подвійного бронювання: паралельні createBooking на один слот (з майстром і "будь-який майстер").
+ * Потрібні робочі DATABASE_URL і REDIS_URL (та решта змінних env) — без них тест пропускається.
+ * Фікстури (клієнт, майстер, послуга, розклад) створюються й видаляються самим тестом.
+ */
+import 'dotenv/config';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+const PARALLEL_REQUESTS = 10;
+const hasInfrastructure = Boolean(process.env.DATABASE_URL && process.env.REDIS_URL);
+
+describe('booking slot lock', { skip: !hasInfrastructure && 'DATABASE_URL and REDIS_URL are required' }, () => {
+    let modules: {
+        prisma: typeof import('../src/config/database.js')['prisma'];
+        redis: typeof import('../src/config/redis.js')['redis'];
+        closeQueues: typeof import('../src/queues/notification.queue.js')['closeQueues'];
+        createBooking: typeof import('../src/services/booking-create.service.js')['createBooking'];
+        BookingConflictError: typeof import('../src/services/booking.service.js')['BookingConflictError'];
+        BookingError: typeof import('../src/services/booking.service.js')['BookingError'];
+        cancelScheduledNotifications: typeof import('../src/services/notification.service.js')['cancelScheduledNotifications'];
+        getSetting: typeof import('../src/services/settings.service.js')['getSetting'];
+        getZonedToday: typeof import('../src/shared/utils/timezone.js')['getZonedToday'];
+        addDaysToKey: typeof import('../src/shared/utils/timezone.js')['addDaysToKey'];
+        toDbDate: typeof import('../src/shared/utils/timezone.js')['toDbDate'];
+    };
+    const fixture: Record<'clientId' | 'serviceId' | 'durationId' | 'bookingDate', string> & {
+        masterUserIds: string[];
+        masterIds: string[];
+    } = {
+        clientId: '', serviceId: '', durationId: '', bookingDate: '', masterUserIds: [], masterIds: [],
+    };
+    const createdBookingIds: string[] = [];
+
+    before(async () => {
+        // Модулі з env і підключеннями імпортуються лише коли інфраструктура є
+        modules = {
+            ...await import('../src/config/database.js'),
+            ...await import('../src/config/redis.js'),
+            ...await import('../src/queues/notification.queue.js'),
+            ...await import('../src/services/booking-create.service.js'),
+            ...await import('../src/services/booking.service.js'),
+            ...await import('../src/services/notification.service.js'),
+            ...await import('../src/services/settings.service.js'),
+            ...await import('../src/shared/utils/timezone.js'),
+        };
+        const { prisma, getSetting, getZonedToday, addDaysToKey, toDbDate } = modules;
+
+        const telegramBase = BigInt(9_000_000_000 + Math.floor(Math.random() * 1_000_000) * 3);
+        const client = await prisma.user.create({ data: { telegramId: telegramBase, firstName: 'Race client' } });
+        const service = await prisma.service.create({
+            data: {
+                name: { uk: 'Race service' },
+                durations: { create: { durationMinutes: 60, basePrice: 1000 } },
+            },
+            include: { durations: true },
+        });
+        const bookingDate = addDaysToKey(getZonedToday(await getSetting('salon_timezone')), 3);
+
+        Object.assign(fixture, {
+            clientId: client.id,
+            serviceId: service.id,
+            durationId: service.durations[0].id,
+            bookingDate,
+        });
+
+        // Два майстри з цією послугою, вільні весь день
+        for (const index of [1n, 2n]) {
+            const masterUser = await prisma.user.create({
+                data: { telegramId: telegramBase + index, firstName: `Race master ${index}`, role: 'master' },
+            });
+            const master = await prisma.master.create({
+                data: { userId: masterUser.id, displayName: { uk: `Race master ${index}` }, dailyDigestTime: null },
+            });
+            await prisma.masterService.create({ data: { masterId: master.id, serviceId: service.id } });
+            await prisma.masterSchedule.create({
+                data: { masterId: master.id, workDate: toDbDate(bookingDate), startTime: '09:00', endTime: '18:00' },
+            });
+
+            fixture.masterUserIds.push(masterUser.id);
+            fixture.masterIds.push(master.id);
+        }
+    });
+
+    after(async () => {
+        const { prisma, redis, closeQueues, cancelScheduledNotifications } = modules;
+
+        for (const bookingId of createdBookingIds) {
+            await cancelScheduledNotifications(bookingId).catch(() => undefined);
+            await prisma.notification.deleteMany({ where: { bookingId } });
+            await prisma.loyaltyStamp.deleteMany({ where: { bookingId } });
+            await prisma.booking.delete({ where: { id: bookingId } });
+        }
+        await prisma.master.deleteMany({ where: { id: { in: fixture.masterIds } } });
+        if (fixture.serviceId) await prisma.service.delete({ where: { id: fixture.serviceId } });
+        const userIds = [fixture.clientId, ...fixture.masterUserIds];
+        await prisma.notification.deleteMany({ where: { userId: { in: userIds } } });
+        await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+
+        await closeQueues();
+        await redis.quit();
+        await prisma.$disconnect();
+    });
+
+    /**
+     * Паралельні createBooking на один час; повертає створені бронювання та коди відмов
+     */
+    async function bookInParallel(startTime: string, masterId?: string) {
+        const { createBooking, BookingConflictError, BookingError } = modules;
+
+        const results = await Promise.allSettled(
+            Array.from({ length: PARALLEL_REQUESTS }, () => createBooking(fixture.clientId, {
+                masterId,
+                bookingDate: fixture.bookingDate,
+                startTime,
+                serviceDurations: [{ serviceId: fixture.serviceId, durationId: fixture.durationId }],
+            }))
+        );
+
+        const bookings = results
+            .filter((result) => result.status === 'fulfilled')
+            .map((result) => result.value.booking);
+        createdBookingIds.push(...bookings.map((booking) => booking.id));
+
+        const rejectionCodes = results
+            .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+            .map((result) => (
+                result.reason instanceof BookingConflictError || result.reason instanceof BookingError
+                    ? result.reason.code
+                    : String(result.reason)
+            ));
+
+        return { bookings, rejectionCodes };
+    }
+
+    it('lets exactly one of parallel requests book the same slot', async () => {
+        const { bookings, rejectionCodes } = await bookInParallel('12:00', fixture.masterIds[0]);
+
+        assert.equal(bookings.length, 1);
+        assert.deepEqual(rejectionCodes, Array(PARALLEL_REQUESTS - 1).fill('SLOT_TAKEN'));
+    });
+
+    it('gives parallel any-master requests every free master', async () => {
+        const { bookings, rejectionCodes } = await bookInParallel('15:00');
+
+        assert.deepEqual(
+            bookings.map((booking) => booking.masterId).sort(),
+            [...fixture.masterIds].sort()
+        );
+        assert.deepEqual(rejectionCodes, Array(PARALLEL_REQUESTS - fixture.masterIds.length).fill('SLOT_NOT_AVAILABLE'));
+    });
+});
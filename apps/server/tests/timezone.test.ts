@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getZonedParts, zonedDateTimeToUtc } from '../src/shared/utils/timezone.js';
+
+const KYIV = 'Europe/Kyiv';
+
+function toUtcIso(dateKey: string, time: string): string {
+    return zonedDateTimeToUtc(dateKey, time, KYIV).toISOString();
+}
+
+describe('zonedDateTimeToUtc', () => {
+    it('converts plain winter and summer dates with their own offset', () => {
+        assert.equal(toUtcIso('2026-01-15', '10:00'), '2026-01-15T08:00:00.000Z');
+        assert.equal(toUtcIso('2026-07-15', '10:00'), '2026-07-15T07:00:00.000Z');
+        assert.equal(toUtcIso('2026-07-15', '00:00'), '2026-07-14T21:00:00.000Z');
+    });
+
+    it('shifts a non-existent time in the spring gap forward', () => {
+        // 2026-03-29: 03:00 EET → 04:00 EEST
+        assert.equal(toUtcIso('2026-03-29', '02:30'), '2026-03-29T00:30:00.000Z');
+        assert.equal(toUtcIso('2026-03-29', '03:30'), '2026-03-29T01:30:00.000Z');
+        assert.equal(toUtcIso('2026-03-29', '04:00'), '2026-03-29T01:00:00.000Z');
+    });
+
+    it('keeps local times around the autumn overlap', () => {
+        // 2026-10-25: 04:00 EEST → 03:00 EET
+        for (const time of ['00:30', '01:30', '02:30', '04:30', '23:30']) {
+            const instant = zonedDateTimeToUtc('2026-10-25', time, KYIV);
+            assert.deepEqual(
+                { date: getZonedParts(instant, KYIV).date, time: getZonedParts(instant, KYIV).time },
+                { date: '2026-10-25', time }
+            );
+        }
+        assert.equal(toUtcIso('2026-10-25', '01:30'), '2026-10-24T22:30:00.000Z');
+        assert.equal(toUtcIso('2026-10-25', '02:30'), '2026-10-24T23:30:00.000Z');
+    });
+
+    it('takes the first occurrence of an ambiguous autumn time', () => {
+        assert.equal(toUtcIso('2026-10-25', '03:30'), '2026-10-25T00:30:00.000Z');
+    });
+
+    it('works for zones west of UTC', () => {
+        // 2026-11-01: 02:00 EDT → 01:00 EST
+        assert.equal(zonedDateTimeToUtc('2026-11-01', '01:30', 'America/New_York').toISOString(), '2026-11-01T05:30:00.000Z');
+        assert.equal(zonedDateTimeToUtc('2026-11-01', '12:00', 'America/New_York').toISOString(), '2026-11-01T17:00:00.000Z');
+    });
+});
@@ -8,6 +8,7 @@ const HomePage = lazy(() => import('../pages/home/HomePage').then(m => ({ defaul
 const BookingPage = lazy(() => import('../pages/booking/BookingPage').then(m => ({ default: m.BookingPage })));
 const ProfilePage = lazy(() => import('../pages/profile/ProfilePage').then(m => ({ default: m.ProfilePage })));
 const WaitlistPage = lazy(() => import('../pages/waitlist/WaitlistPage').then(m => ({ default: m.WaitlistPage })));
+const GiftCertificatesPage = lazy(() => import('../pages/gift-certificates/GiftCertificatesPage').then(m => ({ default: m.GiftCertificatesPage })));
 
 // Master pages
 const MasterDashboardPage = lazy(() => import('../pages/master/MasterDashboardPage').then(m => ({ default: m.MasterDashboardPage })));
@@ -23,6 +24,10 @@ const AdminUsersPage = lazy(() => import('../pages/admin/AdminUsersPage').then(m
 const AdminPromoCodesPage = lazy(() => import('../pages/admin/AdminPromoCodesPage').then(m => ({ default: m.AdminPromoCodesPage })));
 const AdminReviewsPage = lazy(() => import('../pages/admin/AdminReviewsPage').then(m => ({ default: m.AdminReviewsPage })));
 const AdminAnalyticsPage = lazy(() => import('../pages/admin/AdminAnalyticsPage').then(m => ({ default: m.AdminAnalyticsPage })));
+const AdminSettingsPage = lazy(() => import('../pages/admin/AdminSettingsPage').then(m => ({ default: m.AdminSettingsPage })));
+const AdminResourcesPage = lazy(() => import('../pages/admin/AdminResourcesPage').then(m => ({ default: m.AdminResourcesPage })));
+const AdminPackagesPage = lazy(() => import('../pages/admin/AdminPackagesPage').then(m => ({ default: m.AdminPackagesPage })));
+const AdminGiftCertificatesPage = lazy(() => import('../pages/admin/AdminGiftCertificatesPage').then(m => ({ default: m.AdminGiftCertificatesPage })));
 
 // Loading fallback component
 function PageLoader() {
@@ -69,6 +74,14 @@ const router = createBrowserRouter([
                     </Suspense>
                 )
             },
+            {
+                path: '/gift-certificates',
+                element: (
+                    <Suspense fallback={<PageLoader />}>
+                        <GiftCertificatesPage />
+                    </Suspense>
+                )
+            },
             // Master routes
             {
                 path: '/master',
@@ -129,6 +142,22 @@ const router = createBrowserRouter([
             </Suspense>
         )
     },
+    {
+        path: '/admin/packages',
+        element: (
+            <Suspense fallback={<PageLoader />}>
+                <AdminPackagesPage />
+            </Suspense>
+        )
+    },
+    {
+        path: '/admin/gift-certificates',
+        element: (
+            <Suspense fallback={<PageLoader />}>
+                <AdminGiftCertificatesPage />
+            </Suspense>
+        )
+    },
     {
         path: '/admin/users',
         element: (
@@ -161,6 +190,22 @@ const router = createBrowserRouter([
             </Suspense>
         )
     },
+    {
+        path: '/admin/settings',
+        element: (
+            <Suspense fallback={<PageLoader />}>
+                <AdminSettingsPage />
+            </Suspense>
+        )
+    },
+    {
+        path: '/admin/resources',
+        element: (
+            <Suspense fallback={<PageLoader />}>
+                <AdminResourcesPage />
+            </Suspense>
+        )
+    },
 ]);
 
 export function AppRouter() {
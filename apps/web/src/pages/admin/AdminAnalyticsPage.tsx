@@ -22,21 +22,37 @@ interface RevenueData {
     revenueByDay: { date: string; revenue: number }[];
 }
 
+interface ReferralAnalytics {
+    totalReferrals: number;
+    rewardedReferrals: number;
+    conversionRate: number;
+    rewardCodesIssued: number;
+    rewardCodesUsed: number;
+    topReferrers: {
+        user: { id: string; firstName?: string; lastName?: string; telegramUsername?: string } | null;
+        invitedCount: number;
+        rewardedCount: number;
+    }[];
+}
+
 export const AdminAnalyticsPage: React.FC = () => {
     const [overview, setOverview] = useState<OverviewStats | null>(null);
     const [revenue, setRevenue] = useState<RevenueData | null>(null);
+    const [referrals, setReferrals] = useState<ReferralAnalytics | null>(null);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         const fetchData = async () => {
             setLoading(true);
             try {
-                const [overviewData, revenueData] = await Promise.all([
+                const [overviewData, revenueData, referralData] = await Promise.all([
                     api.get<OverviewStats>('/admin/analytics/overview'),
                     api.get<RevenueData>('/admin/analytics/revenue'),
+                    api.get<ReferralAnalytics>('/admin/analytics/referrals'),
                 ]);
                 setOverview(overviewData);
                 setRevenue(revenueData);
+                setReferrals(referralData);
             } catch (err) {
                 console.error('Failed to fetch analytics:', err);
             } finally {
@@ -141,6 +157,58 @@ export const AdminAnalyticsPage: React.FC = () => {
                     </div>
                 )}
             </div>
+
+            {/* Referral Program */}
+            <div className="bg-white rounded-xl p-6 shadow-sm mt-6">
+                <h2 className="text-lg font-semibold mb-4">Referrals</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    <div>
+                        <p className="text-sm text-gray-500">Invited</p>
+                        <p className="text-xl font-bold">{referrals?.totalReferrals || 0}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-gray-500">Completed First Visit</p>
+                        <p className="text-xl font-bold">
+                            {referrals?.rewardedReferrals || 0}
+                            <span className="text-sm font-normal text-gray-500 ml-2">{referrals?.conversionRate || 0}%</span>
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-gray-500">Reward Codes Issued</p>
+                        <p className="text-xl font-bold">{referrals?.rewardCodesIssued || 0}</p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-gray-500">Reward Codes Used</p>
+                        <p className="text-xl font-bold">{referrals?.rewardCodesUsed || 0}</p>
+                    </div>
+                </div>
+                {referrals?.topReferrers && referrals.topReferrers.length > 0 ? (
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-sm font-medium text-gray-500">Top Referrers</th>
+                                <th className="px-4 py-2 text-right text-sm font-medium text-gray-500">Invited</th>
+                                <th className="px-4 py-2 text-right text-sm font-medium text-gray-500">Rewarded</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {referrals.topReferrers.map((referrer, index) => (
+                                <tr key={referrer.user?.id || index}>
+                                    <td className="px-4 py-2 text-sm text-gray-900">
+                                        {[referrer.user?.firstName, referrer.user?.lastName].filter(Boolean).join(' ')
+                                            || referrer.user?.telegramUsername
+                                            || 'Unknown'}
+                                    </td>
+                                    <td className="px-4 py-2 text-sm text-right">{referrer.invitedCount}</td>
+                                    <td className="px-4 py-2 text-sm text-right">{referrer.rewardedCount}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <div className="py-8 text-center text-gray-400">No referrals yet</div>
+                )}
+            </div>
         </AdminLayout>
     );
 };
@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { AdminLayout } from '../../shared/components/layout/AdminLayout';
 import { api } from '../../shared/api/client';
 
@@ -9,6 +10,8 @@ interface Booking {
     endTime: string;
     status: string;
     totalPrice: number;
+    seriesId?: string | null;
+    groupId?: string | null;
     user: {
         id: string;
         telegramUsername?: string;
@@ -50,10 +53,19 @@ export const AdminBookingsPage: React.FC = () => {
     const [loading, setLoading] = useState(true);
     const [page, setPage] = useState(1);
     const [statusFilter, setStatusFilter] = useState<string>('');
+    // Link from the staff Telegram group opens a single booking (?booking=<id>)
+    const [searchParams, setSearchParams] = useSearchParams();
+    const bookingId = searchParams.get('booking');
 
     const fetchBookings = async (pageNum = 1, status = '') => {
         setLoading(true);
         try {
+            if (bookingId) {
+                const data = await api.get<{ booking: Booking }>(`/admin/bookings/${bookingId}`);
+                setBookings([data.booking]);
+                return;
+            }
+
             const query = `/admin/bookings?page=${pageNum}&limit=20${status ? `&status=${status}` : ''}`;
             const data = await api.get<{ bookings: Booking[]; pagination: { total: number; totalPages: number } }>(query);
             setBookings(data.bookings);
@@ -67,7 +79,7 @@ export const AdminBookingsPage: React.FC = () => {
 
     useEffect(() => {
         fetchBookings(1, statusFilter);
-    }, [statusFilter]);
+    }, [statusFilter, bookingId]);
 
     const handleStatusChange = async (bookingId: string, status: string) => {
         try {
@@ -78,6 +90,25 @@ export const AdminBookingsPage: React.FC = () => {
         }
     };
 
+    const handleCancel = async (booking: Booking, scope: 'single' | 'future') => {
+        const question = scope === 'future'
+            ? 'Скасувати цей і всі наступні візити серії?'
+            : booking.groupId
+                ? 'Скасувати все групове бронювання (усіх учасників)?'
+                : 'Скасувати це бронювання?';
+        if (!confirm(question)) return;
+        try {
+            await api.delete(`/admin/bookings/${booking.id}?scope=${scope}`);
+            fetchBookings(page, statusFilter);
+        } catch (err) {
+            console.error('Failed to cancel booking:', err);
+        }
+    };
+
+    const canCancel = (status: string) => {
+        return ['pending_confirmation', 'confirmed', 'deposit_pending', 'deposit_paid'].includes(status);
+    };
+
     const getServiceName = (item: Booking['items'][0]) => {
         return item.service.name.uk || item.service.name.en || Object.values(item.service.name)[0] || 'Послуга';
     };
@@ -91,10 +122,19 @@ export const AdminBookingsPage: React.FC = () => {
 
             {/* Filters */}
             <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
-                <div className="flex gap-4">
+                <div className="flex gap-4 items-center">
+                    {bookingId && (
+                        <button
+                            onClick={() => setSearchParams({})}
+                            className="px-4 py-2 border rounded-lg text-purple-600 hover:bg-purple-50"
+                        >
+                            ← Всі бронювання
+                        </button>
+                    )}
                     <select
                         value={statusFilter}
                         onChange={(e) => setStatusFilter(e.target.value)}
+                        disabled={!!bookingId}
                         className="px-4 py-2 border rounded-lg"
                     >
                         <option value="">Всі статуси</option>
@@ -148,6 +188,16 @@ export const AdminBookingsPage: React.FC = () => {
                                             <div className="text-sm text-gray-900">
                                                 {booking.items.map(item => getServiceName(item)).join(', ')}
                                             </div>
+                                            {booking.seriesId && (
+                                                <span className="text-xs px-2 py-0.5 rounded bg-purple-100 text-purple-700">
+                                                    🔁 Серія
+                                                </span>
+                                            )}
+                                            {booking.groupId && (
+                                                <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+                                                    👥 Група
+                                                </span>
+                                            )}
                                         </td>
                                         <td className="px-4 py-3 text-sm text-gray-600">
                                             {booking.master
@@ -168,7 +218,23 @@ export const AdminBookingsPage: React.FC = () => {
                                                 ))}
                                             </select>
                                         </td>
-                                        <td className="px-4 py-3 text-right">
+                                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                                            {canCancel(booking.status) && (
+                                                <button
+                                                    onClick={() => handleCancel(booking, 'single')}
+                                                    className="text-red-600 hover:text-red-700 text-sm mr-3"
+                                                >
+                                                    Скасувати
+                                                </button>
+                                            )}
+                                            {canCancel(booking.status) && booking.seriesId && (
+                                                <button
+                                                    onClick={() => handleCancel(booking, 'future')}
+                                                    className="text-red-600 hover:text-red-700 text-sm mr-3"
+                                                >
+                                                    Скасувати всі наступні
+                                                </button>
+                                            )}
                                             <button className="text-purple-600 hover:text-purple-700 text-sm">
                                                 Деталі
                                             </button>
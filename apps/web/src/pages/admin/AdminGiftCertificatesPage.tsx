@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { AdminLayout } from '../../shared/components/layout/AdminLayout';
+import { api } from '../../shared/api/client';
+
+interface GiftCertificate {
+    id: string;
+    code: string;
+    amount: number;
+    balance: number;
+    status: 'pending' | 'active' | 'used' | 'voided';
+    expiresAt: string;
+    recipientName?: string | null;
+    voidReason?: string | null;
+    createdAt: string;
+    purchaser: {
+        id: string;
+        firstName?: string;
+        lastName?: string;
+        telegramUsername?: string;
+    };
+    payments: {
+        id: string;
+        bookingId: string | null;
+        amount: number;
+        status: string;
+        createdAt: string;
+    }[];
+}
+
+const statusColors: Record<string, string> = {
+    pending: 'bg-yellow-100 text-yellow-700',
+    active: 'bg-green-100 text-green-700',
+    used: 'bg-gray-100 text-gray-700',
+    voided: 'bg-red-100 text-red-700',
+};
+
+const statusLabels: Record<string, string> = {
+    pending: 'Очікує оплати',
+    active: 'Активний',
+    used: 'Використаний',
+    voided: 'Анульований',
+};
+
+export const AdminGiftCertificatesPage: React.FC = () => {
+    const [certificates, setCertificates] = useState<GiftCertificate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [statusFilter, setStatusFilter] = useState('');
+    const [search, setSearch] = useState('');
+
+    const fetchCertificates = async (pageNum = 1) => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({ page: String(pageNum), limit: '20' });
+            if (statusFilter) params.set('status', statusFilter);
+            if (search.trim()) params.set('search', search.trim());
+            const data = await api.get<{ certificates: GiftCertificate[]; pagination: { total: number; totalPages: number } }>(
+                `/admin/gift-certificates?${params.toString()}`
+            );
+            setCertificates(data.certificates);
+            setTotalPages(data.pagination.totalPages || 1);
+            setPage(pageNum);
+        } catch (err) {
+            console.error('Failed to fetch gift certificates:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchCertificates(1);
+    }, [statusFilter]);
+
+    const handleVoid = async (certificate: GiftCertificate) => {
+        const reason = prompt(`Анулювати сертифікат ${certificate.code}? Вкажіть причину (необов'язково):`);
+        if (reason === null) return;
+        try {
+            await api.post(`/admin/gift-certificates/${certificate.id}/void`, { reason: reason || undefined });
+            fetchCertificates(page);
+        } catch (err) {
+            console.error('Failed to void gift certificate:', err);
+        }
+    };
+
+    const getPurchaserName = (purchaser: GiftCertificate['purchaser']) => {
+        return [purchaser.firstName, purchaser.lastName].filter(Boolean).join(' ')
+            || purchaser.telegramUsername
+            || 'Невідомо';
+    };
+
+    return (
+        <AdminLayout>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Подарункові сертифікати</h1>
+                <p className="text-gray-600">Продані сертифікати, їх залишки та використання</p>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-xl shadow-sm p-4 mb-6">
+                <div className="flex gap-4">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value)}
+                        className="px-4 py-2 border rounded-lg"
+                    >
+                        <option value="">Всі статуси</option>
+                        {Object.entries(statusLabels).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && fetchCertificates(1)}
+                        placeholder="Пошук за кодом"
+                        className="flex-1 px-4 py-2 border rounded-lg"
+                    />
+                </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm">
+                {loading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+                    </div>
+                ) : certificates.length === 0 ? (
+                    <div className="p-8 text-center text-gray-500">Сертифікатів не знайдено</div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Код</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Покупець</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Залишок</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Використань</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Діє до</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Статус</th>
+                                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Дії</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {certificates.map((certificate) => (
+                                    <tr key={certificate.id} className="hover:bg-gray-50">
+                                        <td className="px-4 py-3">
+                                            <div className="font-mono text-sm text-gray-900">{certificate.code}</div>
+                                            {certificate.recipientName && (
+                                                <div className="text-xs text-gray-500">для {certificate.recipientName}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-900">
+                                            {getPurchaserName(certificate.purchaser)}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm font-medium">
+                                            {Number(certificate.balance)} / {Number(certificate.amount)} ₴
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-600">
+                                            {certificate.payments.length}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-600">
+                                            {new Date(certificate.expiresAt).toLocaleDateString('uk-UA')}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <span className={`text-xs px-2 py-1 rounded ${statusColors[certificate.status]}`}>
+                                                {statusLabels[certificate.status]}
+                                            </span>
+                                            {certificate.voidReason && (
+                                                <div className="text-xs text-gray-500 mt-1">{certificate.voidReason}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                                            {certificate.status !== 'voided' && (
+                                                <button
+                                                    onClick={() => handleVoid(certificate)}
+                                                    className="text-red-600 hover:text-red-700 text-sm"
+                                                >
+                                                    Анулювати
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+                <div className="flex justify-center gap-2 mt-6">
+                    <button
+                        onClick={() => fetchCertificates(page - 1)}
+                        disabled={page <= 1}
+                        className="px-4 py-2 bg-white rounded-lg shadow-sm disabled:opacity-50"
+                    >
+                        ←
+                    </button>
+                    <span className="px-4 py-2 text-gray-600">{page} / {totalPages}</span>
+                    <button
+                        onClick={() => fetchCertificates(page + 1)}
+                        disabled={page >= totalPages}
+                        className="px-4 py-2 bg-white rounded-lg shadow-sm disabled:opacity-50"
+                    >
+                        →
+                    </button>
+                </div>
+            )}
+        </AdminLayout>
+    );
+};
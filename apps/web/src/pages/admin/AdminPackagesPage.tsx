@@ -0,0 +1,520 @@
+import React, { useEffect, useState } from 'react';
+import { AdminLayout } from '../../shared/components/layout/AdminLayout';
+import { api } from '../../shared/api/client';
+
+interface SessionPackage {
+    id: string;
+    name: Record<string, string>;
+    serviceId: string;
+    durationId: string;
+    sessionsCount: number;
+    price: number;
+    validDays: number;
+    isActive: boolean;
+    service: { id: string; name: Record<string, string> };
+    duration: { id: string; durationMinutes: number };
+    _count: { userPackages: number };
+}
+
+interface UserPackage {
+    id: string;
+    sessionsTotal: number;
+    sessionsRemaining: number;
+    expiresAt: string;
+    createdAt: string;
+    package: { id: string; name: Record<string, string> };
+    user: { id: string; firstName?: string; lastName?: string; telegramUsername?: string };
+}
+
+interface PackageLog {
+    id: string;
+    type: 'issued' | 'consumed' | 'restored' | 'adjusted';
+    delta: number;
+    balanceAfter: number;
+    reason: string | null;
+    createdAt: string;
+    actor: { firstName?: string; telegramUsername?: string } | null;
+    booking: { id: string; bookingDate: string; startTime: string } | null;
+}
+
+interface ServiceOption {
+    id: string;
+    name: Record<string, string>;
+    durations: { id: string; durationMinutes: number; basePrice: number }[];
+}
+
+interface UserOption {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    telegramUsername?: string;
+}
+
+interface PackageForm {
+    id: string | null;
+    name: string;
+    serviceId: string;
+    durationId: string;
+    sessionsCount: number;
+    price: number;
+    validDays: number;
+    // Issued packages cover the product's service and duration, so those are locked once sold
+    sold: boolean;
+}
+
+const emptyForm: PackageForm = { id: null, name: '', serviceId: '', durationId: '', sessionsCount: 10, price: 0, validDays: 180, sold: false };
+
+const logTypeLabels: Record<PackageLog['type'], string> = {
+    issued: 'Видано',
+    consumed: 'Списано за візит',
+    restored: 'Повернено (скасування)',
+    adjusted: 'Коригування',
+};
+
+const getName = (name: Record<string, string> | null) => {
+    if (!name) return '-';
+    return name.uk || name.en || Object.values(name)[0] || 'Без назви';
+};
+
+const getUserName = (user: UserOption) => {
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.telegramUsername || 'Невідомо';
+};
+
+export const AdminPackagesPage: React.FC = () => {
+    const [packages, setPackages] = useState<SessionPackage[]>([]);
+    const [userPackages, setUserPackages] = useState<UserPackage[]>([]);
+    const [services, setServices] = useState<ServiceOption[]>([]);
+    const [form, setForm] = useState<PackageForm | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    // Issuing a package to a client
+    const [issuePackageId, setIssuePackageId] = useState<string | null>(null);
+    const [userSearch, setUserSearch] = useState('');
+    const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+
+    // Audit trail of the selected client package
+    const [logsFor, setLogsFor] = useState<string | null>(null);
+    const [logs, setLogs] = useState<PackageLog[]>([]);
+
+    const fetchPackages = async () => {
+        setLoading(true);
+        try {
+            const data = await api.get<{ packages: SessionPackage[] }>('/admin/packages');
+            setPackages(data.packages);
+        } catch (err) {
+            console.error('Failed to fetch packages:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchUserPackages = async () => {
+        try {
+            const data = await api.get<{ userPackages: UserPackage[] }>('/admin/packages/user-packages?page=1&limit=50');
+            setUserPackages(data.userPackages);
+        } catch (err) {
+            console.error('Failed to fetch client packages:', err);
+        }
+    };
+
+    const fetchServices = async () => {
+        try {
+            const data = await api.get<{ services: ServiceOption[] }>('/admin/services?page=1&limit=100');
+            setServices(data.services);
+        } catch (err) {
+            console.error('Failed to fetch services:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchPackages();
+        fetchUserPackages();
+        fetchServices();
+    }, []);
+
+    const handleSave = async () => {
+        if (!form) return;
+
+        const body = {
+            name: { uk: form.name },
+            serviceId: form.serviceId,
+            durationId: form.durationId,
+            sessionsCount: form.sessionsCount,
+            price: form.price,
+            validDays: form.validDays,
+        };
+
+        setError(null);
+        try {
+            if (form.id) {
+                await api.put(`/admin/packages/${form.id}`, body);
+            } else {
+                await api.post('/admin/packages', body);
+            }
+            setForm(null);
+            fetchPackages();
+        } catch (err: any) {
+            setError(err.message || 'Не вдалося зберегти');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Зняти пакет з продажу? Видані клієнтам пакети діятимуть до кінця терміну.')) return;
+        try {
+            await api.delete(`/admin/packages/${id}`);
+            fetchPackages();
+        } catch (err) {
+            console.error('Failed to delete package:', err);
+        }
+    };
+
+    const handleUserSearch = async () => {
+        if (!userSearch.trim()) return;
+        try {
+            const data = await api.get<{ users: UserOption[] }>(`/admin/users?page=1&limit=10&search=${encodeURIComponent(userSearch.trim())}`);
+            setUserOptions(data.users);
+        } catch (err) {
+            console.error('Failed to search users:', err);
+        }
+    };
+
+    const handleIssue = async (userId: string) => {
+        if (!issuePackageId) return;
+        try {
+            await api.post('/admin/packages/user-packages', { userId, packageId: issuePackageId });
+            setIssuePackageId(null);
+            setUserOptions([]);
+            setUserSearch('');
+            fetchUserPackages();
+            fetchPackages();
+        } catch (err: any) {
+            alert(err.message || 'Не вдалося видати пакет');
+        }
+    };
+
+    const handleAdjust = async (userPackage: UserPackage) => {
+        const deltaInput = prompt(`Змінити залишок (зараз ${userPackage.sessionsRemaining}). Вкажіть +N або -N:`);
+        if (!deltaInput) return;
+        const delta = parseInt(deltaInput, 10);
+        if (!delta) return;
+        const reason = prompt('Причина коригування:');
+        if (!reason) return;
+        try {
+            await api.post(`/admin/packages/user-packages/${userPackage.id}/adjust`, { delta, reason });
+            fetchUserPackages();
+            if (logsFor === userPackage.id) {
+                showLogs(userPackage.id);
+            }
+        } catch (err: any) {
+            alert(err.message || 'Не вдалося скоригувати');
+        }
+    };
+
+    const showLogs = async (userPackageId: string) => {
+        try {
+            const data = await api.get<{ logs: PackageLog[] }>(`/admin/packages/user-packages/${userPackageId}/logs`);
+            setLogs(data.logs);
+            setLogsFor(userPackageId);
+        } catch (err) {
+            console.error('Failed to fetch package logs:', err);
+        }
+    };
+
+    const selectedService = services.find((service) => service.id === form?.serviceId);
+
+    return (
+        <AdminLayout>
+            <div className="mb-6 flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Абонементи</h1>
+                    <p className="text-gray-600">Пакети сеансів, що продаються наперед, і залишки клієнтів</p>
+                </div>
+                <button
+                    onClick={() => setForm(emptyForm)}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                >
+                    + Додати пакет
+                </button>
+            </div>
+
+            {form && (
+                <div className="bg-white rounded-xl shadow-sm mb-6 p-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Назва</label>
+                            <input
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                placeholder="10 × класичний масаж 60 хв"
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Послуга</label>
+                            <select
+                                value={form.serviceId}
+                                onChange={(e) => setForm({ ...form, serviceId: e.target.value, durationId: '' })}
+                                disabled={form.sold}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            >
+                                <option value="">Оберіть послугу</option>
+                                {services.map((service) => (
+                                    <option key={service.id} value={service.id}>{getName(service.name)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Тривалість</label>
+                            <select
+                                value={form.durationId}
+                                onChange={(e) => setForm({ ...form, durationId: e.target.value })}
+                                disabled={form.sold}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            >
+                                <option value="">Оберіть тривалість</option>
+                                {selectedService?.durations.map((duration) => (
+                                    <option key={duration.id} value={duration.id}>
+                                        {duration.durationMinutes} хв — {Number(duration.basePrice)} ₴
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        {form.sold && (
+                            <p className="md:col-span-3 text-sm text-gray-500">
+                                Пакет уже видано клієнтам: щоб змінити послугу чи тривалість, зніміть його з продажу і створіть новий
+                            </p>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Кількість сеансів</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={form.sessionsCount}
+                                onChange={(e) => setForm({ ...form, sessionsCount: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Ціна, ₴</label>
+                            <input
+                                type="number"
+                                min={0}
+                                value={form.price}
+                                onChange={(e) => setForm({ ...form, price: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Діє днів після видачі</label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={form.validDays}
+                                onChange={(e) => setForm({ ...form, validDays: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => setForm(null)}
+                            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                            Скасувати
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={!form.name.trim() || !form.durationId || form.sessionsCount < 1 || form.validDays < 1}
+                            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                        >
+                            Зберегти
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Packages Table */}
+            <div className="bg-white rounded-xl shadow-sm mb-6">
+                {loading ? (
+                    <div className="flex items-center justify-center h-32">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+                    </div>
+                ) : (
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Назва</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Послуга</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Сеансів</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Ціна</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Продано</th>
+                                <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Дії</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {packages.map((sessionPackage) => (
+                                <tr key={sessionPackage.id} className={`hover:bg-gray-50 ${sessionPackage.isActive ? '' : 'opacity-50'}`}>
+                                    <td className="px-4 py-3 font-medium text-gray-900">{getName(sessionPackage.name)}</td>
+                                    <td className="px-4 py-3 text-gray-600">
+                                        {getName(sessionPackage.service.name)}, {sessionPackage.duration.durationMinutes} хв
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-600">
+                                        {sessionPackage.sessionsCount} / {sessionPackage.validDays} дн.
+                                    </td>
+                                    <td className="px-4 py-3 text-gray-600">{Number(sessionPackage.price)} ₴</td>
+                                    <td className="px-4 py-3 text-gray-600">{sessionPackage._count.userPackages}</td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                                        {sessionPackage.isActive && (
+                                            <>
+                                                <button
+                                                    onClick={() => setIssuePackageId(sessionPackage.id)}
+                                                    className="text-green-600 hover:text-green-700 mr-3"
+                                                >
+                                                    Видати клієнту
+                                                </button>
+                                                <button
+                                                    onClick={() => setForm({
+                                                        id: sessionPackage.id,
+                                                        name: getName(sessionPackage.name),
+                                                        serviceId: sessionPackage.serviceId,
+                                                        durationId: sessionPackage.durationId,
+                                                        sessionsCount: sessionPackage.sessionsCount,
+                                                        price: Number(sessionPackage.price),
+                                                        validDays: sessionPackage.validDays,
+                                                        sold: sessionPackage._count.userPackages > 0,
+                                                    })}
+                                                    className="text-purple-600 hover:text-purple-700 mr-3"
+                                                >
+                                                    Редагувати
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(sessionPackage.id)}
+                                                    className="text-red-600 hover:text-red-700"
+                                                >
+                                                    Зняти з продажу
+                                                </button>
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {issuePackageId && (
+                <div className="bg-white rounded-xl shadow-sm mb-6 p-4 space-y-3">
+                    <h2 className="font-semibold text-gray-900">
+                        Видати «{getName(packages.find((p) => p.id === issuePackageId)?.name ?? null)}»
+                    </h2>
+                    <div className="flex gap-3">
+                        <input
+                            value={userSearch}
+                            onChange={(e) => setUserSearch(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleUserSearch()}
+                            placeholder="Ім'я або username клієнта"
+                            className="flex-1 px-3 py-2 border rounded-lg"
+                        />
+                        <button
+                            onClick={handleUserSearch}
+                            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                        >
+                            Знайти
+                        </button>
+                        <button
+                            onClick={() => setIssuePackageId(null)}
+                            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                            Скасувати
+                        </button>
+                    </div>
+                    {userOptions.map((user) => (
+                        <div key={user.id} className="flex justify-between items-center py-2 border-b last:border-0">
+                            <span className="text-sm text-gray-900">
+                                {getUserName(user)}
+                                {user.telegramUsername && <span className="text-gray-500"> @{user.telegramUsername}</span>}
+                            </span>
+                            <button
+                                onClick={() => handleIssue(user.id)}
+                                className="text-green-600 hover:text-green-700 text-sm"
+                            >
+                                Видати
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Client Packages */}
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Пакети клієнтів</h2>
+            <div className="bg-white rounded-xl shadow-sm">
+                <table className="w-full">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Клієнт</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Пакет</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Залишок</th>
+                            <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Діє до</th>
+                            <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Дії</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {userPackages.map((userPackage) => (
+                            <React.Fragment key={userPackage.id}>
+                                <tr className="hover:bg-gray-50">
+                                    <td className="px-4 py-3 text-sm text-gray-900">{getUserName(userPackage.user)}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-600">{getName(userPackage.package.name)}</td>
+                                    <td className="px-4 py-3 text-sm font-medium">
+                                        {userPackage.sessionsRemaining} / {userPackage.sessionsTotal}
+                                    </td>
+                                    <td className={`px-4 py-3 text-sm ${new Date(userPackage.expiresAt) < new Date() ? 'text-red-600' : 'text-gray-600'}`}>
+                                        {new Date(userPackage.expiresAt).toLocaleDateString('uk-UA')}
+                                    </td>
+                                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => handleAdjust(userPackage)}
+                                            className="text-purple-600 hover:text-purple-700 text-sm mr-3"
+                                        >
+                                            Коригувати
+                                        </button>
+                                        <button
+                                            onClick={() => logsFor === userPackage.id ? setLogsFor(null) : showLogs(userPackage.id)}
+                                            className="text-gray-600 hover:text-gray-700 text-sm"
+                                        >
+                                            Історія
+                                        </button>
+                                    </td>
+                                </tr>
+                                {logsFor === userPackage.id && (
+                                    <tr>
+                                        <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                                            <ul className="space-y-1 text-sm">
+                                                {logs.map((log) => (
+                                                    <li key={log.id} className="flex gap-3 text-gray-700">
+                                                        <span className="text-gray-500">{new Date(log.createdAt).toLocaleString('uk-UA')}</span>
+                                                        <span className="font-medium">{logTypeLabels[log.type]}</span>
+                                                        <span>{log.delta > 0 ? `+${log.delta}` : log.delta} → {log.balanceAfter}</span>
+                                                        {log.booking && (
+                                                            <span className="text-gray-500">
+                                                                візит {new Date(log.booking.bookingDate).toLocaleDateString('uk-UA')} {log.booking.startTime}
+                                                            </span>
+                                                        )}
+                                                        {log.actor && <span className="text-gray-500">{log.actor.firstName || log.actor.telegramUsername}</span>}
+                                                        {log.reason && <span className="text-gray-500 italic">{log.reason}</span>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </AdminLayout>
+    );
+};
@@ -10,6 +10,12 @@ interface PromoCode {
     minOrderAmount?: number;
     maxUses?: number;
     currentUses: number;
+    maxUsesPerUser?: number | null;
+    serviceIds?: string[] | null;
+    categoryIds?: string[] | null;
+    firstVisitOnly: boolean;
+    ownerId?: string | null;
+    master?: { id: string; displayName: Record<string, string> } | null;
     validFrom: string;
     validUntil: string;
     isActive: boolean;
@@ -51,6 +57,18 @@ export const AdminPromoCodesPage: React.FC = () => {
         return new Date(date).toLocaleDateString('uk-UA');
     };
 
+    // Short summary of the restrictions marketing set on the code
+    const getRules = (promo: PromoCode) => {
+        const rules: string[] = [];
+        if (promo.maxUsesPerUser) rules.push(`${promo.maxUsesPerUser} per user`);
+        if (promo.ownerId) rules.push('Personal (referral reward)');
+        if (promo.firstVisitOnly) rules.push('First visit');
+        if (promo.serviceIds?.length) rules.push(`${promo.serviceIds.length} services`);
+        if (promo.categoryIds?.length) rules.push(`${promo.categoryIds.length} categories`);
+        if (promo.master) rules.push(promo.master.displayName.uk || promo.master.displayName.en || 'Master');
+        return rules.length > 0 ? rules.join(', ') : '-';
+    };
+
     return (
         <AdminLayout>
             <div className="mb-6 flex justify-between items-center">
@@ -80,6 +98,7 @@ export const AdminPromoCodesPage: React.FC = () => {
                                     <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Discount</th>
                                     <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Min Order</th>
                                     <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Uses</th>
+                                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Rules</th>
                                     <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Valid Until</th>
                                     <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Status</th>
                                     <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Actions</th>
@@ -102,6 +121,9 @@ export const AdminPromoCodesPage: React.FC = () => {
                                         <td className="px-4 py-3 text-gray-600">
                                             {promo.currentUses} {promo.maxUses ? `/ ${promo.maxUses}` : ''}
                                         </td>
+                                        <td className="px-4 py-3 text-sm text-gray-600">
+                                            {getRules(promo)}
+                                        </td>
                                         <td className="px-4 py-3 text-gray-600">
                                             {formatDate(promo.validUntil)}
                                         </td>
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { AdminLayout } from '../../shared/components/layout/AdminLayout';
+import { api } from '../../shared/api/client';
+
+interface Resource {
+    id: string;
+    name: Record<string, string>;
+    capacity: number;
+    isActive: boolean;
+    sortOrder: number;
+    services: { service: { id: string; name: Record<string, string> } }[];
+}
+
+interface ServiceOption {
+    id: string;
+    name: Record<string, string>;
+}
+
+interface OccupancyResource {
+    id: string;
+    name: Record<string, string>;
+    capacity: number;
+    bookings: {
+        id: string;
+        startTime: string;
+        endTime: string;
+        status: string;
+        masterName: Record<string, string> | null;
+        clientName: string;
+        services: Record<string, string>[];
+    }[];
+}
+
+interface ResourceForm {
+    id: string | null;
+    name: string;
+    capacity: number;
+    serviceIds: string[];
+}
+
+const emptyForm: ResourceForm = { id: null, name: '', capacity: 1, serviceIds: [] };
+
+const getName = (name: Record<string, string> | null) => {
+    if (!name) return '-';
+    return name.uk || name.en || Object.values(name)[0] || 'Без назви';
+};
+
+export const AdminResourcesPage: React.FC = () => {
+    const [resources, setResources] = useState<Resource[]>([]);
+    const [services, setServices] = useState<ServiceOption[]>([]);
+    const [occupancy, setOccupancy] = useState<OccupancyResource[]>([]);
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [form, setForm] = useState<ResourceForm | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const fetchResources = async () => {
+        setLoading(true);
+        try {
+            const data = await api.get<{ resources: Resource[] }>('/admin/resources');
+            setResources(data.resources);
+        } catch (err) {
+            console.error('Failed to fetch resources:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchServices = async () => {
+        try {
+            const data = await api.get<{ services: ServiceOption[] }>('/admin/services?page=1&limit=100');
+            setServices(data.services);
+        } catch (err) {
+            console.error('Failed to fetch services:', err);
+        }
+    };
+
+    const fetchOccupancy = async () => {
+        try {
+            const data = await api.get<{ resources: OccupancyResource[] }>(`/admin/resources/occupancy?date=${date}`);
+            setOccupancy(data.resources);
+        } catch (err) {
+            console.error('Failed to fetch occupancy:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchResources();
+        fetchServices();
+    }, []);
+
+    useEffect(() => {
+        fetchOccupancy();
+    }, [date]);
+
+    const handleSave = async () => {
+        if (!form) return;
+
+        const body = {
+            name: { uk: form.name },
+            capacity: form.capacity,
+            serviceIds: form.serviceIds,
+        };
+
+        setError(null);
+        try {
+            if (form.id) {
+                await api.put(`/admin/resources/${form.id}`, body);
+            } else {
+                await api.post('/admin/resources', body);
+            }
+            setForm(null);
+            fetchResources();
+            fetchOccupancy();
+        } catch (err: any) {
+            setError(err.message || 'Не вдалося зберегти');
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Ви впевнені, що хочете видалити цей ресурс?')) return;
+        try {
+            await api.delete(`/admin/resources/${id}`);
+            fetchResources();
+            fetchOccupancy();
+        } catch (err) {
+            console.error('Failed to delete resource:', err);
+        }
+    };
+
+    const toggleService = (serviceId: string) => {
+        if (!form) return;
+        setForm({
+            ...form,
+            serviceIds: form.serviceIds.includes(serviceId)
+                ? form.serviceIds.filter((id) => id !== serviceId)
+                : [...form.serviceIds, serviceId],
+        });
+    };
+
+    return (
+        <AdminLayout>
+            <div className="mb-6 flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Ресурси</h1>
+                    <p className="text-gray-600">Кімнати та обладнання, потрібні для послуг</p>
+                </div>
+                <button
+                    onClick={() => setForm(emptyForm)}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                >
+                    + Додати ресурс
+                </button>
+            </div>
+
+            {form && (
+                <div className="bg-white rounded-xl shadow-sm mb-6 p-4 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Назва</label>
+                            <input
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Місткість (візитів одночасно)
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                value={form.capacity}
+                                onChange={(e) => setForm({ ...form, capacity: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border rounded-lg"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-sm font-medium text-gray-700 mb-2">Послуги, яким потрібен ресурс</p>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                            {services.map((service) => (
+                                <label key={service.id} className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={form.serviceIds.includes(service.id)}
+                                        onChange={() => toggleService(service.id)}
+                                    />
+                                    {getName(service.name)}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => setForm(null)}
+                            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                        >
+                            Скасувати
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={!form.name.trim() || form.capacity < 1}
+                            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                        >
+                            Зберегти
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Resources Table */}
+            <div className="bg-white rounded-xl shadow-sm mb-6">
+                {loading ? (
+                    <div className="flex items-center justify-center h-32">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+                    </div>
+                ) : (
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Назва</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Місткість</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Послуги</th>
+                                <th className="px-4 py-3 text-left text-sm font-medium text-gray-500">Статус</th>
+                                <th className="px-4 py-3 text-right text-sm font-medium text-gray-500">Дії</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {resources.map((resource) => (
+                                <tr key={resource.id} className="hover:bg-gray-50">
+                                    <td className="px-4 py-3 font-medium text-gray-900">{getName(resource.name)}</td>
+                                    <td className="px-4 py-3 text-gray-600">{resource.capacity}</td>
+                                    <td className="px-4 py-3 text-gray-600">
+                                        {resource.services.map((s) => getName(s.service.name)).join(', ') || '-'}
+                                    </td>
+                                    <td className="px-4 py-3">
+                                        <span className={`px-2 py-1 text-xs rounded ${resource.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                            {resource.isActive ? 'Активний' : 'Неактивний'}
+                                        </span>
+                                    </td>
+                                    <td className="px-4 py-3 text-right">
+                                        <button
+                                            onClick={() => setForm({
+                                                id: resource.id,
+                                                name: getName(resource.name),
+                                                capacity: resource.capacity,
+                                                serviceIds: resource.services.map((s) => s.service.id),
+                                            })}
+                                            className="text-purple-600 hover:text-purple-700 mr-3"
+                                        >
+                                            Редагувати
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(resource.id)}
+                                            className="text-red-600 hover:text-red-700"
+                                        >
+                                            Видалити
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Occupancy */}
+            <div className="bg-white rounded-xl shadow-sm">
+                <div className="p-4 border-b flex justify-between items-center">
+                    <h2 className="text-lg font-semibold">Зайнятість</h2>
+                    <input
+                        type="date"
+                        value={date}
+                        onChange={(e) => setDate(e.target.value)}
+                        className="px-3 py-2 border rounded-lg"
+                    />
+                </div>
+                <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {occupancy.map((resource) => (
+                        <div key={resource.id} className="p-3 bg-gray-50 rounded-lg">
+                            <div className="flex items-center justify-between mb-2">
+                                <span className="font-medium">{getName(resource.name)}</span>
+                                <span className="text-xs text-gray-500">місткість {resource.capacity}</span>
+                            </div>
+                            {resource.bookings.length === 0 ? (
+                                <p className="text-sm text-gray-400">Вільно весь день</p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {resource.bookings.map((booking) => (
+                                        <li key={booking.id} className="text-sm">
+                                            <span className="font-medium">{booking.startTime} - {booking.endTime}</span>
+                                            <span className="text-gray-600">
+                                                {' '}· {getName(booking.masterName)} · {booking.clientName || 'Клієнт'}
+                                            </span>
+                                            <div className="text-xs text-gray-500">
+                                                {booking.services.map((name) => getName(name)).join(', ')}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </AdminLayout>
+    );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { AdminLayout } from '../../shared/components/layout/AdminLayout';
+import { api } from '../../shared/api/client';
+
+interface Setting {
+    key: string;
+    description: string;
+    value: unknown;
+    defaultValue: unknown;
+    isDefault: boolean;
+}
+
+const toDraft = (value: unknown) => {
+    return typeof value === 'object' && value !== null
+        ? JSON.stringify(value, null, 2)
+        : String(value);
+};
+
+export const AdminSettingsPage: React.FC = () => {
+    const [settings, setSettings] = useState<Setting[]>([]);
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [savingKey, setSavingKey] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    const applySettings = (list: Setting[]) => {
+        setSettings(list);
+        setDrafts(Object.fromEntries(list.map((s) => [s.key, toDraft(s.value)])));
+    };
+
+    const fetchSettings = async () => {
+        setLoading(true);
+        try {
+            const data = await api.get<{ settings: Setting[] }>('/admin/settings');
+            applySettings(data.settings);
+        } catch (err) {
+            console.error('Failed to fetch settings:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchSettings();
+    }, []);
+
+    const parseDraft = (setting: Setting, draft: string): unknown => {
+        if (typeof setting.defaultValue === 'number') {
+            const num = Number(draft);
+            if (draft.trim() === '' || Number.isNaN(num)) throw new Error('Value must be a number');
+            return num;
+        }
+        if (typeof setting.defaultValue === 'string') {
+            return draft;
+        }
+        return JSON.parse(draft);
+    };
+
+    const handleSave = async (setting: Setting) => {
+        let value: unknown;
+        try {
+            value = parseDraft(setting, drafts[setting.key] ?? '');
+        } catch (err: any) {
+            setErrors((prev) => ({ ...prev, [setting.key]: err.message || 'Invalid JSON' }));
+            return;
+        }
+
+        setSavingKey(setting.key);
+        setErrors((prev) => ({ ...prev, [setting.key]: '' }));
+        try {
+            const data = await api.put<{ settings: Setting[] }>('/admin/settings', {
+                settings: { [setting.key]: value },
+            });
+            applySettings(data.settings);
+        } catch (err: any) {
+            setErrors((prev) => ({ ...prev, [setting.key]: err.message || 'Failed to save' }));
+        } finally {
+            setSavingKey(null);
+        }
+    };
+
+    return (
+        <AdminLayout>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+                <p className="text-gray-600">Salon configuration</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm">
+                {loading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-gray-200">
+                        {settings.map((setting) => {
+                            const isObject = typeof setting.defaultValue === 'object' && setting.defaultValue !== null;
+                            const isDirty = drafts[setting.key] !== toDraft(setting.value);
+
+                            return (
+                                <div key={setting.key} className="p-4">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div className="flex-1">
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-mono text-sm text-gray-900">{setting.key}</span>
+                                                {setting.isDefault && (
+                                                    <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-500">default</span>
+                                                )}
+                                            </div>
+                                            <p className="text-sm text-gray-500 mt-1">{setting.description}</p>
+
+                                            {isObject ? (
+                                                <textarea
+                                                    value={drafts[setting.key] ?? ''}
+                                                    onChange={(e) => setDrafts((prev) => ({ ...prev, [setting.key]: e.target.value }))}
+                                                    rows={Math.min(12, (drafts[setting.key] ?? '').split('\n').length + 1)}
+                                                    className="mt-2 w-full px-3 py-2 border rounded-lg font-mono text-sm"
+                                                />
+                                            ) : (
+                                                <input
+                                                    type={typeof setting.defaultValue === 'number' ? 'number' : 'text'}
+                                                    value={drafts[setting.key] ?? ''}
+                                                    onChange={(e) => setDrafts((prev) => ({ ...prev, [setting.key]: e.target.value }))}
+                                                    className="mt-2 w-full max-w-sm px-3 py-2 border rounded-lg"
+                                                />
+                                            )}
+
+                                            {errors[setting.key] && (
+                                                <p className="text-sm text-red-600 mt-1">{errors[setting.key]}</p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => handleSave(setting)}
+                                            disabled={!isDirty || savingKey === setting.key}
+                                            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                                        >
+                                            {savingKey === setting.key ? 'Saving...' : 'Save'}
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </AdminLayout>
+    );
+};
@@ -1,11 +1,12 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { api } from '../../shared/api/client';
 import { GlassCard, GlassCardStatic } from '../../shared/components/ui/GlassCard';
 import { GradientButton } from '../../shared/components/ui/GradientButton';
-import type { Service, Master, ServiceDuration, MasterService } from '../../shared/api/types';
+import { useTelegram } from '../../app/providers/TelegramProvider';
+import type { Service, Master, ServiceDuration, MasterService, Combo, Booking, BookingSeriesOccurrence, UserPackageBalance } from '../../shared/api/types';
 
 // Types for booking wizard
 interface SelectedService {
@@ -13,7 +14,7 @@ interface SelectedService {
     duration: ServiceDuration;
 }
 
-type WizardStep = 'service' | 'master' | 'datetime' | 'confirm';
+type WizardStep = 'combo' | 'service' | 'master' | 'datetime' | 'confirm';
 
 // Animation variants
 const stepVariants = {
@@ -42,6 +43,8 @@ const cardVariants = {
 export function BookingPage() {
     const { t, i18n } = useTranslation();
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const { tg } = useTelegram();
     const lang = i18n.language || 'uk';
 
     // Wizard state
@@ -51,23 +54,41 @@ export function BookingPage() {
 
     // Data
     const [services, setServices] = useState<Service[]>([]);
+    const [combos, setCombos] = useState<Combo[]>([]);
     const [availableMasters, setAvailableMasters] = useState<Master[]>([]);
     const [timeSlots, setTimeSlots] = useState<string[]>([]);
     const [loadingSlots, setLoadingSlots] = useState(false);
 
     // Booking data
     const [selectedServices, setSelectedServices] = useState<SelectedService[]>([]);
+    const [selectedCombo, setSelectedCombo] = useState<Combo | null>(null);
     const [selectedMaster, setSelectedMaster] = useState<Master | null>(null);
+    // "Any available master": the server assigns the master when the booking is created
+    const [anyMaster, setAnyMaster] = useState(false);
+    // Couples massage: second master working in parallel, same services and time
+    const [partnerMaster, setPartnerMaster] = useState<Master | null>(null);
     const [selectedDate, setSelectedDate] = useState<string>('');
     const [selectedTime, setSelectedTime] = useState<string>('');
     const [promoCode, setPromoCode] = useState('');
     const [promoApplied, setPromoApplied] = useState(false);
     const [promoDiscount, setPromoDiscount] = useState(0);
     const [promoError, setPromoError] = useState<string | null>(null);
+    // Gift certificate as a payment method; the code may come from the bot deep link (?gift=)
+    const [giftCode, setGiftCode] = useState(() => searchParams.get('gift') ?? '');
+    const [giftBalance, setGiftBalance] = useState<number | null>(null);
+    const [giftError, setGiftError] = useState<string | null>(null);
+    // Prepaid packages: a covered service is paid with one session unless the client opts out
+    const [packages, setPackages] = useState<UserPackageBalance[]>([]);
+    const [usePackage, setUsePackage] = useState(true);
+    // Recurring visits: 0 — single booking, 1 — weekly, 2 — every two weeks
+    const [repeatWeeks, setRepeatWeeks] = useState<0 | 1 | 2>(0);
+    const [repeatCount, setRepeatCount] = useState(4);
 
     // Success state
     const [bookingSuccess, setBookingSuccess] = useState(false);
     const [createdBooking, setCreatedBooking] = useState<any>(null);
+    const [seriesOccurrences, setSeriesOccurrences] = useState<BookingSeriesOccurrence[]>([]);
+    const [groupBookings, setGroupBookings] = useState<Booking[]>([]);
     const [rebookData, setRebookData] = useState<{ masterId: string; serviceDurations: Array<{ serviceId: string; durationId: string }> } | null>(null);
 
     // Computed values
@@ -77,17 +98,57 @@ export function BookingPage() {
     );
 
     const totalPrice = useMemo(() => {
-        return selectedServices.reduce((sum, s) => {
+        // A group pays for every participant; each master has own price modifiers
+        const masters = partnerMaster ? [selectedMaster, partnerMaster] : [selectedMaster];
+        return masters.reduce((total, master) => total + selectedServices.reduce((sum, s) => {
             const basePrice = s.duration.basePrice;
-            const masterService = selectedMaster?.masterServices?.find(
+            const masterService = master?.masterServices?.find(
                 (ms: MasterService) => ms.serviceId === s.service.id
             );
             const modifier = masterService?.priceModifier || 0;
             return sum + basePrice + modifier;
-        }, 0);
-    }, [selectedServices, selectedMaster]);
+        }, 0), 0);
+    }, [selectedServices, selectedMaster, partnerMaster]);
+
+    const comboDiscount = selectedCombo
+        ? Math.round(totalPrice * selectedCombo.discountPercent) / 100
+        : 0;
+
+    // A series needs a specific master and individual services; promo codes apply to single bookings only
+    const isGroup = selectedMaster !== null && partnerMaster !== null && !selectedCombo;
+    const isSeries = repeatWeeks > 0 && selectedMaster !== null && !selectedCombo && !isGroup;
+
+    // Same matching as the server: the soonest-expiring package that covers one of the services
+    const packageCoverage = useMemo(() => {
+        if (selectedCombo || isGroup || isSeries) return null;
+        for (const userPackage of packages) {
+            const covered = selectedServices.find(s =>
+                s.service.id === userPackage.service.id && s.duration.id === userPackage.durationId
+            );
+            if (covered) {
+                const modifier = selectedMaster?.masterServices?.find(
+                    (ms: MasterService) => ms.serviceId === covered.service.id
+                )?.priceModifier || 0;
+                return { userPackage, price: covered.duration.basePrice + modifier };
+            }
+        }
+        return null;
+    }, [packages, selectedServices, selectedMaster, selectedCombo, isGroup, isSeries]);
+
+    const packageDiscount = packageCoverage && usePackage ? packageCoverage.price : 0;
+
+    const finalPrice = totalPrice - comboDiscount - packageDiscount - promoDiscount;
 
-    const finalPrice = totalPrice - promoDiscount;
+    // Certificate covers the price up to its balance, the rest stays on it
+    const giftAmount = giftBalance !== null ? Math.min(giftBalance, finalPrice) : 0;
+
+    // Combo step is shown only when combos exist; a chosen combo replaces the service step
+    const steps = useMemo<WizardStep[]>(() => {
+        const all: WizardStep[] = combos.length > 0
+            ? ['combo', 'service', 'master', 'datetime', 'confirm']
+            : ['service', 'master', 'datetime', 'confirm'];
+        return selectedCombo ? all.filter(s => s !== 'service') : all;
+    }, [combos, selectedCombo]);
 
     // Process rebook data from previous booking
     const processRebookData = async (data: { masterId: string; serviceDurations: Array<{ serviceId: string; durationId: string }> }) => {
@@ -153,16 +214,25 @@ export function BookingPage() {
 
     // Load time slots when master/date/duration changes
     useEffect(() => {
-        if (selectedMaster && selectedDate && totalDuration > 0) {
+        if ((selectedMaster || anyMaster) && selectedDate && totalDuration > 0) {
             loadTimeSlots();
         }
-    }, [selectedMaster, selectedDate, totalDuration]);
+    }, [selectedMaster, partnerMaster, anyMaster, selectedDate, totalDuration]);
 
     const loadServices = async () => {
         try {
             setLoading(true);
-            const data = await api.getServices();
+            const [data, combosData, profileData] = await Promise.all([
+                api.getServices(),
+                api.getCombos().catch(() => ({ combos: [] as Combo[] })),
+                api.getProfile().catch(() => ({ packages: [] as UserPackageBalance[] })),
+            ]);
             setServices(data.services || []);
+            setCombos(combosData.combos || []);
+            setPackages(profileData.packages || []);
+            if (combosData.combos?.length > 0) {
+                setStep(current => current === 'service' ? 'combo' : current);
+            }
         } catch (err) {
             console.error('Failed to load services:', err);
             setError(t('common.error'));
@@ -190,11 +260,14 @@ export function BookingPage() {
     };
 
     const loadTimeSlots = async () => {
-        if (!selectedMaster || !selectedDate) return;
+        if ((!selectedMaster && !anyMaster) || !selectedDate) return;
 
         try {
             setLoadingSlots(true);
-            const data = await api.getSlots(selectedMaster.id, selectedDate, totalDuration);
+            const serviceIds = selectedServices.map(s => s.service.id);
+            const data = selectedMaster && partnerMaster
+                ? await api.getGroupSlots([selectedMaster.id, partnerMaster.id], selectedDate, totalDuration, serviceIds)
+                : await api.getSlots(selectedMaster?.id ?? null, selectedDate, totalDuration, serviceIds);
             setTimeSlots(data.slots || []);
         } catch (err) {
             console.error('Failed to load slots:', err);
@@ -211,6 +284,23 @@ export function BookingPage() {
         return master.displayName[lang] || master.displayName.uk || Object.values(master.displayName)[0];
     };
 
+    const getComboName = (combo: Combo) => {
+        return combo.name[lang] || combo.name.uk || Object.values(combo.name)[0];
+    };
+
+    const handleComboSelect = (combo: Combo | null) => {
+        setSelectedCombo(combo);
+        setSelectedServices(combo
+            ? combo.items.map(item => ({ service: item.service, duration: item.duration }))
+            : []);
+        setSelectedMaster(null);
+        setPartnerMaster(null);
+        setAnyMaster(false);
+        setSelectedTime('');
+        setPromoApplied(false);
+        setPromoDiscount(0);
+    };
+
     const handleServiceToggle = (service: Service, duration: ServiceDuration) => {
         const existing = selectedServices.find(
             s => s.service.id === service.id && s.duration.id === duration.id
@@ -222,11 +312,39 @@ export function BookingPage() {
             setSelectedServices(prev => [...prev, { service, duration }]);
         }
         setSelectedMaster(null);
+        setPartnerMaster(null);
+        setAnyMaster(false);
         setSelectedTime('');
+        // Promo codes may be scoped to services or a master, so they are re-validated
+        setPromoApplied(false);
+        setPromoDiscount(0);
     };
 
     const handleMasterSelect = (master: Master | null) => {
         setSelectedMaster(master);
+        setAnyMaster(false);
+        if (partnerMaster?.id === master?.id) {
+            setPartnerMaster(null);
+        }
+        setSelectedTime('');
+        setPromoApplied(false);
+        setPromoDiscount(0);
+    };
+
+    const handleAnyMasterSelect = () => {
+        setSelectedMaster(null);
+        setPartnerMaster(null);
+        setAnyMaster(true);
+        setSelectedTime('');
+        setPromoApplied(false);
+        setPromoDiscount(0);
+    };
+
+    const handlePartnerSelect = (master: Master) => {
+        setPartnerMaster(prev => prev?.id === master.id ? null : master);
+        setRepeatWeeks(0);
+        setPromoApplied(false);
+        setPromoDiscount(0);
         setSelectedTime('');
     };
 
@@ -244,7 +362,13 @@ export function BookingPage() {
 
         try {
             setPromoError(null);
-            const data = await api.validatePromoCode(promoCode, totalPrice);
+            const data = await api.validatePromoCode(promoCode, totalPrice - comboDiscount - packageDiscount, {
+                masterId: selectedMaster?.id,
+                serviceDurations: selectedServices.map(s => ({
+                    serviceId: s.service.id,
+                    durationId: s.duration.id,
+                })),
+            });
             if (data.promoCode) {
                 setPromoDiscount(data.promoCode.discountAmount);
                 setPromoApplied(true);
@@ -256,8 +380,21 @@ export function BookingPage() {
         }
     };
 
+    const handleGiftApply = async () => {
+        if (!giftCode.trim()) return;
+
+        try {
+            setGiftError(null);
+            const data = await api.checkGiftCertificate(giftCode.trim());
+            setGiftBalance(Number(data.certificate.balance));
+        } catch (err: any) {
+            setGiftError(err.message || t('booking.gift.invalid'));
+            setGiftBalance(null);
+        }
+    };
+
     const handleBooking = async () => {
-        if (!selectedMaster || !selectedDate || !selectedTime || selectedServices.length === 0) {
+        if ((!selectedMaster && !anyMaster) || !selectedDate || !selectedTime || selectedServices.length === 0) {
             return;
         }
 
@@ -266,16 +403,60 @@ export function BookingPage() {
             setError(null);
 
             const bookingData = {
-                masterId: selectedMaster.id,
+                masterId: selectedMaster?.id,
                 bookingDate: selectedDate,
                 startTime: selectedTime,
-                serviceDurations: selectedServices.map(s => ({
-                    serviceId: s.service.id,
-                    durationId: s.duration.id,
-                })),
+                ...(selectedCombo
+                    ? { comboId: selectedCombo.id }
+                    : {
+                        serviceDurations: selectedServices.map(s => ({
+                            serviceId: s.service.id,
+                            durationId: s.duration.id,
+                        })),
+                    }),
                 promoCode: promoApplied ? promoCode : undefined,
+                giftCertificateCode: giftBalance !== null ? giftCode.trim() : undefined,
+                usePackage,
             };
 
+            if (isGroup && selectedMaster && partnerMaster) {
+                const serviceDurations = selectedServices.map(s => ({
+                    serviceId: s.service.id,
+                    durationId: s.duration.id,
+                }));
+                const data = await api.createBookingGroup({
+                    bookingDate: selectedDate,
+                    startTime: selectedTime,
+                    participants: [
+                        { masterId: selectedMaster.id, serviceDurations },
+                        { masterId: partnerMaster.id, serviceDurations },
+                    ],
+                });
+                setGroupBookings(data.bookings);
+                // The deposit is paid once for the whole group
+                setCreatedBooking({ ...data.bookings[0], totalPrice: data.group.totalPrice });
+                setBookingSuccess(true);
+                return;
+            }
+
+            if (isSeries && selectedMaster) {
+                const data = await api.createBookingSeries({
+                    masterId: selectedMaster.id,
+                    startDate: selectedDate,
+                    startTime: selectedTime,
+                    serviceDurations: selectedServices.map(s => ({
+                        serviceId: s.service.id,
+                        durationId: s.duration.id,
+                    })),
+                    intervalWeeks: repeatWeeks as 1 | 2,
+                    occurrences: repeatCount,
+                });
+                setSeriesOccurrences(data.occurrences);
+                setCreatedBooking(data.occurrences.find(o => o.booking)?.booking);
+                setBookingSuccess(true);
+                return;
+            }
+
             const data = await api.createBooking(bookingData);
             setCreatedBooking(data.booking);
             setBookingSuccess(true);
@@ -287,12 +468,34 @@ export function BookingPage() {
         }
     };
 
+    const handlePayDeposit = async () => {
+        if (!createdBooking) return;
+
+        try {
+            setLoading(true);
+            setError(null);
+            const data = await api.createDepositCheckout(createdBooking.id);
+            if (tg?.openLink) {
+                tg.openLink(data.paymentUrl);
+            } else {
+                window.location.href = data.paymentUrl;
+            }
+        } catch (err: any) {
+            console.error('Deposit checkout failed:', err);
+            setError(err.message || t('common.error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const canProceed = () => {
         switch (step) {
+            case 'combo':
+                return true;
             case 'service':
                 return selectedServices.length > 0;
             case 'master':
-                return selectedMaster !== null;
+                return selectedMaster !== null || anyMaster;
             case 'datetime':
                 return selectedDate && selectedTime;
             case 'confirm':
@@ -303,7 +506,6 @@ export function BookingPage() {
     };
 
     const nextStep = () => {
-        const steps: WizardStep[] = ['service', 'master', 'datetime', 'confirm'];
         const currentIndex = steps.indexOf(step);
         if (currentIndex < steps.length - 1) {
             setStep(steps[currentIndex + 1]);
@@ -311,7 +513,6 @@ export function BookingPage() {
     };
 
     const prevStep = () => {
-        const steps: WizardStep[] = ['service', 'master', 'datetime', 'confirm'];
         const currentIndex = steps.indexOf(step);
         if (currentIndex > 0) {
             setStep(steps[currentIndex - 1]);
@@ -370,7 +571,11 @@ export function BookingPage() {
                             </div>
                             <div className="flex justify-between">
                                 <span className="text-white/50">{t('booking.master')}:</span>
-                                <span className="text-white/90">{getMasterName(createdBooking.master)}</span>
+                                <span className="text-white/90">
+                                    {groupBookings.length > 0
+                                        ? groupBookings.map(b => b.master ? getMasterName(b.master as Master) : '').join(' + ')
+                                        : getMasterName(createdBooking.master)}
+                                </span>
                             </div>
                             <div className="flex justify-between font-bold pt-3 border-t border-white/10">
                                 <span className="text-white/90">{t('booking.total')}:</span>
@@ -379,6 +584,40 @@ export function BookingPage() {
                         </div>
                     </GlassCardStatic>
 
+                    {seriesOccurrences.length > 0 && (
+                        <GlassCardStatic variant="elevated" className="p-6 text-left mb-6">
+                            <h3 className="font-semibold mb-4 text-white/90">{t('booking.series.title')}</h3>
+                            <div className="space-y-2 text-sm">
+                                {seriesOccurrences.map((occurrence) => (
+                                    <div key={occurrence.date} className="flex justify-between">
+                                        <span className="text-white/70">{formatDate(occurrence.date)}</span>
+                                        {occurrence.status === 'booked' ? (
+                                            <span className="text-green-400">✓ {t('booking.series.booked')}</span>
+                                        ) : (
+                                            <span className="text-orange-400">{t('booking.series.conflict')}</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </GlassCardStatic>
+                    )}
+
+                    {error && (
+                        <p className="text-red-400 text-sm mb-4">{error}</p>
+                    )}
+
+                    {Number(createdBooking.paidByCertificate ?? 0) < Number(createdBooking.totalPrice) && (
+                        <GradientButton
+                            variant="secondary"
+                            size="lg"
+                            onClick={handlePayDeposit}
+                            loading={loading}
+                            className="w-full mb-3"
+                        >
+                            {t('booking.deposit')}
+                        </GradientButton>
+                    )}
+
                     <GradientButton
                         size="lg"
                         onClick={() => navigate('/')}
@@ -406,9 +645,9 @@ export function BookingPage() {
             {/* Steps Indicator */}
             <div className="mb-8">
                 <div className="flex items-center justify-between">
-                    {(['service', 'master', 'datetime', 'confirm'] as WizardStep[]).map((s, index) => {
+                    {steps.map((s, index) => {
                         const isActive = step === s;
-                        const isCompleted = index < ['service', 'master', 'datetime', 'confirm'].indexOf(step);
+                        const isCompleted = index < steps.indexOf(step);
                         return (
                             <div key={s} className="flex items-center flex-1">
                                 <motion.div
@@ -423,7 +662,7 @@ export function BookingPage() {
                                 >
                                     {isCompleted ? '✓' : index + 1}
                                 </motion.div>
-                                {index < 3 && (
+                                {index < steps.length - 1 && (
                                     <div className={`flex-1 h-0.5 mx-2 transition-colors duration-300 ${isCompleted ? 'bg-violet-500' : 'bg-white/10'
                                         }`} />
                                 )}
@@ -432,10 +671,9 @@ export function BookingPage() {
                     })}
                 </div>
                 <div className="flex justify-between mt-2 text-xs text-white/50">
-                    <span>{t('booking.steps.service')}</span>
-                    <span>{t('booking.steps.master')}</span>
-                    <span>{t('booking.steps.datetime')}</span>
-                    <span>{t('booking.steps.confirm')}</span>
+                    {steps.map((s) => (
+                        <span key={s}>{t(`booking.steps.${s}`)}</span>
+                    ))}
                 </div>
             </div>
 
@@ -455,6 +693,70 @@ export function BookingPage() {
 
             {/* Step Content */}
             <AnimatePresence mode="wait">
+                {/* Step 0: Combos */}
+                {step === 'combo' && (
+                    <motion.div
+                        key="combo"
+                        variants={stepVariants}
+                        initial="initial"
+                        animate="animate"
+                        exit="exit"
+                        className="space-y-4"
+                    >
+                        <h2 className="text-lg font-semibold text-white/90">{t('booking.selectCombo')}</h2>
+
+                        <div className="space-y-4">
+                            {combos.map((combo, index) => (
+                                <motion.div
+                                    key={combo.id}
+                                    custom={index}
+                                    variants={cardVariants}
+                                    initial="hidden"
+                                    animate="visible"
+                                >
+                                    <GlassCardStatic
+                                        variant={selectedCombo?.id === combo.id ? 'gradient' : 'elevated'}
+                                        className={`p-4 cursor-pointer transition-all duration-200 ${selectedCombo?.id === combo.id ? 'ring-2 ring-violet-400' : ''
+                                            }`}
+                                        onClick={() => handleComboSelect(selectedCombo?.id === combo.id ? null : combo)}
+                                    >
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="flex-1">
+                                                <h3 className="font-semibold text-white/90">{getComboName(combo)}</h3>
+                                                <p className="text-sm text-white/50 mt-1">
+                                                    {combo.items.map(item => getServiceName(item.service)).join(' + ')}
+                                                </p>
+                                                <p className="text-xs text-white/40 mt-1">
+                                                    {combo.totalDuration} {t('booking.minutes')}
+                                                </p>
+                                            </div>
+                                            <div className="text-right shrink-0">
+                                                {combo.discountPercent > 0 && (
+                                                    <span className="text-xs text-white/40 line-through block">{combo.basePrice} ₴</span>
+                                                )}
+                                                <span className="text-violet-300 font-bold">{combo.comboPrice} ₴</span>
+                                                {combo.discountPercent > 0 && (
+                                                    <span className="text-xs text-green-400 block">-{combo.discountPercent}%</span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </GlassCardStatic>
+                                </motion.div>
+                            ))}
+                        </div>
+
+                        <button
+                            onClick={() => {
+                                handleComboSelect(null);
+                                setStep('service');
+                            }}
+                            className="w-full py-3 text-sm text-violet-400 font-medium hover:text-violet-300 transition-colors"
+                        >
+                            {t('booking.chooseServicesIndividually')} →
+                        </button>
+                    </motion.div>
+                )}
+
                 {/* Step 1: Services */}
                 {step === 'service' && (
                     <motion.div
@@ -563,6 +865,24 @@ export function BookingPage() {
                             </div>
                         ) : (
                             <div className="space-y-4">
+                                <GlassCardStatic
+                                    variant={anyMaster ? 'gradient' : 'elevated'}
+                                    className={`p-4 cursor-pointer transition-all duration-200 ${anyMaster ? 'ring-2 ring-violet-400' : ''}`}
+                                    onClick={handleAnyMasterSelect}
+                                >
+                                    <div className="flex items-center gap-4">
+                                        <div className="w-16 h-16 rounded-full bg-gradient-to-br from-violet-500/30 to-pink-500/30 flex items-center justify-center text-2xl border-2 border-white/10">
+                                            ✨
+                                        </div>
+                                        <div className="flex-1">
+                                            <h3 className="font-semibold text-white/90">{t('booking.anyMaster')}</h3>
+                                            <p className="text-sm text-white/50 mt-1">{t('booking.anyMasterHint')}</p>
+                                        </div>
+                                        {anyMaster && (
+                                            <span className="text-violet-400 text-2xl">✓</span>
+                                        )}
+                                    </div>
+                                </GlassCardStatic>
                                 {availableMasters.map((master, index) => (
                                     <motion.div
                                         key={master.id}
@@ -602,6 +922,30 @@ export function BookingPage() {
                                         </GlassCardStatic>
                                     </motion.div>
                                 ))}
+
+                                {/* Couples massage: pick a second master for the partner */}
+                                {selectedMaster && !selectedCombo && availableMasters.length > 1 && (
+                                    <GlassCardStatic variant="elevated" className="p-4">
+                                        <h3 className="font-semibold text-white/90">👥 {t('booking.group.title')}</h3>
+                                        <p className="text-sm text-white/50 mt-1 mb-3">{t('booking.group.hint')}</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {availableMasters
+                                                .filter(master => master.id !== selectedMaster.id)
+                                                .map(master => (
+                                                    <button
+                                                        key={master.id}
+                                                        onClick={() => handlePartnerSelect(master)}
+                                                        className={`px-3 py-2 rounded-xl text-sm transition-colors ${partnerMaster?.id === master.id
+                                                            ? 'bg-violet-500 text-white'
+                                                            : 'bg-white/5 text-white/70 hover:bg-white/10'
+                                                            }`}
+                                                    >
+                                                        {getMasterName(master)}
+                                                    </button>
+                                                ))}
+                                        </div>
+                                    </GlassCardStatic>
+                                )}
                             </div>
                         )}
                     </motion.div>
@@ -701,12 +1045,27 @@ export function BookingPage() {
                                 ))}
                             </div>
 
+                            {selectedCombo && (
+                                <div className="flex justify-between py-2 border-t border-white/10">
+                                    <span className="text-white/50">{t('booking.combo')}:</span>
+                                    <span className="text-white/80">{getComboName(selectedCombo)}</span>
+                                </div>
+                            )}
+
                             {/* Master */}
                             <div className="flex justify-between py-2 border-t border-white/10">
                                 <span className="text-white/50">{t('booking.master')}:</span>
-                                <span className="text-white/80">{selectedMaster ? getMasterName(selectedMaster) : '-'}</span>
+                                <span className="text-white/80">
+                                    {selectedMaster
+                                        ? [selectedMaster, partnerMaster].filter((m): m is Master => m !== null).map(getMasterName).join(' + ')
+                                        : anyMaster ? t('booking.anyMaster') : '-'}
+                                </span>
                             </div>
 
+                            {isGroup && (
+                                <p className="text-sm text-violet-300">👥 {t('booking.group.summary')}</p>
+                            )}
+
                             {/* Date & Time */}
                             <div className="flex justify-between py-2">
                                 <span className="text-white/50">{t('booking.date')} & {t('booking.time')}:</span>
@@ -719,37 +1078,111 @@ export function BookingPage() {
                                 <span className="text-white/80">{totalDuration} {t('booking.minutes')}</span>
                             </div>
 
+                            {/* Repeat */}
+                            {selectedMaster && !selectedCombo && !isGroup && (
+                                <div className="pt-4 border-t border-white/10">
+                                    <h3 className="text-sm text-white/50 mb-3">{t('booking.series.repeat')}</h3>
+                                    <div className="flex gap-2">
+                                        {([0, 1, 2] as const).map((weeks) => (
+                                            <button
+                                                key={weeks}
+                                                onClick={() => {
+                                                    setRepeatWeeks(weeks);
+                                                    setPromoApplied(false);
+                                                    setPromoDiscount(0);
+                                                }}
+                                                className={`flex-1 py-2 rounded-xl text-sm transition-colors ${repeatWeeks === weeks
+                                                    ? 'bg-violet-500 text-white'
+                                                    : 'bg-white/5 text-white/70 hover:bg-white/10'
+                                                    }`}
+                                            >
+                                                {t(`booking.series.interval.${weeks}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {repeatWeeks > 0 && (
+                                        <div className="flex items-center justify-between mt-3 text-sm">
+                                            <span className="text-white/50">{t('booking.series.count')}:</span>
+                                            <input
+                                                type="number"
+                                                min={2}
+                                                max={26}
+                                                value={repeatCount}
+                                                onChange={(e) => setRepeatCount(Math.min(26, Math.max(2, Number(e.target.value))))}
+                                                className="w-20 px-3 py-2 rounded-xl glass-input text-white/90 text-right"
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Promo Code */}
-                            <div className="pt-4 border-t border-white/10">
-                                <h3 className="text-sm text-white/50 mb-3">{t('booking.promoCode')}</h3>
-                                <div className="flex gap-2">
-                                    <input
-                                        type="text"
-                                        value={promoCode}
-                                        onChange={(e) => setPromoCode(e.target.value)}
-                                        placeholder={t('booking.enterPromoCode')}
-                                        disabled={promoApplied}
-                                        className="flex-1 px-4 py-3 rounded-xl glass-input text-sm text-white/90 placeholder:text-white/30"
-                                    />
-                                    {!promoApplied ? (
-                                        <GradientButton
-                                            variant="secondary"
-                                            size="sm"
-                                            onClick={handlePromoApply}
-                                            disabled={!promoCode.trim()}
-                                        >
-                                            {t('booking.apply')}
-                                        </GradientButton>
-                                    ) : (
-                                        <span className="px-4 py-3 text-green-400 text-sm flex items-center">
-                                            ✓ {t('booking.promoApplied')}
-                                        </span>
+                            {!isSeries && !isGroup && (
+                                <div className="pt-4 border-t border-white/10">
+                                    <h3 className="text-sm text-white/50 mb-3">{t('booking.promoCode')}</h3>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={promoCode}
+                                            onChange={(e) => setPromoCode(e.target.value)}
+                                            placeholder={t('booking.enterPromoCode')}
+                                            disabled={promoApplied}
+                                            className="flex-1 px-4 py-3 rounded-xl glass-input text-sm text-white/90 placeholder:text-white/30"
+                                        />
+                                        {!promoApplied ? (
+                                            <GradientButton
+                                                variant="secondary"
+                                                size="sm"
+                                                onClick={handlePromoApply}
+                                                disabled={!promoCode.trim()}
+                                            >
+                                                {t('booking.apply')}
+                                            </GradientButton>
+                                        ) : (
+                                            <span className="px-4 py-3 text-green-400 text-sm flex items-center">
+                                                ✓ {t('booking.promoApplied')}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {promoError && (
+                                        <p className="text-red-400 text-sm mt-2">{promoError}</p>
                                     )}
                                 </div>
-                                {promoError && (
-                                    <p className="text-red-400 text-sm mt-2">{promoError}</p>
-                                )}
-                            </div>
+                            )}
+
+                            {/* Gift Certificate */}
+                            {!isSeries && !isGroup && (
+                                <div className="pt-4 border-t border-white/10">
+                                    <h3 className="text-sm text-white/50 mb-3">{t('booking.gift.title')}</h3>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={giftCode}
+                                            onChange={(e) => setGiftCode(e.target.value)}
+                                            placeholder={t('booking.gift.placeholder')}
+                                            disabled={giftBalance !== null}
+                                            className="flex-1 px-4 py-3 rounded-xl glass-input text-sm text-white/90 placeholder:text-white/30 uppercase"
+                                        />
+                                        {giftBalance === null ? (
+                                            <GradientButton
+                                                variant="secondary"
+                                                size="sm"
+                                                onClick={handleGiftApply}
+                                                disabled={!giftCode.trim()}
+                                            >
+                                                {t('booking.apply')}
+                                            </GradientButton>
+                                        ) : (
+                                            <span className="px-4 py-3 text-green-400 text-sm flex items-center">
+                                                ✓ {giftBalance} ₴
+                                            </span>
+                                        )}
+                                    </div>
+                                    {giftError && (
+                                        <p className="text-red-400 text-sm mt-2">{giftError}</p>
+                                    )}
+                                </div>
+                            )}
 
                             {/* Totals */}
                             <div className="pt-4 border-t border-white/10 space-y-2">
@@ -757,6 +1190,29 @@ export function BookingPage() {
                                     <span className="text-white/50">{t('booking.subtotal')}:</span>
                                     <span className="text-white/80">{totalPrice} ₴</span>
                                 </div>
+                                {comboDiscount > 0 && (
+                                    <div className="flex justify-between py-1 text-green-400 text-sm">
+                                        <span>{t('booking.comboDiscount')} ({selectedCombo?.discountPercent}%):</span>
+                                        <span>-{comboDiscount} ₴</span>
+                                    </div>
+                                )}
+                                {packageCoverage && (
+                                    <label className="flex justify-between items-center py-1 text-sm cursor-pointer">
+                                        <span className="flex items-center gap-2 text-white/70">
+                                            <input
+                                                type="checkbox"
+                                                checked={usePackage}
+                                                onChange={(e) => {
+                                                    setUsePackage(e.target.checked);
+                                                    setPromoApplied(false);
+                                                    setPromoDiscount(0);
+                                                }}
+                                            />
+                                            {t('booking.package.use', { remaining: packageCoverage.userPackage.sessionsRemaining })}
+                                        </span>
+                                        {usePackage && <span className="text-green-400">-{packageCoverage.price} ₴</span>}
+                                    </label>
+                                )}
                                 {promoDiscount > 0 && (
                                     <div className="flex justify-between py-1 text-green-400 text-sm">
                                         <span>{t('booking.discount')}:</span>
@@ -767,6 +1223,18 @@ export function BookingPage() {
                                     <span className="text-white/90">{t('booking.total')}:</span>
                                     <span className="text-violet-300">{finalPrice} ₴</span>
                                 </div>
+                                {giftAmount > 0 && !isSeries && !isGroup && (
+                                    <>
+                                        <div className="flex justify-between py-1 text-green-400 text-sm">
+                                            <span>{t('booking.gift.paid')}:</span>
+                                            <span>-{giftAmount} ₴</span>
+                                        </div>
+                                        <div className="flex justify-between py-1 text-sm">
+                                            <span className="text-white/50">{t('booking.gift.toPay')}:</span>
+                                            <span className="text-white/80">{finalPrice - giftAmount} ₴</span>
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </GlassCardStatic>
                     </motion.div>
@@ -776,7 +1244,7 @@ export function BookingPage() {
             {/* Navigation Buttons */}
             <div className="fixed bottom-20 left-0 right-0 px-4 py-4 bg-gradient-to-t from-[#0f172a] via-[#0f172a] to-transparent z-20">
                 <div className="flex gap-3 max-w-lg mx-auto">
-                    {step !== 'service' && (
+                    {step !== steps[0] && (
                         <GradientButton
                             variant="ghost"
                             size="md"
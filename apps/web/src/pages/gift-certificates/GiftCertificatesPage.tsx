@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { api } from '../../shared/api/client';
+import { GlassCard, GlassCardStatic } from '../../shared/components/ui/GlassCard';
+import { SectionHeaderStatic } from '../../shared/components/ui/SectionHeader';
+import { GradientButton } from '../../shared/components/ui/GradientButton';
+import { useTelegram } from '../../app/providers/TelegramProvider';
+import type { GiftCertificate } from '../../shared/api/types';
+
+// Suggested amounts; any value within the salon limits is accepted by the server
+const AMOUNT_PRESETS = [500, 1000, 1500, 2000];
+
+const statusStyles: Record<GiftCertificate['status'], string> = {
+    pending: 'bg-yellow-500/20 text-yellow-300',
+    active: 'bg-green-500/20 text-green-300',
+    used: 'bg-white/10 text-white/50',
+    voided: 'bg-red-500/20 text-red-300',
+};
+
+export function GiftCertificatesPage() {
+    const { t } = useTranslation();
+    const { tg } = useTelegram();
+
+    const [certificates, setCertificates] = useState<GiftCertificate[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Purchase form
+    const [amount, setAmount] = useState<number>(AMOUNT_PRESETS[1]);
+    const [recipientName, setRecipientName] = useState('');
+    const [message, setMessage] = useState('');
+
+    const paymentStatus = new URLSearchParams(window.location.search).get('payment');
+
+    useEffect(() => {
+        const fetchCertificates = async () => {
+            try {
+                const data = await api.getMyGiftCertificates();
+                setCertificates(data.certificates || []);
+            } catch (err) {
+                console.error('Failed to load gift certificates:', err);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchCertificates();
+    }, []);
+
+    const handlePurchase = async () => {
+        try {
+            setSubmitting(true);
+            setError(null);
+            const data = await api.purchaseGiftCertificate({
+                amount,
+                recipientName: recipientName.trim() || undefined,
+                message: message.trim() || undefined,
+            });
+            if (tg?.openLink) {
+                tg.openLink(data.paymentUrl);
+            } else {
+                window.location.href = data.paymentUrl;
+            }
+        } catch (err: any) {
+            console.error('Gift certificate purchase failed:', err);
+            setError(err.message || t('common.error'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Forward the bot link to a friend through the Telegram share sheet
+    const handleShare = (certificate: GiftCertificate) => {
+        if (!certificate.shareLink) return;
+        const shareUrl = `https://t.me/share/url?url=${encodeURIComponent(certificate.shareLink)}&text=${encodeURIComponent(t('gift.shareText'))}`;
+        if (tg?.openTelegramLink) {
+            tg.openTelegramLink(shareUrl);
+        } else {
+            window.open(shareUrl, '_blank');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-aurora px-4 py-6 pb-24 animate-fade-in">
+            <motion.div
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mb-6 relative z-10"
+            >
+                <SectionHeaderStatic
+                    title={t('gift.title')}
+                    subtitle={t('gift.subtitle')}
+                    size="lg"
+                />
+            </motion.div>
+
+            {paymentStatus && (
+                <GlassCardStatic variant="elevated" className="p-4 mb-6 relative z-10">
+                    <p className={paymentStatus === 'success' ? 'text-green-400 text-sm' : 'text-red-400 text-sm'}>
+                        {paymentStatus === 'success' ? t('gift.paymentSuccess') : t('gift.paymentFailed')}
+                    </p>
+                </GlassCardStatic>
+            )}
+
+            {/* Purchase Form */}
+            <GlassCard variant="gradient" className="p-6 mb-8 relative z-10">
+                <h3 className="text-sm text-white/50 mb-3">{t('gift.amount')}</h3>
+                <div className="grid grid-cols-4 gap-2 mb-3">
+                    {AMOUNT_PRESETS.map((preset) => (
+                        <button
+                            key={preset}
+                            onClick={() => setAmount(preset)}
+                            className={`py-3 rounded-xl text-sm font-medium transition-all ${amount === preset
+                                ? 'bg-gradient-to-r from-violet-500 to-pink-500 text-white shadow-glow'
+                                : 'glass-button text-white/70'
+                                }`}
+                        >
+                            {preset} ₴
+                        </button>
+                    ))}
+                </div>
+                <input
+                    type="number"
+                    min={1}
+                    value={amount}
+                    onChange={(e) => setAmount(Number(e.target.value))}
+                    className="w-full px-4 py-3 mb-4 rounded-xl glass-input text-white/90"
+                />
+
+                <h3 className="text-sm text-white/50 mb-3">{t('gift.recipient')}</h3>
+                <input
+                    type="text"
+                    value={recipientName}
+                    onChange={(e) => setRecipientName(e.target.value)}
+                    placeholder={t('gift.recipientPlaceholder')}
+                    maxLength={100}
+                    className="w-full px-4 py-3 mb-4 rounded-xl glass-input text-sm text-white/90 placeholder:text-white/30"
+                />
+
+                <h3 className="text-sm text-white/50 mb-3">{t('gift.message')}</h3>
+                <textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder={t('gift.messagePlaceholder')}
+                    maxLength={500}
+                    rows={3}
+                    className="w-full px-4 py-3 mb-4 rounded-xl glass-input text-sm text-white/90 placeholder:text-white/30 resize-none"
+                />
+
+                {error && (
+                    <p className="text-red-400 text-sm mb-4">{error}</p>
+                )}
+
+                <GradientButton
+                    size="lg"
+                    onClick={handlePurchase}
+                    loading={submitting}
+                    disabled={!amount || amount <= 0}
+                    className="w-full"
+                >
+                    {t('gift.buy', { amount })}
+                </GradientButton>
+            </GlassCard>
+
+            {/* My Certificates */}
+            <div className="relative z-10">
+                <SectionHeaderStatic
+                    title={t('gift.myCertificates')}
+                    size="sm"
+                    className="mb-4"
+                />
+                {loading ? (
+                    <div className="flex justify-center py-8">
+                        <div className="w-8 h-8 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : certificates.length === 0 ? (
+                    <GlassCardStatic variant="elevated" className="p-8 text-center">
+                        <div className="text-4xl mb-3">🎁</div>
+                        <p className="text-white/50">{t('gift.empty')}</p>
+                    </GlassCardStatic>
+                ) : (
+                    <div className="space-y-3">
+                        {certificates.map((certificate) => (
+                            <GlassCardStatic key={certificate.id} variant="elevated" className="p-4">
+                                <div className="flex justify-between items-start mb-2">
+                                    <div>
+                                        <p className="font-mono font-semibold text-white/90">{certificate.code}</p>
+                                        {certificate.recipientName && (
+                                            <p className="text-xs text-white/50">{t('gift.for', { name: certificate.recipientName })}</p>
+                                        )}
+                                    </div>
+                                    <span className={`text-xs px-2 py-1 rounded-full ${statusStyles[certificate.status]}`}>
+                                        {t(`gift.status.${certificate.status}`)}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between text-sm text-white/60 mb-3">
+                                    <span>{t('gift.balance')}: <span className="text-white/90 font-medium">{Number(certificate.balance)} / {Number(certificate.amount)} ₴</span></span>
+                                    <span>{t('gift.validUntil', { date: new Date(certificate.expiresAt).toLocaleDateString('uk-UA') })}</span>
+                                </div>
+                                {certificate.shareLink && (
+                                    <GradientButton
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => handleShare(certificate)}
+                                        className="w-full"
+                                    >
+                                        📤 {t('gift.share')}
+                                    </GradientButton>
+                                )}
+                            </GlassCardStatic>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,17 @@
 import { useState, useEffect } from 'react';
 import { api } from '../../shared/api/client';
 
+interface WorkInterval {
+    startTime: string;
+    endTime: string;
+}
+
 interface ScheduleDay {
     date: string;
     isDayOff: boolean;
     startTime: string | null;
     endTime: string | null;
+    intervals: WorkInterval[];
     bookings: {
         id: string;
         startTime: string;
@@ -26,15 +32,36 @@ export function MasterSchedulePage() {
     const [viewMode, setViewMode] = useState<'day' | 'week'>('week');
     const [editingSchedule, setEditingSchedule] = useState<{
         date: string;
-        startTime: string;
-        endTime: string;
+        intervals: WorkInterval[];
         isDayOff: boolean;
     } | null>(null);
+    // Evening Telegram digest of tomorrow's bookings; null = disabled
+    const [digestTime, setDigestTime] = useState<string | null>(null);
+    const [digestSaved, setDigestSaved] = useState(false);
 
     useEffect(() => {
         loadSchedule();
     }, [selectedDate, viewMode]);
 
+    useEffect(() => {
+        api.get<{ dailyDigestTime: string | null }>('/master/digest-settings')
+            .then((data) => setDigestTime(data.dailyDigestTime))
+            .catch(console.error);
+    }, []);
+
+    const saveDigestTime = async (value: string | null) => {
+        try {
+            const data = await api.put<{ dailyDigestTime: string | null }>('/master/digest-settings', {
+                dailyDigestTime: value,
+            });
+            setDigestTime(data.dailyDigestTime);
+            setDigestSaved(true);
+            setTimeout(() => setDigestSaved(false), 2000);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update digest settings');
+        }
+    };
+
     const loadSchedule = async () => {
         try {
             setLoading(true);
@@ -59,8 +86,7 @@ export function MasterSchedulePage() {
         try {
             await api.put('/master/schedule', {
                 workDate: editingSchedule.date,
-                startTime: editingSchedule.startTime,
-                endTime: editingSchedule.endTime,
+                intervals: editingSchedule.intervals,
                 isDayOff: editingSchedule.isDayOff,
             });
             setEditingSchedule(null);
@@ -70,6 +96,33 @@ export function MasterSchedulePage() {
         }
     };
 
+    const updateInterval = (index: number, field: keyof WorkInterval, value: string) => {
+        if (!editingSchedule) return;
+        setEditingSchedule({
+            ...editingSchedule,
+            intervals: editingSchedule.intervals.map((interval, i) =>
+                i === index ? { ...interval, [field]: value } : interval
+            ),
+        });
+    };
+
+    const addInterval = () => {
+        if (!editingSchedule) return;
+        const last = editingSchedule.intervals[editingSchedule.intervals.length - 1];
+        setEditingSchedule({
+            ...editingSchedule,
+            intervals: [...editingSchedule.intervals, { startTime: last?.endTime || '09:00', endTime: '20:00' }],
+        });
+    };
+
+    const removeInterval = (index: number) => {
+        if (!editingSchedule) return;
+        setEditingSchedule({
+            ...editingSchedule,
+            intervals: editingSchedule.intervals.filter((_, i) => i !== index),
+        });
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'confirmed':
@@ -213,8 +266,10 @@ export function MasterSchedulePage() {
                                     <div className="font-semibold text-gray-900">{formatDate(day.date)}</div>
                                     {day.isDayOff ? (
                                         <span className="text-xs text-gray-500">Вихідний</span>
-                                    ) : day.startTime ? (
-                                        <span className="text-xs text-gray-500">{day.startTime} - {day.endTime}</span>
+                                    ) : day.intervals.length > 0 ? (
+                                        <span className="text-xs text-gray-500">
+                                            {day.intervals.map((i) => `${i.startTime} - ${i.endTime}`).join(', ')}
+                                        </span>
                                     ) : (
                                         <span className="text-xs text-gray-500">Не встановлено</span>
                                     )}
@@ -222,8 +277,9 @@ export function MasterSchedulePage() {
                                 <button
                                     onClick={() => setEditingSchedule({
                                         date: day.date,
-                                        startTime: day.startTime || '09:00',
-                                        endTime: day.endTime || '18:00',
+                                        intervals: day.intervals.length > 0
+                                            ? day.intervals
+                                            : [{ startTime: '09:00', endTime: '18:00' }],
                                         isDayOff: day.isDayOff,
                                     })}
                                     className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors"
@@ -267,6 +323,36 @@ export function MasterSchedulePage() {
                 ))}
             </div>
 
+            {/* Daily Digest */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <div className="font-semibold text-gray-900">Розклад на завтра в Telegram</div>
+                        <div className="text-sm text-gray-500">
+                            Щовечора бот надсилає список завтрашніх записів з вільними проміжками (у вихідні — ні)
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 shrink-0">
+                        <input
+                            type="checkbox"
+                            checked={digestTime !== null}
+                            onChange={(e) => saveDigestTime(e.target.checked ? '20:00' : null)}
+                            className="w-5 h-5 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                        />
+                        {digestTime !== null && (
+                            <input
+                                type="time"
+                                value={digestTime}
+                                onChange={(e) => e.target.value && setDigestTime(e.target.value)}
+                                onBlur={() => digestTime && saveDigestTime(digestTime)}
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                            />
+                        )}
+                    </label>
+                </div>
+                {digestSaved && <div className="text-sm text-green-600 mt-2">Збережено</div>}
+            </div>
+
             {/* Edit Modal */}
             {editingSchedule && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -294,34 +380,40 @@ export function MasterSchedulePage() {
 
                             {!editingSchedule.isDayOff && (
                                 <>
-                                    <div>
-                                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                                            Початок роботи
-                                        </label>
-                                        <input
-                                            type="time"
-                                            value={editingSchedule.startTime}
-                                            onChange={(e) => setEditingSchedule({
-                                                ...editingSchedule,
-                                                startTime: e.target.value,
-                                            })}
-                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                                            Кінець роботи
-                                        </label>
-                                        <input
-                                            type="time"
-                                            value={editingSchedule.endTime}
-                                            onChange={(e) => setEditingSchedule({
-                                                ...editingSchedule,
-                                                endTime: e.target.value,
-                                            })}
-                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                                        />
+                                    <div className="flex gap-2 text-sm font-medium text-gray-700">
+                                        <span className="flex-1">Початок роботи</span>
+                                        <span className="flex-1">Кінець роботи</span>
+                                        <span className="w-8" />
                                     </div>
+                                    {editingSchedule.intervals.map((interval, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <input
+                                                type="time"
+                                                value={interval.startTime}
+                                                onChange={(e) => updateInterval(index, 'startTime', e.target.value)}
+                                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                            />
+                                            <input
+                                                type="time"
+                                                value={interval.endTime}
+                                                onChange={(e) => updateInterval(index, 'endTime', e.target.value)}
+                                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                            />
+                                            <button
+                                                onClick={() => removeInterval(index)}
+                                                disabled={editingSchedule.intervals.length === 1}
+                                                className="w-8 h-8 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                            >
+                                                ✕
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={addInterval}
+                                        className="text-sm text-purple-600 hover:text-purple-700"
+                                    >
+                                        + Додати інтервал (після перерви)
+                                    </button>
                                 </>
                             )}
                         </div>
@@ -7,7 +7,8 @@ import { GlassCard, GlassCardStatic } from '../../shared/components/ui/GlassCard
 import { SectionHeader, SectionHeaderStatic } from '../../shared/components/ui/SectionHeader';
 import { GradientButton } from '../../shared/components/ui/GradientButton';
 import { AdminAccessCard } from '../../shared/components/ui/AdminAccessButton';
-import type { User, Booking, LoyaltyData } from '../../shared/api/types';
+import { useTelegram } from '../../app/providers/TelegramProvider';
+import type { User, Booking, LoyaltyData, CancellationPreview, UserPackageBalance, ReferralStats } from '../../shared/api/types';
 
 // Animation variants
 const containerVariants = {
@@ -35,15 +36,28 @@ const itemVariants = {
 export function ProfilePage() {
     const { t, i18n } = useTranslation();
     const navigate = useNavigate();
+    const { tg } = useTelegram();
 
     const [user, setUser] = useState<User | null>(null);
     const [loyalty, setLoyalty] = useState<LoyaltyData | null>(null);
+    const [packages, setPackages] = useState<UserPackageBalance[]>([]);
+    const [referral, setReferral] = useState<ReferralStats | null>(null);
     const [bookings, setBookings] = useState<Booking[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [showEditModal, setShowEditModal] = useState(false);
     const [editForm, setEditForm] = useState({ firstName: '', lastName: '', phone: '' });
     const [saving, setSaving] = useState(false);
+    const [cancelTarget, setCancelTarget] = useState<Booking | null>(null);
+    const [cancelPreview, setCancelPreview] = useState<CancellationPreview | null>(null);
+    const [cancelling, setCancelling] = useState(false);
+    const [cancelSeries, setCancelSeries] = useState(false);
+    const [rescheduleTarget, setRescheduleTarget] = useState<Booking | null>(null);
+    const [rescheduleDate, setRescheduleDate] = useState('');
+    const [rescheduleSlots, setRescheduleSlots] = useState<string[]>([]);
+    const [rescheduleTime, setRescheduleTime] = useState('');
+    const [rescheduleError, setRescheduleError] = useState<string | null>(null);
+    const [rescheduling, setRescheduling] = useState(false);
 
     const changeLanguage = (lang: string) => {
         i18n.changeLanguage(lang);
@@ -74,6 +88,8 @@ export function ProfilePage() {
             console.log('[ProfilePage] User role:', profileData.user?.role);
 
             setUser(profileData.user);
+            setPackages(profileData.packages || []);
+            setReferral(profileData.referral || null);
             setLoyalty(loyaltyData);
             setBookings(bookingsData.bookings);
 
@@ -92,6 +108,17 @@ export function ProfilePage() {
         }
     };
 
+    // Send the personal referral link to a friend through the Telegram share sheet
+    const handleShareReferral = () => {
+        if (!referral) return;
+        const shareUrl = `https://t.me/share/url?url=${encodeURIComponent(referral.link)}&text=${encodeURIComponent(t('profile.referral.shareText'))}`;
+        if (tg?.openTelegramLink) {
+            tg.openTelegramLink(shareUrl);
+        } else {
+            window.open(shareUrl, '_blank');
+        }
+    };
+
     const handleSaveProfile = async () => {
         try {
             setSaving(true);
@@ -118,6 +145,86 @@ export function ProfilePage() {
         navigate('/booking');
     };
 
+    const handleCancelClick = async (booking: Booking) => {
+        setCancelTarget(booking);
+        setCancelPreview(null);
+        setCancelSeries(false);
+        try {
+            const preview = await api.getCancellationPreview(booking.id);
+            setCancelPreview(preview);
+        } catch (err) {
+            console.error('Failed to load cancellation preview:', err);
+            setCancelTarget(null);
+        }
+    };
+
+    const handleConfirmCancel = async () => {
+        if (!cancelTarget) return;
+        try {
+            setCancelling(true);
+            const result = await api.updateBookingStatus(
+                cancelTarget.id,
+                'cancelled_by_client',
+                cancelSeries ? 'future' : 'single'
+            );
+            const cancelledIds = [
+                cancelTarget.id,
+                ...(result.cancelledSeriesBookingIds || []),
+                ...(result.cancelledGroupBookingIds || []),
+            ];
+            setBookings(prev => prev.map(b => cancelledIds.includes(b.id) ? { ...b, status: result.booking.status } : b));
+            setCancelTarget(null);
+        } catch (err) {
+            console.error('Failed to cancel booking:', err);
+        } finally {
+            setCancelling(false);
+        }
+    };
+
+    const handleRescheduleClick = (booking: Booking) => {
+        setRescheduleTarget(booking);
+        setRescheduleDate('');
+        setRescheduleSlots([]);
+        setRescheduleTime('');
+        setRescheduleError(null);
+    };
+
+    const handleRescheduleDateChange = async (date: string) => {
+        if (!rescheduleTarget?.masterId) return;
+        setRescheduleDate(date);
+        setRescheduleTime('');
+        setRescheduleSlots([]);
+        if (!date) return;
+        try {
+            const data = await api.getSlots(
+                rescheduleTarget.masterId,
+                date,
+                getTotalDuration(rescheduleTarget),
+                rescheduleTarget.items.map(item => item.serviceId)
+            );
+            setRescheduleSlots(data.slots || []);
+        } catch (err) {
+            console.error('Failed to load slots:', err);
+        }
+    };
+
+    const handleConfirmReschedule = async () => {
+        if (!rescheduleTarget || !rescheduleDate || !rescheduleTime) return;
+        try {
+            setRescheduling(true);
+            setRescheduleError(null);
+            const result = await api.rescheduleBooking(rescheduleTarget.id, rescheduleDate, rescheduleTime);
+            setBookings(prev => prev.map(b => b.id === rescheduleTarget.id
+                ? { ...b, bookingDate: result.booking.bookingDate, startTime: result.booking.startTime, endTime: result.booking.endTime }
+                : b));
+            setRescheduleTarget(null);
+        } catch (err: any) {
+            setRescheduleError(err.message || t('common.error'));
+        } finally {
+            setRescheduling(false);
+        }
+    };
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'completed':
@@ -166,6 +273,10 @@ export function ProfilePage() {
         return booking.items.reduce((sum, item) => sum + item.duration.durationMinutes, 0);
     };
 
+    const canCancel = (status: string) => {
+        return ['pending_confirmation', 'confirmed', 'deposit_pending', 'deposit_paid'].includes(status);
+    };
+
     const canRebook = (status: string) => {
         return ['completed', 'cancelled_by_client', 'cancelled_by_admin', 'no_show'].includes(status);
     };
@@ -279,6 +390,25 @@ export function ProfilePage() {
                 </motion.div>
             </motion.div>
 
+            {/* Gift Certificates */}
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.25 }}
+                className="mb-8 relative z-10"
+            >
+                <GlassCard variant="gradient" className="p-4" onClick={() => navigate('/gift-certificates')}>
+                    <div className="flex items-center gap-4">
+                        <span className="text-3xl">🎁</span>
+                        <div className="flex-1">
+                            <p className="font-medium text-white/90">{t('gift.title')}</p>
+                            <p className="text-sm text-white/50">{t('gift.profileHint')}</p>
+                        </div>
+                        <span className="text-white/40">›</span>
+                    </div>
+                </GlassCard>
+            </motion.div>
+
             {/* Language Switcher */}
             <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -362,6 +492,80 @@ export function ProfilePage() {
                 </motion.div>
             )}
 
+            {/* Prepaid Packages */}
+            {packages.length > 0 && (
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.45 }}
+                    className="mb-8 relative z-10"
+                >
+                    <SectionHeaderStatic
+                        title={t('profile.packages.title')}
+                        size="sm"
+                        className="mb-4"
+                    />
+                    <div className="space-y-3">
+                        {packages.map((userPackage) => (
+                            <GlassCardStatic key={userPackage.id} variant="elevated" className="p-4">
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="font-medium text-white/90">
+                                        {userPackage.name[i18n.language] || userPackage.name.uk || Object.values(userPackage.name)[0]}
+                                    </span>
+                                    <span className="font-bold gradient-text">
+                                        {userPackage.sessionsRemaining}/{userPackage.sessionsTotal}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-white/50">
+                                    {t('profile.packages.validUntil', { date: new Date(userPackage.expiresAt).toLocaleDateString('uk-UA') })}
+                                </p>
+                            </GlassCardStatic>
+                        ))}
+                    </div>
+                </motion.div>
+            )}
+
+            {/* Referral Program */}
+            {referral && (
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.5 }}
+                    className="mb-8 relative z-10"
+                >
+                    <SectionHeaderStatic
+                        title={t('profile.referral.title')}
+                        size="sm"
+                        className="mb-4"
+                    />
+                    <GlassCardStatic variant="elevated" className="p-4">
+                        <p className="text-sm text-white/60 mb-3">{t('profile.referral.description')}</p>
+                        <div className="flex justify-between text-sm text-white/60 mb-3">
+                            <span>{t('profile.referral.invited')}: <span className="text-white/90 font-medium">{referral.invitedCount}</span></span>
+                            <span>{t('profile.referral.rewarded')}: <span className="text-white/90 font-medium">{referral.rewardedCount}</span></span>
+                        </div>
+                        {referral.rewardCodes.map((rewardCode) => (
+                            <div key={rewardCode.code} className="flex justify-between items-center text-sm mb-2">
+                                <span className="font-mono text-white/90">{rewardCode.code}</span>
+                                <span className="text-white/50">
+                                    {rewardCode.discountType === 'percent' ? `-${Number(rewardCode.discountValue)}%` : `-${Number(rewardCode.discountValue)} ₴`}
+                                    {' · '}
+                                    {t('profile.referral.validUntil', { date: new Date(rewardCode.validUntil).toLocaleDateString('uk-UA') })}
+                                </span>
+                            </div>
+                        ))}
+                        <GradientButton
+                            variant="secondary"
+                            size="sm"
+                            onClick={handleShareReferral}
+                            className="w-full"
+                        >
+                            📤 {t('profile.referral.share')}
+                        </GradientButton>
+                    </GlassCardStatic>
+                </motion.div>
+            )}
+
             {/* Visit History */}
             <div className="relative z-10">
                 <SectionHeaderStatic
@@ -390,7 +594,7 @@ export function ProfilePage() {
                                 <GlassCardStatic variant="elevated" className="p-5">
                                     <div className="flex justify-between items-start mb-3">
                                         <div className="flex-1 pr-4">
-                                            <h4 className="font-semibold text-white/90 mb-1">{getServiceNames(booking)}</h4>
+                                            <h4 className="font-semibold text-white/90 mb-1">{booking.seriesId && <span title={t('profile.history.series')}>🔁 </span>}{booking.groupId && <span title={t('profile.history.group')}>👥 </span>}{getServiceNames(booking)}</h4>
                                             <p className="text-sm text-white/50">
                                                 {booking.master?.displayName?.[i18n.language] || booking.master?.displayName?.uk || 'Master'} • {getTotalDuration(booking)} {t('booking.minutes')}
                                             </p>
@@ -410,6 +614,22 @@ export function ProfilePage() {
                                             {t('profile.history.rebook')} →
                                         </button>
                                     )}
+                                    {canCancel(booking.status) && booking.masterId && !booking.groupId && (
+                                        <button
+                                            onClick={() => handleRescheduleClick(booking)}
+                                            className="text-sm text-violet-400 font-medium hover:text-violet-300 transition-colors mr-4"
+                                        >
+                                            {t('profile.rescheduleBooking.action')}
+                                        </button>
+                                    )}
+                                    {canCancel(booking.status) && (
+                                        <button
+                                            onClick={() => handleCancelClick(booking)}
+                                            className="text-sm text-red-400 font-medium hover:text-red-300 transition-colors"
+                                        >
+                                            {t('profile.cancelBooking.action')}
+                                        </button>
+                                    )}
                                 </GlassCardStatic>
                             </motion.div>
                         ))}
@@ -493,6 +713,155 @@ export function ProfilePage() {
                     </motion.div>
                 )}
             </AnimatePresence>
+
+            {/* Cancel Booking Modal */}
+            <AnimatePresence>
+                {cancelTarget && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+                    >
+                        <motion.div
+                            initial={{ scale: 0.9, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            exit={{ scale: 0.9, opacity: 0 }}
+                            className="w-full max-w-sm"
+                        >
+                            <GlassCard variant="gradient" className="p-6">
+                                <h3 className="text-xl font-bold mb-4 gradient-text">{t('profile.cancelBooking.title')}</h3>
+
+                                {!cancelPreview ? (
+                                    <p className="text-white/60 mb-6">{t('common.loading')}</p>
+                                ) : (
+                                    <div className="space-y-2 mb-6 text-sm">
+                                        <p className="text-white/70">
+                                            {t('profile.cancelBooking.paid')}: <span className="text-white font-semibold">{cancelPreview.paidAmount} ₴</span>
+                                        </p>
+                                        <p className="text-white/70">
+                                            {t('profile.cancelBooking.refund')}: <span className="text-white font-semibold">{cancelPreview.refundAmount} ₴</span> ({cancelPreview.refundPercent}%)
+                                        </p>
+                                        {cancelPreview.paidAmount > 0 && cancelPreview.refundAmount < cancelPreview.paidAmount && (
+                                            <p className="text-orange-400">{t('profile.cancelBooking.partialWarning')}</p>
+                                        )}
+                                    </div>
+                                )}
+
+                                {cancelTarget.groupId && (
+                                    <p className="text-sm text-white/70 mb-6">👥 {t('profile.cancelBooking.wholeGroup')}</p>
+                                )}
+
+                                {cancelTarget.seriesId && (
+                                    <label className="flex items-center gap-2 text-sm text-white/70 mb-6">
+                                        <input
+                                            type="checkbox"
+                                            checked={cancelSeries}
+                                            onChange={(e) => setCancelSeries(e.target.checked)}
+                                        />
+                                        {t('profile.cancelBooking.allFuture')}
+                                    </label>
+                                )}
+
+                                <div className="flex gap-3">
+                                    <GradientButton
+                                        variant="ghost"
+                                        className="flex-1"
+                                        onClick={() => setCancelTarget(null)}
+                                    >
+                                        {t('common.back')}
+                                    </GradientButton>
+                                    <GradientButton
+                                        className="flex-1"
+                                        onClick={handleConfirmCancel}
+                                        loading={cancelling}
+                                        disabled={!cancelPreview}
+                                    >
+                                        {t('profile.cancelBooking.confirm')}
+                                    </GradientButton>
+                                </div>
+                            </GlassCard>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Reschedule Booking Modal */}
+            <AnimatePresence>
+                {rescheduleTarget && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+                    >
+                        <motion.div
+                            initial={{ scale: 0.9, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            exit={{ scale: 0.9, opacity: 0 }}
+                            className="w-full max-w-sm"
+                        >
+                            <GlassCard variant="gradient" className="p-6">
+                                <h3 className="text-xl font-bold mb-2 gradient-text">{t('profile.rescheduleBooking.title')}</h3>
+                                <p className="text-sm text-white/50 mb-4">{t('profile.rescheduleBooking.keepsPayments')}</p>
+
+                                <div className="space-y-4 mb-6">
+                                    <div>
+                                        <label className="block text-sm text-white/50 mb-2">
+                                            {t('profile.rescheduleBooking.date')}
+                                        </label>
+                                        <input
+                                            type="date"
+                                            value={rescheduleDate}
+                                            onChange={(e) => handleRescheduleDateChange(e.target.value)}
+                                            className="w-full p-3 glass-input text-white/90"
+                                        />
+                                    </div>
+                                    {rescheduleDate && (
+                                        rescheduleSlots.length === 0 ? (
+                                            <p className="text-sm text-white/50">{t('profile.rescheduleBooking.noSlots')}</p>
+                                        ) : (
+                                            <div className="grid grid-cols-4 gap-2">
+                                                {rescheduleSlots.map((slot) => (
+                                                    <button
+                                                        key={slot}
+                                                        onClick={() => setRescheduleTime(slot)}
+                                                        className={`py-2 rounded-lg text-sm transition-colors ${rescheduleTime === slot
+                                                            ? 'bg-violet-500 text-white'
+                                                            : 'bg-white/5 text-white/70 hover:bg-white/10'
+                                                            }`}
+                                                    >
+                                                        {slot}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )
+                                    )}
+                                    {rescheduleError && <p className="text-sm text-red-400">{rescheduleError}</p>}
+                                </div>
+
+                                <div className="flex gap-3">
+                                    <GradientButton
+                                        variant="ghost"
+                                        className="flex-1"
+                                        onClick={() => setRescheduleTarget(null)}
+                                    >
+                                        {t('common.back')}
+                                    </GradientButton>
+                                    <GradientButton
+                                        className="flex-1"
+                                        onClick={handleConfirmReschedule}
+                                        loading={rescheduling}
+                                        disabled={!rescheduleTime}
+                                    >
+                                        {t('profile.rescheduleBooking.confirm')}
+                                    </GradientButton>
+                                </div>
+                            </GlassCard>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
         </div>
     );
 }
@@ -1,16 +1,27 @@
 import type {
     Service,
+    Combo,
     ServiceCategory,
     Master,
     Booking,
     CreateBookingRequest,
+    CreateBookingSeriesRequest,
+    BookingSeriesOccurrence,
+    CreateBookingGroupRequest,
+    BookingGroup,
     PromoCodeResult,
+    GiftCertificate,
+    UserPackageBalance,
+    ReferralStats,
+    PurchaseGiftCertificateRequest,
     Review,
     CreateReviewRequest,
     User,
     LoyaltyStamp,
     UpdateProfileRequest,
     LoyaltyData,
+    CancellationPreview,
+    RefundSummary,
 } from './types';
 
 // Master Dashboard Types
@@ -31,6 +42,7 @@ interface ScheduleDay {
     isDayOff: boolean;
     startTime: string | null;
     endTime: string | null;
+    intervals: { startTime: string; endTime: string }[];
     bookings: {
         id: string;
         startTime: string;
@@ -119,6 +131,10 @@ class ApiClient {
         return this.get<{ services: Service[] }>('/services');
     }
 
+    async getCombos() {
+        return this.get<{ combos: Combo[] }>('/combos');
+    }
+
     async getServiceCategories() {
         return this.get<{ categories: ServiceCategory[] }>('/services/categories');
     }
@@ -143,9 +159,20 @@ class ApiClient {
     }
 
     // ============ Bookings ============
-    async getSlots(masterId: string, date: string, durationMinutes: number) {
+    // masterId = null — merged slots of every master providing serviceIds
+    async getSlots(masterId: string | null, date: string, durationMinutes: number, serviceIds: string[] = []) {
+        const masterParam = masterId ? `masterId=${masterId}&` : '';
+        const serviceParam = serviceIds.length > 0 ? `&serviceIds=${serviceIds.join(',')}` : '';
+        return this.get<{ slots: string[] }>(
+            `/bookings/slots?${masterParam}date=${date}&durationMinutes=${durationMinutes}${serviceParam}`
+        );
+    }
+
+    // Slots free for every master of a group booking at the same time
+    async getGroupSlots(masterIds: string[], date: string, durationMinutes: number, serviceIds: string[] = []) {
+        const serviceParam = serviceIds.length > 0 ? `&serviceIds=${serviceIds.join(',')}` : '';
         return this.get<{ slots: string[] }>(
-            `/bookings/slots?masterId=${masterId}&date=${date}&durationMinutes=${durationMinutes}`
+            `/bookings/group-slots?masterIds=${masterIds.join(',')}&date=${date}&durationMinutes=${durationMinutes}${serviceParam}`
         );
     }
 
@@ -153,10 +180,24 @@ class ApiClient {
         return this.post<{ booking: Booking }>('/bookings', data);
     }
 
-    async validatePromoCode(code: string, totalAmount: number) {
+    async createBookingSeries(data: CreateBookingSeriesRequest) {
+        return this.post<{ series: { id: string }; occurrences: BookingSeriesOccurrence[] }>('/bookings/series', data);
+    }
+
+    async createBookingGroup(data: CreateBookingGroupRequest) {
+        return this.post<{ group: BookingGroup; bookings: Booking[] }>('/bookings/group', data);
+    }
+
+    // Master and services let the server check master- and service-scoped codes
+    async validatePromoCode(
+        code: string,
+        totalAmount: number,
+        details: { masterId?: string; serviceDurations?: Array<{ serviceId: string; durationId: string }> } = {}
+    ) {
         return this.post<{ promoCode: PromoCodeResult }>('/bookings/validate-promo', {
             code,
             totalAmount,
+            ...details,
         });
     }
 
@@ -164,6 +205,24 @@ class ApiClient {
         return this.get<{ bookings: Booking[] }>('/bookings/my');
     }
 
+    // ============ Payments ============
+    async createDepositCheckout(bookingId: string) {
+        return this.post<{ paymentId: string; amount: number; paymentUrl: string }>('/payments/checkout', { bookingId });
+    }
+
+    // ============ Gift Certificates ============
+    async purchaseGiftCertificate(data: PurchaseGiftCertificateRequest) {
+        return this.post<{ certificate: Pick<GiftCertificate, 'id' | 'amount' | 'expiresAt' | 'status'>; paymentId: string; paymentUrl: string }>('/gift-certificates', data);
+    }
+
+    async getMyGiftCertificates() {
+        return this.get<{ certificates: GiftCertificate[] }>('/gift-certificates/my');
+    }
+
+    async checkGiftCertificate(code: string) {
+        return this.get<{ certificate: Pick<GiftCertificate, 'code' | 'balance' | 'expiresAt'> }>(`/gift-certificates/${encodeURIComponent(code)}`);
+    }
+
     // ============ Promotions ============
     async getPromotions() {
         return this.get<{
@@ -210,7 +269,7 @@ class ApiClient {
 
     // ============ Profile ============
     async getProfile() {
-        return this.get<{ user: User }>('/profile');
+        return this.get<{ user: User; packages: UserPackageBalance[]; referral: ReferralStats }>('/profile');
     }
 
     async updateProfile(data: UpdateProfileRequest) {
@@ -221,8 +280,25 @@ class ApiClient {
         return this.get<LoyaltyData>('/profile/loyalty');
     }
 
-    async updateBookingStatus(bookingId: string, status: string) {
-        return this.patch<{ booking: Booking }>(`/bookings/${bookingId}/status`, { status });
+    // scope 'future' — for a series also cancels every later visit
+    async updateBookingStatus(bookingId: string, status: string, scope: 'single' | 'future' = 'single') {
+        return this.patch<{
+            booking: Booking;
+            refund: RefundSummary | null;
+            cancelledSeriesBookingIds: string[];
+            cancelledGroupBookingIds: string[];
+        }>(
+            `/bookings/${bookingId}/status`,
+            { status, scope }
+        );
+    }
+
+    async getCancellationPreview(bookingId: string) {
+        return this.get<CancellationPreview>(`/bookings/${bookingId}/cancellation-preview`);
+    }
+
+    async rescheduleBooking(bookingId: string, bookingDate: string, startTime: string) {
+        return this.post<{ booking: Booking }>(`/bookings/${bookingId}/reschedule`, { bookingDate, startTime });
     }
 
     // ============ Master Dashboard ============
@@ -240,6 +316,7 @@ class ApiClient {
         workDate: string;
         startTime?: string;
         endTime?: string;
+        intervals?: { startTime: string; endTime: string }[];
         isDayOff?: boolean;
     }) {
         return this.put<{ schedule: ScheduleDay }>('/master/schedule', data);
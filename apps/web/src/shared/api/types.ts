@@ -71,6 +71,29 @@ export interface Service {
     durations: ServiceDuration[];
 }
 
+export interface ComboItem {
+    id: string;
+    comboId: string;
+    serviceId: string;
+    durationId: string;
+    sortOrder: number;
+    service: Service;
+    duration: ServiceDuration;
+}
+
+export interface Combo {
+    id: string;
+    name: Record<string, string>;
+    description?: Record<string, string>;
+    imageUrl?: string;
+    discountPercent: number;
+    sortOrder: number;
+    items: ComboItem[];
+    totalDuration: number;
+    basePrice: number;
+    comboPrice: number;
+}
+
 // ============ Master ============
 export interface MasterService {
     id: string;
@@ -122,6 +145,8 @@ export interface Booking {
     depositPercent?: number;
     adminNotes?: string;
     cancelReason?: string;
+    seriesId?: string | null;
+    groupId?: string | null;
     createdAt: string;
     master?: {
         displayName: Record<string, string>;
@@ -142,14 +167,58 @@ export type BookingStatus =
     | 'no_show';
 
 export interface CreateBookingRequest {
-    masterId: string;
+    masterId?: string; // omitted — the server assigns an available master
     bookingDate: string;
     startTime: string;
-    serviceDurations: Array<{
+    serviceDurations?: Array<{
         serviceId: string;
         durationId: string;
     }>;
+    comboId?: string;
     promoCode?: string;
+    giftCertificateCode?: string;
+    usePackage?: boolean;
+}
+
+export interface CreateBookingSeriesRequest {
+    masterId: string;
+    startDate: string;
+    startTime: string;
+    serviceDurations: Array<{
+        serviceId: string;
+        durationId: string;
+    }>;
+    intervalWeeks: 1 | 2;
+    occurrences?: number;
+    untilDate?: string;
+}
+
+// Group (couples) booking: several masters in parallel, one shared price and deposit
+export interface CreateBookingGroupRequest {
+    bookingDate: string;
+    startTime: string;
+    participants: Array<{
+        masterId: string;
+        serviceDurations: Array<{
+            serviceId: string;
+            durationId: string;
+        }>;
+    }>;
+}
+
+export interface BookingGroup {
+    id: string;
+    totalPrice: number;
+    bookingDate: string;
+    startTime: string;
+    endTime: string;
+}
+
+export interface BookingSeriesOccurrence {
+    date: string;
+    status: 'booked' | 'conflict';
+    booking: Booking | null;
+    conflict: { message: string; code: string } | null;
 }
 
 export interface PromoCodeResult {
@@ -159,6 +228,68 @@ export interface PromoCodeResult {
     discountAmount: number;
 }
 
+export interface CancellationPreview {
+    paidAmount: number;
+    refundPercent: number;
+    refundAmount: number;
+    hoursBefore: number;
+}
+
+export interface RefundSummary extends CancellationPreview {
+    refundedAmount: number;
+    failedAmount: number;
+}
+
+// ============ Session Package ============
+// Prepaid package balance ("10 × 60 min classic massage"); a covered service is booked for one session
+export interface UserPackageBalance {
+    id: string;
+    name: Record<string, string>;
+    service: {
+        id: string;
+        name: Record<string, string>;
+    };
+    durationId: string;
+    durationMinutes: number;
+    sessionsTotal: number;
+    sessionsRemaining: number;
+    expiresAt: string;
+}
+
+export interface ReferralStats {
+    link: string;
+    invitedCount: number;
+    rewardedCount: number;
+    // Unused personal promo codes received as referral rewards
+    rewardCodes: {
+        code: string;
+        discountType: 'percent' | 'fixed';
+        discountValue: number;
+        validUntil: string;
+    }[];
+}
+
+// ============ Gift Certificate ============
+export type GiftCertificateStatus = 'pending' | 'active' | 'used' | 'voided';
+
+export interface GiftCertificate {
+    id: string;
+    code: string;
+    amount: number;
+    balance: number;
+    status: GiftCertificateStatus;
+    expiresAt: string;
+    recipientName?: string | null;
+    createdAt: string;
+    shareLink: string | null;
+}
+
+export interface PurchaseGiftCertificateRequest {
+    amount: number;
+    recipientName?: string;
+    message?: string;
+}
+
 // ============ Review ============
 export interface Review {
     id: string;
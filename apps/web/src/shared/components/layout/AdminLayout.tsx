@@ -9,11 +9,15 @@ const menuItems = [
     { path: '/admin', label: 'Dashboard', icon: '📊' },
     { path: '/admin/services', label: 'Послуги', icon: '💆' },
     { path: '/admin/masters', label: 'Майстри', icon: '👤' },
+    { path: '/admin/resources', label: 'Ресурси', icon: '🚪' },
     { path: '/admin/bookings', label: 'Бронювання', icon: '📅' },
     { path: '/admin/users', label: 'Користувачі', icon: '👥' },
     { path: '/admin/promo-codes', label: 'Промокоди', icon: '🏷️' },
+    { path: '/admin/packages', label: 'Абонементи', icon: '🎫' },
+    { path: '/admin/gift-certificates', label: 'Сертифікати', icon: '🎁' },
     { path: '/admin/reviews', label: 'Відгуки', icon: '⭐' },
     { path: '/admin/analytics', label: 'Аналітика', icon: '📈' },
+    { path: '/admin/settings', label: 'Налаштування', icon: '⚙️' },
 ];
 
 export const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {